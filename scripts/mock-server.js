@@ -0,0 +1,77 @@
+/**
+ * Runs the in-memory books API (src/MockServer) as a local HTTP server for development.
+ *
+ *   npm run mock-server            # listens on http://localhost:4000
+ *   PORT=5000 npm run mock-server
+ *
+ * The API lives under /v1/books/{userId}, like the real one, and streams every change to
+ * GET /v1/books/{userId}/events as Server-Sent Events. Data is kept in memory and reset on restart.
+ */
+const http = require("http");
+const fs = require("fs");
+const babel = require("@babel/core");
+
+// Compile the TypeScript sources on the fly, so the server shares its code with the tests.
+require.extensions[".ts"] = (module, filename) => {
+  const { code } = babel.transformSync(fs.readFileSync(filename, "utf8"), {
+    filename,
+    babelrc: false,
+    configFile: false,
+    presets: ["@babel/preset-typescript"],
+    plugins: ["@babel/plugin-transform-modules-commonjs"]
+  });
+  module._compile(code, filename);
+};
+
+const { createMockBooksApi } = require("../src/MockServer/MockBooksApi.ts");
+
+const PORT = Number(process.env.PORT) || 4000;
+const api = createMockBooksApi();
+
+const EVENTS_PATH = /^\/v1\/books\/([^/]+)\/events\/?$/;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Accept, Authorization"
+};
+
+const server = http.createServer((req, res) => {
+  let body = "";
+  req.setEncoding("utf8");
+  req.on("data", (chunk) => {
+    body += chunk;
+  });
+  req.on("end", () => {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+    const path = url.pathname;
+
+    const eventsMatch = req.method === "GET" && EVENTS_PATH.exec(path);
+    if (eventsMatch) {
+      res.writeHead(200, { ...CORS_HEADERS, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+      res.write(": connected\n\n");
+      const unsubscribe = api.subscribe(decodeURIComponent(eventsMatch[1]), (event) => {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+      });
+      res.on("close", unsubscribe);
+      console.log(`GET ${path} -> streaming`);
+      return;
+    }
+    const query = Object.fromEntries(url.searchParams);
+    const response = api.handle({ method: req.method, path, query, body: body || undefined });
+    console.log(`${req.method} ${path} -> ${response.status}`);
+
+    res.writeHead(response.status, { ...CORS_HEADERS, "Content-Type": "application/json" });
+    res.end(JSON.stringify(response.body));
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock books API listening on http://localhost:${PORT}/v1/books/{userId}`);
+});
@@ -0,0 +1,249 @@
+import { makeAutoObservable, runInAction } from "mobx";
+import { AuthError, ValidationError } from "../Shared/ApiError";
+import { createMemoryStorage, KeyValueStorage } from "../Shared/PersistentStorage";
+import { AuthRepository } from "./Auth.repository";
+import { createAuthStorage } from "./Auth.storage";
+import { AuthTokens, StoredAuthSession } from "./types";
+
+/**
+ * An access token this close to expiring is refreshed before it is sent, in milliseconds.
+ */
+export const TOKEN_REFRESH_MARGIN_MS = 30000;
+
+/**
+ * Shown on the login view after the server rejected the session's tokens.
+ */
+export const SESSION_EXPIRED_MESSAGE = "Your session has expired. Please log in again.";
+
+/**
+ * Shown on the login view after the books API refused the signed-in user access (403).
+ */
+export const ACCESS_DENIED_MESSAGE = "Your account cannot access these books. Please log in with another account.";
+
+/**
+ * Interface defining the structure of the auth store
+ */
+export interface AuthStore {
+  /** The signed-in user, or null when nobody is signed in */
+  user: { userId: string; username: string } | null;
+  isLoggingIn: boolean;
+  /** Why the last login failed */
+  error: string | null;
+  /** Why the user was signed out without asking for it, e.g. an expired session */
+  notice: string | null;
+  readonly isAuthenticated: boolean;
+  readonly userId: string | null;
+  login: (username: string, password: string) => Promise<boolean>;
+  logout: () => Promise<void>;
+  getAccessToken: () => Promise<string | null>;
+  refreshAccessToken: () => Promise<string | null>;
+  endSession: (status: number) => void;
+}
+
+/**
+ * Options for creating an auth store
+ */
+export interface AuthStoreOptions {
+  /** Where the session is persisted across reloads; in memory when omitted. */
+  storage?: KeyValueStorage;
+  /** Current time in milliseconds; injectable for tests. */
+  now?: () => number;
+}
+
+/**
+ * Turns a failed login into a message for the login view.
+ * @private - For internal use only, not part of the public API.
+ */
+const loginErrorMessage = (err: unknown): string => {
+  if (err instanceof AuthError) {
+    return "Wrong username or password.";
+  }
+  if (err instanceof ValidationError) {
+    return err.message;
+  }
+  return "Could not log in. Check your connection and try again.";
+};
+
+/**
+ * Creates the store that owns the user's session with the authentication API: logging in and out,
+ * keeping the tokens (persisted, so a reload keeps the user signed in) and refreshing the access token
+ * before it expires. Concurrent refreshes share one request, since the server may rotate the refresh token.
+ * @param {AuthRepository} repository - The authentication API.
+ * @param {AuthStoreOptions} options - Persistent storage and clock.
+ * @returns {AuthStore} An observable MobX store instance.
+ */
+export function createAuthStore(repository: AuthRepository, options: AuthStoreOptions = {}): AuthStore {
+  const authStorage = createAuthStorage(options.storage || createMemoryStorage());
+  const now = options.now || Date.now;
+  /** Tokens of the current session; kept out of the observable state so components never render them */
+  let session: StoredAuthSession | null = authStorage.load();
+  /** The refresh in flight, shared by every request that needs a new access token */
+  let refreshing: Promise<string | null> | null = null;
+
+  /**
+   * Keeps the tokens of a new or refreshed session.
+   */
+  const startSession = (tokens: AuthTokens, username: string) => {
+    session = {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: now() + tokens.expiresIn * 1000,
+      userId: tokens.userId,
+      username
+    };
+    authStorage.save(session);
+    store.user = { userId: tokens.userId, username };
+  };
+
+  /**
+   * Forgets the session locally, e.g. before telling the server or after the server rejected it.
+   */
+  const clearSession = (notice: string | null) => {
+    session = null;
+    refreshing = null;
+    authStorage.clear();
+    store.user = null;
+    store.notice = notice;
+  };
+
+  const store = makeAutoObservable({
+    user: session ? { userId: session.userId, username: session.username } : null,
+    isLoggingIn: false,
+    error: null as string | null,
+    notice: null as string | null,
+
+    /**
+     * Whether a user is signed in.
+     */
+    get isAuthenticated(): boolean {
+      return store.user !== null;
+    },
+
+    /**
+     * Whose books the session gives access to, or null when nobody is signed in.
+     */
+    get userId(): string | null {
+      return store.user ? store.user.userId : null;
+    },
+
+    /**
+     * Logs in with a username and password, replacing any current session.
+     * @param {string} username - The username; surrounding whitespace is ignored.
+     * @param {string} password - The password.
+     * @returns {Promise<boolean>} True if the user is now signed in; otherwise `error` says why not.
+     */
+    async login(username: string, password: string): Promise<boolean> {
+      const name = username.trim();
+      if (!name || !password) {
+        store.error = "Enter your username and password.";
+        return false;
+      }
+      store.isLoggingIn = true;
+      store.error = null;
+      try {
+        const tokens = await repository.login(name, password);
+        runInAction(() => {
+          startSession(tokens, name);
+          store.isLoggingIn = false;
+          store.notice = null;
+        });
+        return true;
+      } catch (err) {
+        runInAction(() => {
+          store.isLoggingIn = false;
+          store.error = loginErrorMessage(err);
+        });
+        return false;
+      }
+    },
+
+    /**
+     * Signs out right away and then revokes the session on the server. A failure to reach the server is
+     * only logged: the tokens are already gone from this browser.
+     */
+    async logout() {
+      if (!session) {
+        return;
+      }
+      const refreshToken = session.refreshToken;
+      clearSession(null);
+      try {
+        await repository.logout(refreshToken);
+      } catch (err) {
+        console.error("Failed to revoke the session:", err);
+      }
+    },
+
+    /**
+     * Returns the access token to send, refreshing it first when it expires within `TOKEN_REFRESH_MARGIN_MS`.
+     * @returns {Promise<string | null>} The token, or null when nobody is signed in or refreshing failed.
+     */
+    async getAccessToken(): Promise<string | null> {
+      if (!session) {
+        return null;
+      }
+      if (now() < session.expiresAt - TOKEN_REFRESH_MARGIN_MS) {
+        return session.accessToken;
+      }
+      return store.refreshAccessToken();
+    },
+
+    /**
+     * Exchanges the refresh token for new tokens. When the server rejects the refresh token the session
+     * ends with `SESSION_EXPIRED_MESSAGE`; other failures (e.g. being offline) keep it for a later try.
+     * @returns {Promise<string | null>} The new access token, or null if refreshing failed.
+     */
+    refreshAccessToken(): Promise<string | null> {
+      if (!session) {
+        return Promise.resolve(null);
+      }
+      if (!refreshing) {
+        const current = session;
+        const pending: Promise<string | null> = repository.refresh(current.refreshToken).then(
+          (tokens: AuthTokens) => {
+            if (session !== current) {
+              return null;
+            }
+            runInAction(() => {
+              startSession(tokens, current.username);
+            });
+            return tokens.accessToken;
+          },
+          (err: unknown) => {
+            if (session !== current) {
+              return null;
+            }
+            if (err instanceof AuthError) {
+              runInAction(() => {
+                clearSession(SESSION_EXPIRED_MESSAGE);
+              });
+            } else {
+              console.error("Failed to refresh the session:", err);
+            }
+            return null;
+          }
+        );
+        refreshing = pending;
+        pending.then(() => {
+          if (refreshing === pending) {
+            refreshing = null;
+          }
+        });
+      }
+      return refreshing;
+    },
+
+    /**
+     * Ends the session after the books API rejected its token (401) or denied access with it (403),
+     * telling the user why on the login view. Does nothing when nobody is signed in.
+     * @param {number} status - The HTTP status the books API answered with.
+     */
+    endSession(status: number) {
+      if (!session) {
+        return;
+      }
+      clearSession(status === 403 ? ACCESS_DENIED_MESSAGE : SESSION_EXPIRED_MESSAGE);
+    }
+  });
+  return store;
+}
@@ -0,0 +1,79 @@
+import { ResponseValidationError } from "../Shared/ApiError";
+import { validateUserId } from "../Shared/config";
+import { HttpClient } from "../Shared/HttpClient";
+import { authTokensSchema } from "./Auth.schema";
+import { AuthTokens } from "./types";
+
+/**
+ * Interface defining the structure of the authentication repository
+ */
+export interface AuthRepository {
+  login: (username: string, password: string) => Promise<AuthTokens>;
+  refresh: (refreshToken: string) => Promise<AuthTokens>;
+  logout: (refreshToken: string) => Promise<void>;
+}
+
+/**
+ * Checks a token response against its schema. The user id becomes a segment of every books path,
+ * so it must also be a valid user id.
+ * @param {unknown} dto - The parsed response body.
+ * @param {string} path - The endpoint, for the error.
+ * @returns {AuthTokens} The tokens.
+ * @throws {ResponseValidationError} If the body does not have the expected shape.
+ * @private - For internal use only, not part of the public API.
+ */
+const toTokens = (dto: unknown, path: string): AuthTokens => {
+  const result = authTokensSchema.parse(dto);
+  const issues = result.ok ? [] : result.issues;
+  if (result.ok && validateUserId(result.value.userId)) {
+    issues.push({ path: "userId", message: validateUserId(result.value.userId) as string });
+  }
+  if (!result.ok || issues.length) {
+    throw new ResponseValidationError(
+      "The server returned an unexpected response.",
+      { status: null, url: path, method: "POST", body: dto },
+      issues
+    );
+  }
+  return result.value;
+};
+
+/**
+ * Creates the authentication repository on top of the given HTTP client. The client must not be the
+ * books API gateway: its requests carry no bearer token and a 401 from them means wrong credentials.
+ * @param {HttpClient} client - The client used to reach the authentication API.
+ * @returns {AuthRepository} The repository functions bound to that client.
+ */
+export const createAuthRepository = (client: HttpClient): AuthRepository => ({
+  /**
+   * Exchanges a username and password for tokens.
+   * @param {string} username - The username.
+   * @param {string} password - The password.
+   * @returns {Promise<AuthTokens>} The tokens of the new session.
+   * @throws {AuthError} If the credentials are wrong.
+   */
+  login: async (username: string, password: string): Promise<AuthTokens> => {
+    const dto = await client.post<unknown>("/login", { username, password });
+    return toTokens(dto, "/login");
+  },
+
+  /**
+   * Exchanges a refresh token for new tokens.
+   * @param {string} refreshToken - The refresh token of the current session.
+   * @returns {Promise<AuthTokens>} The new tokens; the old refresh token may no longer be used.
+   * @throws {AuthError} If the refresh token expired or was revoked.
+   */
+  refresh: async (refreshToken: string): Promise<AuthTokens> => {
+    const dto = await client.post<unknown>("/refresh", { refreshToken });
+    return toTokens(dto, "/refresh");
+  },
+
+  /**
+   * Revokes the session on the server.
+   * @param {string} refreshToken - The refresh token of the session to end.
+   * @returns {Promise<void>} Resolves once the server has revoked it.
+   */
+  logout: async (refreshToken: string): Promise<void> => {
+    await client.post<unknown>("/logout", { refreshToken });
+  }
+});
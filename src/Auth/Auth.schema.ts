@@ -0,0 +1,12 @@
+import { numberSchema, objectSchema, stringSchema } from "../Shared/Schema";
+import { AuthTokens } from "./types";
+
+/**
+ * Expected shape of the response to logging in or refreshing the tokens.
+ */
+export const authTokensSchema = objectSchema<AuthTokens>({
+  accessToken: stringSchema({ nonEmpty: true }),
+  refreshToken: stringSchema({ nonEmpty: true }),
+  expiresIn: numberSchema(),
+  userId: stringSchema({ nonEmpty: true })
+});
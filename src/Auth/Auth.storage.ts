@@ -0,0 +1,64 @@
+import { KeyValueStorage, readJson, writeJson } from "../Shared/PersistentStorage";
+import { StoredAuthSession } from "./types";
+
+/**
+ * Storage key of the signed-in session.
+ * @private - For internal use only, not part of the public API.
+ */
+const SESSION_KEY = "reaktivate-books:auth";
+
+/**
+ * Checks that a stored value still has the shape of a session, e.g. after an app update.
+ * @private - For internal use only, not part of the public API.
+ */
+const isStoredSession = (value: unknown): value is StoredAuthSession => {
+  const session = value as StoredAuthSession;
+  return (
+    !!session &&
+    typeof session.accessToken === "string" &&
+    typeof session.refreshToken === "string" &&
+    typeof session.expiresAt === "number" &&
+    typeof session.userId === "string" &&
+    typeof session.username === "string"
+  );
+};
+
+/**
+ * Creates the persistence layer for the signed-in session, so a reload does not ask for the password again.
+ * @param {KeyValueStorage} storage - Where to persist the session.
+ * @returns Functions to load, save and clear the session.
+ */
+export const createAuthStorage = (storage: KeyValueStorage) => ({
+  /**
+   * Loads the persisted session.
+   * @returns {StoredAuthSession | null} The session, or null if none was saved or it is unreadable.
+   */
+  load: (): StoredAuthSession | null => {
+    const session = readJson<unknown>(storage, SESSION_KEY, null);
+    return isStoredSession(session) ? session : null;
+  },
+
+  /**
+   * Persists the session, replacing the previous one.
+   * @param {StoredAuthSession} session - The session to persist.
+   */
+  save(session: StoredAuthSession): void {
+    writeJson(storage, SESSION_KEY, session);
+  },
+
+  /**
+   * Removes the persisted session.
+   */
+  clear(): void {
+    try {
+      storage.removeItem(SESSION_KEY);
+    } catch (e) {
+      console.error(`Failed to remove "${SESSION_KEY}" from storage:`, e);
+    }
+  }
+});
+
+/**
+ * The session persistence layer used by the auth store.
+ */
+export type AuthStorage = ReturnType<typeof createAuthStorage>;
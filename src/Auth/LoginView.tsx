@@ -0,0 +1,97 @@
+import React, { useState, FormEvent } from "react";
+import { observer } from "mobx-react";
+import { AuthStore } from "./Auth.controller";
+
+interface StylesType {
+  form: React.CSSProperties;
+  inputGroup: React.CSSProperties;
+  notice: React.CSSProperties;
+  error: React.CSSProperties;
+}
+
+const styles: StylesType = {
+  form: {
+    maxWidth: "320px",
+    margin: "40px auto",
+  },
+  inputGroup: {
+    marginBottom: "10px",
+  },
+  notice: {
+    color: "#8a6d3b",
+    marginBottom: "10px",
+  },
+  error: {
+    color: "red",
+    marginBottom: "10px",
+  },
+};
+
+/**
+ * Props of the login view.
+ */
+interface LoginViewProps {
+  auth: AuthStore;
+}
+
+/**
+ * Login form shown instead of the books while nobody is signed in, e.g. after the session expired.
+ * Keeps the typed username and password in local state; the password is cleared after a failed attempt.
+ * @component
+ */
+const LoginView: React.FC<LoginViewProps> = ({ auth }) => {
+  const [username, setUsername] = useState<string>("");
+  const [password, setPassword] = useState<string>("");
+
+  /**
+   * Logs in with the typed credentials.
+   */
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const loggedIn = await auth.login(username, password);
+    if (!loggedIn) {
+      setPassword("");
+    }
+  };
+
+  return (
+    <form style={styles.form} onSubmit={handleSubmit} aria-labelledby="login-title">
+      <h2 id="login-title">Log in</h2>
+      {auth.notice && (
+        <div role="status" style={styles.notice}>
+          {auth.notice}
+        </div>
+      )}
+      {auth.error && (
+        <div role="alert" style={styles.error}>
+          {auth.error}
+        </div>
+      )}
+      <div style={styles.inputGroup}>
+        <label htmlFor="login-username">Username: </label>
+        <input
+          id="login-username"
+          type="text"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+        />
+      </div>
+      <div style={styles.inputGroup}>
+        <label htmlFor="login-password">Password: </label>
+        <input
+          id="login-password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </div>
+      <button type="submit" disabled={auth.isLoggingIn} aria-busy={auth.isLoggingIn}>
+        {auth.isLoggingIn ? "Logging in..." : "Log in"}
+      </button>
+    </form>
+  );
+};
+
+export default observer(LoginView);
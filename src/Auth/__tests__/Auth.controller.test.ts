@@ -0,0 +1,105 @@
+import { ACCESS_DENIED_MESSAGE, AuthStore, createAuthStore, SESSION_EXPIRED_MESSAGE } from '../Auth.controller';
+import { AuthRepository } from '../Auth.repository';
+import { AuthError, NetworkError } from '../../Shared/ApiError';
+import { createMemoryStorage, KeyValueStorage } from '../../Shared/PersistentStorage';
+import { mockConsole } from '../../Shared/testing';
+
+mockConsole();
+
+const tokens = (suffix: string) => ({
+  accessToken: `access-${suffix}`,
+  refreshToken: `refresh-${suffix}`,
+  expiresIn: 600,
+  userId: 'alice',
+});
+
+const createMockRepository = (): AuthRepository => ({
+  login: jest.fn().mockResolvedValue(tokens('1')),
+  refresh: jest.fn().mockResolvedValue(tokens('2')),
+  logout: jest.fn().mockResolvedValue(undefined),
+});
+
+const authError = (status: number) => new AuthError(`HTTP error ${status}`, { status, url: 'https://auth.test/', method: 'POST' });
+
+describe('Auth store', () => {
+  let repository: AuthRepository;
+  let storage: KeyValueStorage;
+  let time: number;
+  let auth: AuthStore;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    storage = createMemoryStorage();
+    time = 1000000;
+    auth = createAuthStore(repository, { storage, now: () => time });
+  });
+
+  it('should log in and stay signed in after a reload', async () => {
+    await expect(auth.login(' alice ', 'secret')).resolves.toBe(true);
+
+    expect(repository.login).toHaveBeenCalledWith('alice', 'secret');
+    expect(auth.user).toEqual({ userId: 'alice', username: 'alice' });
+
+    const reloaded = createAuthStore(repository, { storage, now: () => time });
+    expect(reloaded.isAuthenticated).toBe(true);
+    await expect(reloaded.getAccessToken()).resolves.toBe('access-1');
+  });
+
+  it('should explain a failed login', async () => {
+    (repository.login as jest.Mock).mockRejectedValueOnce(authError(401));
+
+    await expect(auth.login('alice', 'wrong')).resolves.toBe(false);
+    expect(auth.error).toBe('Wrong username or password.');
+
+    await auth.login('alice', '');
+    expect(auth.error).toBe('Enter your username and password.');
+    expect(repository.login).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refresh an expiring token once for concurrent requests', async () => {
+    await auth.login('alice', 'secret');
+    time += 600000 - 1000;
+
+    const issued = await Promise.all([auth.getAccessToken(), auth.getAccessToken()]);
+
+    expect(issued).toEqual(['access-2', 'access-2']);
+    expect(repository.refresh).toHaveBeenCalledTimes(1);
+    expect(repository.refresh).toHaveBeenCalledWith('refresh-1');
+    await expect(auth.getAccessToken()).resolves.toBe('access-2');
+  });
+
+  it('should end the session when the refresh token is rejected, but not when offline', async () => {
+    await auth.login('alice', 'secret');
+    (repository.refresh as jest.Mock).mockRejectedValueOnce(new NetworkError({ status: null, url: 'https://auth.test/', method: 'POST' }));
+
+    await expect(auth.refreshAccessToken()).resolves.toBeNull();
+    expect(auth.isAuthenticated).toBe(true);
+
+    (repository.refresh as jest.Mock).mockRejectedValueOnce(authError(401));
+    await expect(auth.refreshAccessToken()).resolves.toBeNull();
+
+    expect(auth.isAuthenticated).toBe(false);
+    expect(auth.notice).toBe(SESSION_EXPIRED_MESSAGE);
+    expect(createAuthStore(repository, { storage }).isAuthenticated).toBe(false);
+  });
+
+  it('should say why the session ended after the API denied access', async () => {
+    await auth.login('alice', 'secret');
+
+    auth.endSession(403);
+
+    expect(auth.isAuthenticated).toBe(false);
+    expect(auth.notice).toBe(ACCESS_DENIED_MESSAGE);
+  });
+
+  it('should sign out right away and revoke the session on the server', async () => {
+    await auth.login('alice', 'secret');
+
+    const loggingOut = auth.logout();
+    expect(auth.isAuthenticated).toBe(false);
+    await loggingOut;
+
+    expect(repository.logout).toHaveBeenCalledWith('refresh-1');
+    await expect(auth.getAccessToken()).resolves.toBeNull();
+  });
+});
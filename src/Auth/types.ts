@@ -0,0 +1,26 @@
+/**
+ * Tokens issued by the authentication API when logging in or refreshing.
+ */
+export interface AuthTokens {
+  /** Sent as `Authorization: Bearer <accessToken>` with every books request. */
+  accessToken: string;
+  /** Exchanged for new tokens once the access token expires. */
+  refreshToken: string;
+  /** Lifetime of the access token, in seconds. */
+  expiresIn: number;
+  /** The user the tokens belong to; the segment of the books API paths. */
+  userId: string;
+}
+
+/**
+ * A signed-in session as kept in storage, so it survives reloads.
+ */
+export interface StoredAuthSession {
+  accessToken: string;
+  refreshToken: string;
+  /** When the access token expires, in milliseconds since the epoch. */
+  expiresAt: number;
+  userId: string;
+  /** The name the user logged in with, shown in the header. */
+  username: string;
+}
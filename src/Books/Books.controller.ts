@@ -1,6 +1,61 @@
 import { makeAutoObservable, runInAction } from "mobx";
-import * as booksRepository from "./Books.repository";
-import { Book } from "./types";
+import { ACCESS_DENIED_MESSAGE, SESSION_EXPIRED_MESSAGE } from "../Auth/Auth.controller";
+import {
+  AddBookData,
+  applyBookChanges,
+  PageRequest,
+  ResponseIssuesReporter,
+  UpdateBookData
+} from "./Books.repository";
+import {
+  ApiError,
+  AuthError,
+  MalformedResponseError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  RequestCancelledError,
+  ServerError,
+  TimeoutError,
+  ValidationError
+} from "../Shared/ApiError";
+import { createQueryCache, QueryCache } from "../Shared/QueryCache";
+import { SchemaIssue } from "../Shared/Schema";
+import { createMemoryStorage, KeyValueStorage } from "../Shared/PersistentStorage";
+import { appConfig, validateUserId } from "../Shared/config";
+import { createUserSession, UserSession } from "../Shared/UserSession";
+import { BooksEvents, createBooksEvents } from "./Books.events";
+import { createOfflineBooksStorage, QueuedBook } from "./Books.offline";
+import { applyBookQuery, BookQuery, BookSortKey, listAuthors, SortDirection } from "./Books.query";
+import { DuplicateMatch, findLikelyDuplicate } from "./Books.duplicates";
+import { isReadingStatus, readingStatusChanges } from "./Books.reading";
+import { previousValues } from "./Books.history";
+import { normalizeBookDetails, validateAuthorName, validateBookDetails, validateBookName } from "./Books.validation";
+import { Book, BookDetails, BookEvent, ReadingStatus } from "./types";
+
+/**
+ * Broad category of a store error, used by the view to decide how to present it:
+ * field messages on the form for `validation`, a retry banner for `outage`.
+ */
+export type BooksErrorKind = 'validation' | 'outage' | 'auth' | 'notFound' | 'unknown';
+
+/**
+ * What the list shows: every book, the private shelf, or the books with one reading status.
+ * The reading status views filter the "all" list, so they share its pages and cache.
+ */
+export type BooksViewType = 'all' | 'private' | ReadingStatus;
+
+/**
+ * Structured error exposed by the Books store
+ */
+export interface BooksError {
+  kind: BooksErrorKind;
+  message: string;
+  /** Messages keyed by form field (`name`, `author`, `isbn`...); empty unless `kind` is `validation`. */
+  fieldErrors: Record<string, string>;
+  /** HTTP status of the failed request, if there was a response. */
+  status: number | null;
+}
 
 /**
  * Interface defining the structure of the Books store
@@ -8,133 +63,988 @@ import { Book } from "./types";
 export interface BooksStore {
   books: Book[];
   isLoading: boolean;
-  error: string | null;
-  viewType: 'all' | 'private';
+  isRefreshing: boolean;
+  isLoadingMore: boolean;
+  page: number;
+  hasMore: boolean;
+  error: BooksError | null;
+  readonly errorMessage: string | null;
+  viewType: BooksViewType;
   privateBooksCount: number;
+  privateBookIds: number[];
+  pendingBookIds: number[];
+  isOnline: boolean;
+  queuedBooks: QueuedBook[];
+  responseIssues: SchemaIssue[];
+  query: BookQuery;
+  duplicateWarning: DuplicateWarning | null;
+  readonly events: BooksEvents;
+  readonly viewBooks: Book[];
+  readonly visibleBooks: Book[];
+  readonly authors: string[];
+  readonly userId: string;
   loadBooks: () => Promise<void>;
+  loadMoreBooks: () => Promise<void>;
   loadPrivateBooksCount: () => Promise<void>;
-  addBook: (name: string, author: string) => Promise<void>;
-  setViewType: (type: 'all' | 'private') => void;
+  reload: () => Promise<void>;
+  loadedBooks: () => Book[];
+  addBook: (name: string, author: string, details?: BookDetails, isPrivate?: boolean) => Promise<boolean>;
+  updateBook: (id: number, changes: UpdateBookData) => Promise<void>;
+  deleteBook: (id: number) => Promise<void>;
+  setBookPrivate: (id: number, isPrivate: boolean) => Promise<void>;
+  setReadingStatus: (id: number, status: ReadingStatus) => Promise<void>;
+  addValidBook: (name: string, author: string, details: BookDetails, isPrivate: boolean) => Promise<Book | null>;
+  changeBook: (id: number, changes: UpdateBookData) => Promise<boolean>;
+  removeBook: (id: number) => Promise<boolean>;
+  changeBookPrivacy: (id: number, isPrivate: boolean) => Promise<boolean>;
+  replaceQueuedBook: (queued: QueuedBook, book: Book) => void;
+  removeQueuedBook: (tempId: number) => boolean;
+  isBookPending: (book: Book) => boolean;
+  isBookPrivate: (book: Book) => boolean;
+  setViewType: (type: BooksViewType) => void;
+  setSearch: (search: string) => void;
+  setAuthorFilter: (author: string | null) => void;
+  setSort: (sortKey: BookSortKey | null, sortDirection?: SortDirection) => void;
+  retry: () => Promise<void>;
+  setOnline: (online: boolean) => Promise<void>;
+  confirmDuplicate: () => Promise<boolean>;
+  dismissDuplicate: () => void;
+  switchUser: (userId: string) => Promise<void>;
+  signOut: () => void;
+  applyBookEvent: (event: BookEvent) => void;
   init: () => Promise<void>;
 }
 
+/**
+ * A book held back by `addBook` because it looks like one already on the list
+ */
+export interface DuplicateWarning {
+  name: string;
+  author: string;
+  details: BookDetails;
+  isPrivate: boolean;
+  /** The listed book it seems to repeat */
+  match: DuplicateMatch;
+}
+
 /**
  * Interface for the repository dependency
  */
 export interface BooksRepository {
-  getBooks: () => Promise<Book[]>;
-  getPrivateBooks: () => Promise<Book[]>;
-  addBook: (bookData: { name: string; author: string }) => Promise<boolean>;
+  getBooks: (signal?: AbortSignal, onIssues?: ResponseIssuesReporter, page?: PageRequest) => Promise<Book[]>;
+  getPrivateBooks: (signal?: AbortSignal, onIssues?: ResponseIssuesReporter) => Promise<Book[]>;
+  addBook: (bookData: AddBookData, isPrivate?: boolean) => Promise<Book | null>;
+  updateBook: (id: number, changes: UpdateBookData) => Promise<boolean>;
+  setBookPrivate: (id: number, isPrivate: boolean) => Promise<boolean>;
+  deleteBook: (id: number) => Promise<boolean>;
+}
+
+/**
+ * Describes a store mutation that is applied locally before the server confirms it.
+ * `commit` resolving to a falsy value is treated the same as a rejection.
+ */
+interface OptimisticMutation<T> {
+  /** Applies the change to local state right away. */
+  apply: () => void;
+  /** Performs the repository call that makes the change permanent. */
+  commit: () => Promise<T>;
+  /** Replaces the optimistic state with what the server returned. */
+  reconcile?: (result: T) => void;
+  /** Reverts the change made by `apply`. */
+  rollback: () => void;
+  /** Handles a failure instead of rolling back (e.g. by queueing the change); returns true if it did. */
+  recover?: (error: unknown) => boolean;
+  /** Runs after the mutation finishes either way, e.g. to clear pending markers. */
+  settle?: () => void;
+  /** Error message used when `commit` resolves to a falsy value. */
+  rejectedMessage: string;
+  /** Short description of the action, used in logs and fallback error messages. */
+  failureLabel: string;
 }
 
+/**
+ * Options for creating a Books store
+ */
+export interface BooksStoreOptions {
+  /** Cache for the book lists; a private one is created when omitted. */
+  cache?: QueryCache;
+  /** Where the last loaded lists and the offline queue are persisted; in memory when omitted. */
+  storage?: KeyValueStorage;
+  /** Connectivity when the store is created; defaults to online. */
+  isOnline?: boolean;
+  /** Whose books the store works with; a session for the configured user is created when omitted. */
+  session?: UserSession;
+  /** Number of books fetched per page of the "all" list; defaults to `BOOKS_PAGE_SIZE`. */
+  pageSize?: number;
+  /** Hub the store announces its changes through; a private one is created when omitted. */
+  events?: BooksEvents;
+}
+
+/**
+ * How far a paginated list has been loaded.
+ * @private - For internal use only, not part of the public API.
+ */
+interface ListPaging {
+  /** Last page loaded, counting from 1. */
+  page: number;
+  /** Whether the last page was full, so there may be more books on the server. */
+  hasMore: boolean;
+}
+
+/**
+ * Message shown when the add/edit form is submitted with an empty field.
+ * @private - For internal use only, not part of the public API.
+ */
+const EMPTY_FIELDS_MESSAGE = "Book name and author cannot be empty.";
+
+/**
+ * Message shown when a field has content but is invalid.
+ * @private - For internal use only, not part of the public API.
+ */
+const INVALID_DETAILS_MESSAGE = "Some book details are invalid.";
+
+/**
+ * Checks the submitted book fields: name and author must pass `validateBookName` and `validateAuthorName`,
+ * and the details must be valid.
+ * @param {Partial<AddBookData>} fields - The submitted field values, trimmed; only the ones present are checked.
+ * @returns {BooksError | null} A `validation` error with a message for each invalid field, or null if all are valid.
+ * @private - For internal use only, not part of the public API.
+ */
+const bookFieldsError = (fields: Partial<AddBookData>): BooksError | null => {
+  const fieldErrors: Record<string, string> = validateBookDetails(fields);
+  const nameProblem = fields.name === undefined ? null : validateBookName(fields.name);
+  const authorProblem = fields.author === undefined ? null : validateAuthorName(fields.author);
+  if (nameProblem) {
+    fieldErrors.name = nameProblem;
+  }
+  if (authorProblem) {
+    fieldErrors.author = authorProblem;
+  }
+  if (!Object.keys(fieldErrors).length) {
+    return null;
+  }
+  const emptyFields = (fields.name !== undefined && !fields.name) || (fields.author !== undefined && !fields.author);
+  const message = emptyFields ? EMPTY_FIELDS_MESSAGE : INVALID_DETAILS_MESSAGE;
+  return { kind: "validation", message, fieldErrors, status: null };
+};
+
+/**
+ * Picks a book's reading dates and pages when the changes touch any of them, so the changed values
+ * are checked against the ones they are not replacing.
+ * @param {Book | undefined} book - The book as listed, if it is.
+ * @param {UpdateBookData} changes - The changes about to be made.
+ * @returns {BookDetails} The book's reading dates and pages, or nothing if the changes leave them alone.
+ * @private - For internal use only, not part of the public API.
+ */
+const readingFieldsOf = (book: Book | undefined, changes: UpdateBookData): BookDetails => {
+  const fields: (keyof BookDetails)[] = ["startedAt", "finishedAt", "currentPage", "totalPages"];
+  if (!book || !fields.some((field: keyof BookDetails) => changes[field] !== undefined)) {
+    return {};
+  }
+  return { startedAt: book.startedAt, finishedAt: book.finishedAt, currentPage: book.currentPage, totalPages: book.totalPages };
+};
+
+/**
+ * Converts anything thrown by the repository into a structured store error.
+ * @param {unknown} err - The caught error.
+ * @param {string} fallbackMessage - Message used when the error carries none.
+ * @returns {BooksError} The structured error.
+ */
+export const toBooksError = (err: unknown, fallbackMessage: string): BooksError => {
+  const message = err instanceof Error && err.message ? err.message : fallbackMessage;
+  const status = err instanceof ApiError ? err.status : null;
+
+  if (err instanceof ValidationError) {
+    return { kind: "validation", message, fieldErrors: err.fieldErrors, status };
+  }
+  if (
+    err instanceof NetworkError ||
+    err instanceof TimeoutError ||
+    err instanceof ServerError ||
+    err instanceof RateLimitError ||
+    err instanceof MalformedResponseError
+  ) {
+    return { kind: "outage", message, fieldErrors: {}, status };
+  }
+  if (err instanceof AuthError) {
+    return { kind: "auth", message: status === 403 ? ACCESS_DENIED_MESSAGE : SESSION_EXPIRED_MESSAGE, fieldErrors: {}, status };
+  }
+  if (err instanceof NotFoundError) {
+    return { kind: "notFound", message, fieldErrors: {}, status };
+  }
+  return { kind: "unknown", message, fieldErrors: {}, status };
+};
+
+/**
+ * Cache keys for the book lists, matching the API endpoints they come from.
+ * @private - For internal use only, not part of the public API.
+ */
+const ALL_BOOKS_KEY = "/";
+const PRIVATE_BOOKS_KEY = "/private";
+
+/**
+ * How long a loaded book list is served from the cache without revalidating.
+ */
+export const BOOKS_CACHE_TTL_MS = 30000;
+
+/**
+ * Number of books fetched per page of the "all" list.
+ */
+export const BOOKS_PAGE_SIZE = 50;
+
+/**
+ * Counter for temporary ids given to optimistically added books.
+ * Negative so they can never clash with ids coming from the server.
+ * @private - For internal use only, not part of the public API.
+ */
+let tempIdCounter = 0;
+
+/**
+ * Returns the next temporary id for an optimistically added book.
+ * @returns {number} A unique negative id.
+ * @private - For internal use only, not part of the public API.
+ */
+const nextTempId = (): number => {
+  tempIdCounter -= 1;
+  return tempIdCounter;
+};
+
+/**
+ * Makes sure temporary ids restored from storage are never handed out again.
+ * @param {number[]} ids - Temporary ids already in use.
+ * @private - For internal use only, not part of the public API.
+ */
+const reserveTempIds = (ids: number[]): void => {
+  tempIdCounter = Math.min.apply(null, [tempIdCounter].concat(ids));
+};
+
 /**
  * Creates a MobX store for managing the state and logic for the Books feature.
  * Follows the MVP/MVVM pattern, separating logic from the view.
  *
+ * Book lists are read through a query cache: a cached list is shown right away and, once older
+ * than the TTL or invalidated by a mutation, refreshed in the background.
+ *
+ * Loaded lists are persisted so they can be shown while offline, and books added while offline
+ * are queued durably; the offline store (`createBooksOfflineStore`) sends them once the connection is back.
+ *
+ * The "all" list is loaded a page at a time: `loadBooks` fetches the first page and `loadMoreBooks`
+ * appends the next one while `hasMore` is set. The private list holds only the user's own books and
+ * is loaded whole, since its length is also the header count.
+ *
+ * Undo, import, offline sync and live and tab sync are separate stores built on this one; they follow
+ * its changes through `events` and use its unrecorded mutations (`addValidBook`, `changeBook`...).
+ *
  * @param {BooksRepository} repository - The repository object containing data fetching functions.
+ * @param {BooksStoreOptions} options - Cache, persistent storage, initial connectivity, page size and event hub.
  * @returns {BooksStore} An observable MobX store instance.
  */
-export function createBooksStore(repository: BooksRepository): BooksStore {
+export function createBooksStore(repository: BooksRepository, options: BooksStoreOptions = {}): BooksStore {
+  const cache = options.cache || createQueryCache({ ttlMs: BOOKS_CACHE_TTL_MS });
+  const storage = options.storage || createMemoryStorage();
+  const session = options.session || createUserSession(appConfig.userId);
+  const pageSize = options.pageSize || BOOKS_PAGE_SIZE;
+  const events = options.events || createBooksEvents();
+  let offlineStorage = createOfflineBooksStorage(storage, session.userId);
+
+  /**
+   * Puts the current user's persisted lists into the cache, so they are served until fresh ones are loaded,
+   * and returns the user's offline queue.
+   */
+  const restoreOfflineData = (): QueuedBook[] => {
+    const persistedLists = offlineStorage.loadLists();
+    Object.keys(persistedLists).forEach((key: string) => {
+      if (!cache.peek(key)) {
+        cache.set<Book[]>(key, persistedLists[key]);
+        cache.invalidate(key);
+      }
+    });
+    const queue = offlineStorage.loadQueue();
+    reserveTempIds(queue.map((queued: QueuedBook) => queued.tempId));
+    return queue;
+  };
+  const initialQueue = restoreOfflineData();
+
+  /** Malformed entries reported for the last response of each list, keyed like the cache */
+  const listIssues = new Map<string, SchemaIssue[]>();
+  /** How far each paginated list has been loaded, keyed like the cache */
+  const listPaging = new Map<string, ListPaging>();
+
+  /**
+   * Returns the cache fetcher for a list, recording the malformed entries the repository reports.
+   * The "all" list fetches its first page; fetching it again starts over from that page.
+   */
+  const listFetcher = (key: string) => (signal?: AbortSignal): Promise<Book[]> => {
+    const onIssues = (issues: SchemaIssue[]) => {
+      listIssues.set(key, issues);
+    };
+    if (key === PRIVATE_BOOKS_KEY) {
+      return repository.getPrivateBooks(signal, onIssues);
+    }
+    return repository.getBooks(signal, onIssues, { page: 1, limit: pageSize }).then((books: Book[]) => {
+      listPaging.set(key, { page: 1, hasMore: Array.isArray(books) && books.length >= pageSize });
+      return books;
+    });
+  };
+
+  /** Controller of the in-flight `loadBooks` request, aborted when a newer load starts */
+  let loadController: AbortController | null = null;
+  /** Incremented on every `loadBooks` call; responses from older generations are discarded */
+  let loadGeneration = 0;
+
   const store = makeAutoObservable({
     books: [] as Book[],
     isLoading: false,
-    error: null as string | null,
-    viewType: "all" as 'all' | 'private', // 'all' or 'private'
+    isRefreshing: false,
+    /** Whether the next page of the "all" list is being fetched */
+    isLoadingMore: false,
+    /** Last page of the "all" list that has been loaded, counting from 1 */
+    page: 1,
+    /** Whether `loadMoreBooks` can fetch another page */
+    hasMore: false,
+    error: null as BooksError | null,
+    viewType: "all" as BooksViewType,
     privateBooksCount: 0,
+    /** Ids of the books on the private shelf, for the private badges in the "all" view */
+    privateBookIds: [] as number[],
+    pendingBookIds: [] as number[],
+    isOnline: options.isOnline === undefined ? true : options.isOnline,
+    /** Books added while offline, oldest first, shown as pending until the offline store sends them */
+    queuedBooks: initialQueue,
+    /** Malformed entries the server sent in the current list; they are left out of `books`. */
+    responseIssues: [] as SchemaIssue[],
+    /** Search, author filter and sort applied to `books` for display */
+    query: { search: "", author: null, sortKey: null, sortDirection: "asc" } as BookQuery,
+    /** The book waiting for the user to confirm it is not a duplicate */
+    duplicateWarning: null as DuplicateWarning | null,
+    /** Where the store announces its changes to the stores built on it */
+    events,
+
+    /**
+     * The loaded books of the current view, before search and filters: a reading status view
+     * keeps only the books with that status from the "all" list.
+     */
+    get viewBooks(): Book[] {
+      const status = store.viewType;
+      return isReadingStatus(status) ? store.books.filter((book: Book) => book.status === status) : store.books;
+    },
+
+    /**
+     * The loaded books of the current view that match the current search and author filter, in the current sort order.
+     */
+    get visibleBooks(): Book[] {
+      return applyBookQuery(store.viewBooks, store.query);
+    },
+
+    /**
+     * The distinct authors of the loaded books, for the author filter.
+     */
+    get authors(): string[] {
+      return listAuthors(store.books);
+    },
+
+    /**
+     * The user whose books are shown.
+     */
+    get userId(): string {
+      return session.userId;
+    },
+
+    /**
+     * The message of the current error, or null when there is none.
+     */
+    get errorMessage(): string | null {
+      return store.error ? store.error.message : null;
+    },
 
     /**
      * Loads books from the repository based on the current `viewType`.
-     * Updates `books`, `isLoading`, and `error` state.
+     * Updates `books`, `isLoading`, `isRefreshing` and `error` state.
+     * A cached list is shown immediately; it is only refetched (in the background, with
+     * `isRefreshing` set) when stale. Starting a new load cancels the previous one, and a response
+     * that arrives after a newer load has started is ignored, so the last requested view always wins.
      */
     async loadBooks() {
-      store.isLoading = true;
+      if (loadController) {
+        loadController.abort();
+      }
+      const controller = typeof AbortController !== "undefined" ? new AbortController() : null;
+      const signal = controller ? controller.signal : undefined;
+      loadController = controller;
+      loadGeneration += 1;
+      const generation = loadGeneration;
+      const isStale = () => generation !== loadGeneration;
+
+      const key = showsAllList() ? ALL_BOOKS_KEY : PRIVATE_BOOKS_KEY;
+      const cached = cache.peek<Book[]>(key);
+
       store.error = null;
+      if (cached) {
+        store.books = withQueuedBooks(cached.data);
+        store.responseIssues = listIssues.get(key) || [];
+        applyPaging(key);
+        if (cache.isFresh(key)) {
+          loadController = null;
+          store.isLoading = false;
+          store.isRefreshing = false;
+          return;
+        }
+        store.isRefreshing = true;
+      } else {
+        store.isLoading = true;
+      }
+
       try {
-        let loadedBooks: Book[] = [];
-        if (store.viewType === "all") {
-          loadedBooks = await repository.getBooks();
-        } else if (store.viewType === "private") {
-          loadedBooks = await repository.getPrivateBooks();
+        const loadedBooks = await cache.fetch<Book[]>(
+          key,
+          listFetcher(key),
+          signal
+        );
+        if (isStale()) {
+          return;
         }
+        const books = Array.isArray(loadedBooks) ? loadedBooks : [];
+        offlineStorage.saveList(key, books);
         runInAction(() => {
-          store.books = Array.isArray(loadedBooks) ? loadedBooks : [];
+          store.books = withQueuedBooks(books);
+          store.responseIssues = listIssues.get(key) || [];
+          applyPaging(key);
+          // The list came through, so the connection is back even if the browser has not said so
+          store.isOnline = true;
         });
       } catch (err) {
+        if (isStale() || err instanceof RequestCancelledError) {
+          return;
+        }
         console.error("Failed to load books:", err);
         runInAction(() => {
-          store.error = err instanceof Error ? err.message : "Failed to load books";
-          store.books = [];
+          if (err instanceof NetworkError) {
+            store.isOnline = false;
+          }
+          // While offline, the persisted list is shown without an error; the header reports the status
+          if (cached && err instanceof NetworkError) {
+            return;
+          }
+          store.error = toBooksError(err, "Failed to load books");
+          if (!cached) {
+            store.books = [];
+            store.hasMore = false;
+          }
+        });
+      } finally {
+        if (!isStale()) {
+          loadController = null;
+          runInAction(() => {
+            store.isLoading = false;
+            store.isRefreshing = false;
+          });
+        }
+      }
+    },
+
+    /**
+     * Appends the next page of the "all" list, e.g. when the user scrolls to the end of it; the reading
+     * status views page through it too. Does nothing in the private view, while another load is running, or once the last page is in.
+     * Books the list already contains are not added twice, since pages can shift when books are added
+     * or deleted. The result is dropped if `loadBooks` or `switchUser` starts over in the meantime.
+     */
+    async loadMoreBooks() {
+      if (!showsAllList() || !store.hasMore || store.isLoadingMore || store.isLoading) {
+        return;
+      }
+      const generation = loadGeneration;
+      const isStale = () => generation !== loadGeneration;
+      const nextPage = store.page + 1;
+      let pageIssues: SchemaIssue[] = [];
+
+      store.isLoadingMore = true;
+      try {
+        const loadedBooks = await repository.getBooks(
+          undefined,
+          (issues: SchemaIssue[]) => {
+            pageIssues = issues;
+          },
+          { page: nextPage, limit: pageSize }
+        );
+        if (isStale()) {
+          return;
+        }
+        const pageBooks = Array.isArray(loadedBooks) ? loadedBooks : [];
+        const isQueued = (book: Book) => store.queuedBooks.some((queued: QueuedBook) => queued.tempId === book.id);
+        const listedBooks = store.books.filter((book: Book) => !isQueued(book));
+        const ids = listedBooks.map((book: Book) => book.id);
+        const newBooks = pageBooks.filter((book: Book) => ids.indexOf(book.id) === -1);
+        const books = listedBooks.concat(newBooks);
+        const issues = (listIssues.get(ALL_BOOKS_KEY) || []).concat(pageIssues);
+
+        listPaging.set(ALL_BOOKS_KEY, { page: nextPage, hasMore: pageBooks.length >= pageSize && newBooks.length > 0 });
+        listIssues.set(ALL_BOOKS_KEY, issues);
+        const wasFresh = cache.isFresh(ALL_BOOKS_KEY);
+        cache.set<Book[]>(ALL_BOOKS_KEY, books);
+        if (!wasFresh) {
+          cache.invalidate(ALL_BOOKS_KEY);
+        }
+        offlineStorage.saveList(ALL_BOOKS_KEY, books);
+        runInAction(() => {
+          store.books = withQueuedBooks(books);
+          store.responseIssues = issues;
+          applyPaging(ALL_BOOKS_KEY);
+        });
+      } catch (err) {
+        if (isStale()) {
+          return;
+        }
+        console.error("Failed to load more books:", err);
+        runInAction(() => {
+          if (err instanceof NetworkError) {
+            store.isOnline = false;
+          }
+          store.error = toBooksError(err, "Failed to load more books");
         });
       } finally {
         runInAction(() => {
-          store.isLoading = false;
+          store.isLoadingMore = false;
         });
       }
     },
 
     /**
      * Specifically loads the count of private books for the header display.
-     * Updates `privateBooksCount` and handles potential errors separately.
+     * Updates `privateBooksCount` and `privateBookIds`, and handles potential errors separately.
+     * Shares the cached `/private` list (and any in-flight request for it) with `loadBooks`.
      */
     async loadPrivateBooksCount() {
+        const cached = cache.peek<Book[]>(PRIVATE_BOOKS_KEY);
+        if (cached) {
+            setPrivateBooks(Array.isArray(cached.data) ? cached.data : []);
+            if (cache.isFresh(PRIVATE_BOOKS_KEY)) {
+                return;
+            }
+        }
+
+        const userId = session.userId;
         try {
-            const privateBooksFromApi = await repository.getPrivateBooks();
+            const privateBooksFromApi = await cache.fetch<Book[]>(PRIVATE_BOOKS_KEY, listFetcher(PRIVATE_BOOKS_KEY));
+            if (session.userId !== userId) {
+                return;
+            }
             
             const booksArray = Array.isArray(privateBooksFromApi) ? privateBooksFromApi : [];
+            offlineStorage.saveList(PRIVATE_BOOKS_KEY, booksArray);
             
             runInAction(() => {
-                store.privateBooksCount = booksArray.length;
+                setPrivateBooks(booksArray);
             });
         } catch (err) {
+            if (session.userId !== userId) {
+                return;
+            }
             console.error("Failed to load private books count:", err);
             runInAction(() => {
-                store.privateBooksCount = 0;
+                setPrivateBooks([]);
             });
         }
     },
 
     /**
-     * Adds a new book using the repository.
-     * Performs basic validation, updates loading/error state, and reloads data on success.
-     * @param {string} name - The name of the book.
-     * @param {string} author - The author of the book.
+     * Marks the cached lists stale and loads them again along with the private count, e.g. after an
+     * import, once the offline queue was sent, or when live updates may have been missed.
+     */
+    async reload() {
+      cache.invalidate();
+      await store.init();
+    },
+
+    /**
+     * Every book loaded for the current user: the current list plus the cached lists, each book once.
+     * @returns {Book[]} The books, e.g. to check an import for duplicates.
+     */
+    loadedBooks(): Book[] {
+      const books = store.books.slice();
+      [ALL_BOOKS_KEY, PRIVATE_BOOKS_KEY].forEach((key: string) => {
+        const cached = cache.peek<Book[]>(key);
+        if (cached && Array.isArray(cached.data)) {
+          cached.data.forEach((book: Book) => {
+            if (!books.some((existing: Book) => existing.id === book.id)) {
+              books.push(book);
+            }
+          });
+        }
+      });
+      return books;
+    },
+
+    /**
+     * Adds a new book, unless it looks like a book already loaded or queued: then it is held in
+     * `duplicateWarning` until the user confirms it with `confirmDuplicate` or drops it with `dismissDuplicate`.
+     * When viewing all books, or the private shelf the book is added to, a pending copy is shown right away
+     * and swapped for the server-assigned id once the POST succeeds; on failure it is removed again and `error` is set.
+     * While offline, or if the POST fails because the network is down, the book is queued
+     * and sent by `syncPendingBooks` once the connection is back. An added or queued book is recorded for `undo`.
+     * @param {string} name - The name of the book; surrounding whitespace is trimmed.
+     * @param {string} author - The author of the book; surrounding whitespace is trimmed.
+     * @param {BookDetails} details - Optional details (ISBN, year, genres, cover, rating, notes); blank ones are left out.
+     * @param {boolean} isPrivate - Whether to add the book straight onto the private shelf.
+     * @returns {Promise<boolean>} True if the book was added or queued; false if it was invalid, held back or failed.
      */
-    async addBook(name: string, author: string) {
-      if (!name || !author) {
+    async addBook(rawName: string, rawAuthor: string, details: BookDetails = {}, isPrivate = false): Promise<boolean> {
+      const name = rawName.trim();
+      const author = rawAuthor.trim();
+      const bookDetails = normalizeBookDetails(details);
+      const invalidFields = bookFieldsError({ name, author, ...bookDetails });
+      if (invalidFields) {
           runInAction(() => {
-              store.error = "Book name and author cannot be empty.";
+              store.error = invalidFields;
           });
-          return;
+          return false;
       }
 
-      store.isLoading = true;
-      store.error = null;
-      try {
-        const success = await repository.addBook({ name, author });
-        if (success) {
-          await store.loadBooks(); 
-          await store.loadPrivateBooksCount();
-        } else {
-            throw new Error("Repository returned false, book might not have been added.");
-        }
-      } catch (err) {
-        console.error("Failed to add book:", err);
+      const match = findLikelyDuplicate(
+        { name, author, isbn: bookDetails.isbn },
+        store.loadedBooks().concat(store.queuedBooks.map(queuedToBook))
+      );
+      if (match) {
         runInAction(() => {
-          store.error = err instanceof Error ? err.message : "Failed to add book";
-        });
-      } finally {
-        runInAction(() => {
-          store.isLoading = false;
+          store.duplicateWarning = { name, author, details: bookDetails, isPrivate, match };
         });
+        return false;
+      }
+
+      store.duplicateWarning = null;
+      const book = await store.addValidBook(name, author, bookDetails, isPrivate);
+      if (book) {
+        events.emit("onCommand", { kind: "add", book, isPrivate });
+      }
+      return book !== null;
+    },
+
+    /**
+     * Updates an existing book optimistically.
+     * The change is shown right away and reverted to the previous values if the repository call fails.
+     * Once confirmed, it is recorded for `undo` along with the values it replaced.
+     * Changed reading dates and pages are checked together with the book's other ones, so e.g.
+     * the current page cannot be moved past the book's last page.
+     * @param {number} id - The id of the book to update.
+     * @param {UpdateBookData} rawChanges - The fields to change; name and author are trimmed.
+     */
+    async updateBook(id: number, rawChanges: UpdateBookData) {
+      const changes: UpdateBookData = { ...rawChanges };
+      if (changes.name !== undefined) {
+        changes.name = changes.name.trim();
+      }
+      if (changes.author !== undefined) {
+        changes.author = changes.author.trim();
+      }
+      const previous = store.books.find((book: Book) => book.id === id);
+      const invalidFields = bookFieldsError(applyBookChanges<Partial<AddBookData>>(readingFieldsOf(previous, changes), changes));
+      if (invalidFields) {
+          runInAction(() => {
+              store.error = invalidFields;
+          });
+          return;
+      }
+
+      const updated = await store.changeBook(id, changes);
+      if (updated && previous) {
+        events.emit("onCommand", { kind: "update", id, before: previousValues(previous, changes), after: changes });
+      }
+    },
+
+    /**
+     * Deletes a book optimistically.
+     * The book disappears right away and is put back in its original position if the repository call fails.
+     * On success the private count is refreshed, since the deleted book may have been on the private list,
+     * and the deletion is recorded for `undo`, which adds the book again.
+     * @param {number} id - The id of the book to delete.
+     */
+    async deleteBook(id: number) {
+      const book = store.books.find((existing: Book) => existing.id === id);
+      const wasPrivate = store.privateBookIds.indexOf(id) !== -1;
+      const deleted = await store.removeBook(id);
+      if (deleted && book) {
+        events.emit("onCommand", { kind: "delete", book: { ...book }, isPrivate: wasPrivate });
+      }
+    },
+
+    /**
+     * Moves a book onto or off the private shelf optimistically.
+     * The badge and the private count change right away; in the private view a book made public
+     * disappears from the list. Everything is reverted if the repository call fails; a confirmed move
+     * is recorded for `undo`.
+     * @param {number} id - The id of the book.
+     * @param {boolean} isPrivate - Whether the book should be private.
+     */
+    async setBookPrivate(id: number, isPrivate: boolean) {
+      if ((store.privateBookIds.indexOf(id) !== -1) === isPrivate) {
+        return;
+      }
+      const changed = await store.changeBookPrivacy(id, isPrivate);
+      if (changed) {
+        events.emit("onCommand", { kind: "setPrivate", id, isPrivate });
       }
     },
 
     /**
-     * Sets the view type ('all' or 'private') and triggers reloading of books.
-     * @param {'all'|'private'} type - The desired view type.
+     * Moves a book to another reading status through `updateBook`, so the change is optimistic and can be
+     * undone. Starting a book sets its start date, finishing or abandoning it sets the finish date to today,
+     * and finishing also sets the current page to the last one.
+     * @param {number} id - The id of the book.
+     * @param {ReadingStatus} status - The new status.
      */
-    setViewType(type: 'all' | 'private') {
-      if (type === "all" || type === "private") {
+    async setReadingStatus(id: number, status: ReadingStatus) {
+      const book = store.books.find((existing: Book) => existing.id === id);
+      if (!book) {
+        return;
+      }
+      const changes = readingStatusChanges(book, status);
+      if (Object.keys(changes).length) {
+        await store.updateBook(id, changes);
+      }
+    },
+
+    /**
+     * Adds a book that has already been checked, without the duplicate check or recording it for undo;
+     * see `addBook`, which goes through here, as does the history store when it adds a book again.
+     * A pending copy is shown right away; while offline, or if the POST fails for lack of network, the book is queued.
+     * @param {string} name - The trimmed name.
+     * @param {string} author - The trimmed author.
+     * @param {BookDetails} bookDetails - The normalized details.
+     * @param {boolean} isPrivate - Whether to add the book straight onto the private shelf.
+     * @returns {Promise<Book | null>} The added book, the queued book (with its temporary id), or null if adding failed.
+     */
+    async addValidBook(name: string, author: string, bookDetails: BookDetails, isPrivate: boolean): Promise<Book | null> {
+      const tempId = nextTempId();
+      const showPending = showsAllList() || isPrivate;
+      let queued = false;
+      const queueBook = () => {
+        queued = true;
+        enqueueBook({ tempId, name, author, details: bookDetails, isPrivate, queuedAt: Date.now() });
+      };
+
+      if (!store.isOnline) {
+        queueBook();
+        return { ...bookDetails, id: tempId, name, author };
+      }
+
+      const createdBook = await runOptimistic<Book | null>({
+        apply: () => {
+          if (showPending) {
+            store.books.push({ ...bookDetails, id: tempId, name, author });
+            store.pendingBookIds.push(tempId);
+          }
+        },
+        commit: () => repository.addBook({ ...bookDetails, name, author }, isPrivate),
+        reconcile: (book: Book | null) => {
+          store.books = store.books.map((existing: Book) => (existing.id === tempId && book ? book : existing));
+          if (isPrivate && book && book.id !== undefined) {
+            store.privateBookIds.push(book.id);
+            store.privateBooksCount += 1;
+          }
+        },
+        rollback: () => {
+          store.books = store.books.filter((book: Book) => book.id !== tempId);
+        },
+        recover: (err: unknown) => {
+          if (!(err instanceof NetworkError)) {
+            return false;
+          }
+          store.isOnline = false;
+          queueBook();
+          return true;
+        },
+        settle: () => {
+          store.pendingBookIds = store.pendingBookIds.filter((id: number) => id !== tempId);
+        },
+        rejectedMessage: "Repository returned no book, book might not have been added.",
+        failureLabel: "add book",
+      });
+
+      if (createdBook) {
+        events.emit("onConfirmed", { type: "created", book: createdBook, isPrivate });
+        await store.loadPrivateBooksCount();
+        return createdBook;
+      }
+      return queued ? { ...bookDetails, id: tempId, name, author } : null;
+    },
+
+    /**
+     * Changes a book optimistically without checking the changes or recording them for undo; see `updateBook`.
+     * @param {number} id - The id of the book.
+     * @param {UpdateBookData} changes - The fields to change.
+     * @returns {Promise<boolean>} True if the server confirmed the change.
+     */
+    async changeBook(id: number, changes: UpdateBookData): Promise<boolean> {
+      const previous = store.books.find((book: Book) => book.id === id);
+
+      const updated = await runOptimistic<boolean>({
+        apply: () => {
+          store.books = store.books.map((book: Book) => (book.id === id ? applyBookChanges(book, changes) : book));
+          store.pendingBookIds.push(id);
+        },
+        commit: () => repository.updateBook(id, changes),
+        rollback: () => {
+          if (previous) {
+            store.books = store.books.map((book: Book) => (book.id === id ? previous : book));
+          }
+        },
+        settle: () => {
+          store.pendingBookIds = store.pendingBookIds.filter((pendingId: number) => pendingId !== id);
+        },
+        rejectedMessage: "Repository returned false, book might not have been updated.",
+        failureLabel: "update book",
+      });
+      if (updated && previous) {
+        events.emit("onConfirmed", { type: "updated", book: applyBookChanges(previous, changes), isPrivate: store.isBookPrivate(previous) });
+      }
+      return updated === true;
+    },
+
+    /**
+     * Deletes a book optimistically without recording it for undo; see `deleteBook`.
+     * @param {number} id - The id of the book.
+     * @returns {Promise<boolean>} True if the server confirmed the deletion.
+     */
+    async removeBook(id: number): Promise<boolean> {
+      const index = store.books.findIndex((book: Book) => book.id === id);
+      const previous = index === -1 ? undefined : store.books[index];
+
+      const deleted = await runOptimistic<boolean>({
+        apply: () => {
+          store.books = store.books.filter((book: Book) => book.id !== id);
+        },
+        commit: () => repository.deleteBook(id),
+        rollback: () => {
+          if (previous) {
+            const books = store.books.slice();
+            books.splice(Math.min(index, books.length), 0, previous);
+            store.books = books;
+          }
+        },
+        rejectedMessage: "Repository returned false, book might not have been deleted.",
+        failureLabel: "delete book",
+      });
+
+      if (deleted) {
+        events.emit("onConfirmed", { type: "deleted", id });
+        await store.loadPrivateBooksCount();
+      }
+      return deleted === true;
+    },
+
+    /**
+     * Moves a book onto or off the private shelf optimistically without recording it for undo; see `setBookPrivate`.
+     * @param {number} id - The id of the book.
+     * @param {boolean} isPrivate - Whether the book should be private.
+     * @returns {Promise<boolean>} True if the server confirmed the move, or the book already was where it should be.
+     */
+    async changeBookPrivacy(id: number, isPrivate: boolean): Promise<boolean> {
+      const wasPrivate = store.privateBookIds.indexOf(id) !== -1;
+      if (wasPrivate === isPrivate) {
+        return true;
+      }
+      const previousBooks = store.books;
+      const previousIds = store.privateBookIds;
+      const previousCount = store.privateBooksCount;
+      const book = store.books.find((existing: Book) => existing.id === id);
+
+      const changed = await runOptimistic<boolean>({
+        apply: () => {
+          store.privateBookIds = isPrivate
+            ? previousIds.concat(id)
+            : previousIds.filter((privateId: number) => privateId !== id);
+          store.privateBooksCount = Math.max(0, previousCount + (isPrivate ? 1 : -1));
+          if (!isPrivate && store.viewType === "private") {
+            store.books = store.books.filter((existing: Book) => existing.id !== id);
+          }
+          store.pendingBookIds.push(id);
+        },
+        commit: () => repository.setBookPrivate(id, isPrivate),
+        reconcile: () => {
+          if (showsAllList()) {
+            updateCachedPrivateList(id, isPrivate && book ? book : null);
+          }
+        },
+        rollback: () => {
+          store.books = previousBooks;
+          store.privateBookIds = previousIds;
+          store.privateBooksCount = previousCount;
+        },
+        settle: () => {
+          store.pendingBookIds = store.pendingBookIds.filter((pendingId: number) => pendingId !== id);
+        },
+        rejectedMessage: "Repository returned false, book privacy might not have changed.",
+        failureLabel: isPrivate ? "make book private" : "make book public",
+      });
+
+      if (changed && book) {
+        events.emit("onConfirmed", { type: "updated", book, isPrivate });
+      }
+      if (changed) {
+        await store.loadPrivateBooksCount();
+      }
+      return changed === true;
+    },
+
+    /**
+     * Swaps a queued book for the book the server created from it and takes it off the queue,
+     * once the offline store has sent it.
+     * @param {QueuedBook} queued - The queued book.
+     * @param {Book} book - The book the server returned.
+     */
+    replaceQueuedBook(queued: QueuedBook, book: Book) {
+      store.books = store.books.map((existing: Book) => (existing.id === queued.tempId ? book : existing));
+      dequeueBook(queued);
+    },
+
+    /**
+     * Takes a book still waiting in the offline queue off the list and the queue, e.g. when the server
+     * rejected it or its add was undone.
+     * @param {number} tempId - The temporary id the book is shown with.
+     * @returns {boolean} True if the book was queued.
+     */
+    removeQueuedBook(tempId: number): boolean {
+      const queued = store.queuedBooks.find((existing: QueuedBook) => existing.tempId === tempId);
+      if (!queued) {
+        return false;
+      }
+      store.books = store.books.filter((book: Book) => book.id !== tempId);
+      dequeueBook(queued);
+      return true;
+    },
+
+    /**
+     * Whether the given book is on the private shelf, or queued to be added to it.
+     * @param {Book} book - The book to check.
+     * @returns {boolean} True for private books.
+     */
+    isBookPrivate(book: Book): boolean {
+      const id = book.id;
+      return (
+        id !== undefined &&
+        (store.privateBookIds.indexOf(id) !== -1 ||
+          store.queuedBooks.some((queued: QueuedBook) => queued.tempId === id && queued.isPrivate === true))
+      );
+    },
+
+    /**
+     * Whether the given book is an optimistic change still waiting for the server.
+     * @param {Book} book - The book to check.
+     * @returns {boolean} True while the book's add or update request is in flight.
+     */
+    isBookPending(book: Book): boolean {
+      const id = book.id;
+      return (
+        id !== undefined &&
+        (store.pendingBookIds.indexOf(id) !== -1 || store.queuedBooks.some((queued: QueuedBook) => queued.tempId === id))
+      );
+    },
+
+    /**
+     * Sets the view type ('all', 'private' or a reading status) and triggers reloading of books.
+     * @param {BooksViewType} type - The desired view type.
+     */
+    setViewType(type: BooksViewType) {
+      if (type === "all" || type === "private" || isReadingStatus(type)) {
         if (store.viewType !== type) {
              store.viewType = type;
              store.loadBooks();
@@ -145,6 +1055,162 @@ export function createBooksStore(repository: BooksRepository): BooksStore {
       }
     },
 
+    /**
+     * Sets the text the books are searched for by name and author.
+     * @param {string} search - The search query; blank shows every book.
+     */
+    setSearch(search: string) {
+      store.query.search = search;
+    },
+
+    /**
+     * Shows only the books by the given author.
+     * @param {string | null} author - The author, or null to show every author.
+     */
+    setAuthorFilter(author: string | null) {
+      store.query.author = author;
+    },
+
+    /**
+     * Sets the field and direction the books are sorted by.
+     * @param {BookSortKey | null} sortKey - The field, or null to keep the server order.
+     * @param {SortDirection} sortDirection - Ascending unless given.
+     */
+    setSort(sortKey: BookSortKey | null, sortDirection: SortDirection = "asc") {
+      store.query.sortKey = sortKey;
+      store.query.sortDirection = sortDirection;
+    },
+
+    /**
+     * Clears the current error and reloads the current view and the private count,
+     * e.g. from the retry banner after an outage.
+     */
+    async retry() {
+      store.error = null;
+      await store.init();
+    },
+
+    /**
+     * Updates the connectivity status. Coming back online reloads; the offline store sends the queue.
+     * @param {boolean} online - Whether the network is reachable.
+     */
+    async setOnline(online: boolean) {
+      const cameBack = online && !store.isOnline;
+      store.isOnline = online;
+      if (cameBack) {
+        await store.init();
+      }
+    },
+
+    /**
+     * Adds the book held back as a likely duplicate anyway.
+     * @returns {Promise<boolean>} True if the book was added or queued.
+     */
+    async confirmDuplicate(): Promise<boolean> {
+      const warning = store.duplicateWarning;
+      if (!warning) {
+        return false;
+      }
+      store.duplicateWarning = null;
+      const book = await store.addValidBook(warning.name, warning.author, warning.details, warning.isPrivate);
+      if (book) {
+        events.emit("onCommand", { kind: "add", book, isPrivate: warning.isPrivate });
+      }
+      return book !== null;
+    },
+
+    /**
+     * Drops the book held back as a likely duplicate.
+     */
+    dismissDuplicate() {
+      store.duplicateWarning = null;
+    },
+
+    /**
+     * Switches to another user's books: cancels pending loads, clears everything loaded for the
+     * previous user (lists, loaded pages, cache, private count, offline queue, author filter, held-back book) and reloads.
+     * The stores built on this one forget the user's undo history, import and sync conflicts through `onReset`.
+     * An invalid user id is reported as a `validation` error and leaves the current user in place.
+     * @param {string} userId - The user to switch to.
+     */
+    async switchUser(userId: string) {
+      const nextUserId = userId.trim();
+      const problem = validateUserId(nextUserId);
+      if (problem) {
+        store.error = { kind: "validation", message: problem, fieldErrors: { userId: problem }, status: null };
+        return;
+      }
+      if (nextUserId === session.userId) {
+        return;
+      }
+
+      forgetUserData();
+      session.setUserId(nextUserId);
+      offlineStorage = createOfflineBooksStorage(storage, nextUserId);
+      store.queuedBooks = restoreOfflineData();
+
+      await store.init();
+    },
+
+    /**
+     * Forgets everything loaded for the user after their session ended, without loading anything:
+     * cancels pending loads and clears the lists, cache, private count, author filter and held-back book
+     * (and, through `onReset`, the undo history), and removes the persisted lists from storage. Books queued while offline stay
+     * queued, so they are sent once the user logs in again.
+     */
+    signOut() {
+      forgetUserData();
+      offlineStorage.clearLists();
+    },
+
+    /**
+     * Applies a change pushed by the live updates channel or shared by another tab to the loaded list and
+     * the private shelf, without sending a request. A book with a mutation of this tab in flight is left to that mutation,
+     * and a created book matching one this tab is still adding is skipped, since the add puts it in place.
+     * New books are appended only once the "all" list is fully loaded; otherwise a later page brings them.
+     * @param {BookEvent} event - The change.
+     */
+    applyBookEvent(event: BookEvent) {
+      const id = event.type === "deleted" ? event.id : (event.book.id as number);
+      const isPending = (book: Book) => book.id !== undefined && store.pendingBookIds.indexOf(book.id) !== -1;
+      if (store.pendingBookIds.indexOf(id) !== -1) {
+        return;
+      }
+      if (
+        event.type === "created" &&
+        store.books.some((book: Book) => isPending(book) && book.name === event.book.name && book.author === event.book.author)
+      ) {
+        return;
+      }
+
+      const book = event.type === "deleted" ? null : event.book;
+      const isPrivate = event.type !== "deleted" && event.isPrivate;
+      const isListed = store.books.some((existing: Book) => existing.id === id);
+      if (!book || (store.viewType === "private" && !isPrivate)) {
+        store.books = store.books.filter((existing: Book) => existing.id !== id);
+      } else if (isListed) {
+        store.books = store.books.map((existing: Book) => (existing.id === id ? book : existing));
+      } else if (store.viewType === "private" || !store.hasMore) {
+        store.books = store.books.concat(book);
+      }
+
+      const wasPrivate = store.privateBookIds.indexOf(id) !== -1;
+      if (isPrivate && !wasPrivate) {
+        store.privateBookIds = store.privateBookIds.concat(id);
+        store.privateBooksCount += 1;
+      } else if (!isPrivate && wasPrivate) {
+        store.privateBookIds = store.privateBookIds.filter((privateId: number) => privateId !== id);
+        store.privateBooksCount = Math.max(0, store.privateBooksCount - 1);
+      }
+      if (showsAllList()) {
+        updateCachedPrivateList(id, isPrivate ? book : null);
+      }
+      if (!book) {
+        events.emit("onRemoved", id);
+      }
+      invalidateCachedLists();
+    },
+
     /**
      * Initializes the store by loading initial data.
      */
@@ -152,15 +1218,179 @@ export function createBooksStore(repository: BooksRepository): BooksStore {
         await store.loadBooks();
         await store.loadPrivateBooksCount();
      }
+  }, { events: false });
+
+  /**
+   * Cancels pending loads and clears the state loaded for the current user, except the offline queue,
+   * and tells the stores built on this one to forget theirs; see `switchUser` and `signOut`.
+   */
+  const forgetUserData = () => {
+    if (loadController) {
+      loadController.abort();
+      loadController = null;
+    }
+    loadGeneration += 1;
+    cache.clear();
+    listIssues.clear();
+    listPaging.clear();
+    store.books = [];
+    store.privateBooksCount = 0;
+    store.privateBookIds = [];
+    store.pendingBookIds = [];
+    store.error = null;
+    store.isLoading = false;
+    store.isRefreshing = false;
+    store.isLoadingMore = false;
+    store.page = 1;
+    store.hasMore = false;
+    store.responseIssues = [];
+    store.query.author = null;
+    store.duplicateWarning = null;
+    events.emit("onReset");
+  };
+
+  /**
+   * Records the private shelf: its size for the header and its ids for the badges.
+   */
+  const setPrivateBooks = (books: Book[]) => {
+    store.privateBooksCount = books.length;
+    store.privateBookIds = books
+      .map((book: Book) => book.id)
+      .filter((id: number | undefined): id is number => id !== undefined);
+  };
+
+  /**
+   * Shows how far a list has been loaded. Lists without paging (the private list, or one restored
+   * from storage before any page was fetched) count as a single, complete page.
+   */
+  const applyPaging = (key: string) => {
+    const paging = listPaging.get(key);
+    store.page = paging ? paging.page : 1;
+    store.hasMore = paging ? paging.hasMore : false;
+  };
+
+  /**
+   * Whether `books` holds the "all" list: in the "all" view and in the reading status views, which filter it.
+   */
+  const showsAllList = (): boolean => store.viewType !== "private";
+
+  /**
+   * Builds the book shown for a queued book until the server assigns it an id.
+   */
+  const queuedToBook = (queued: QueuedBook): Book => ({
+    ...queued.details,
+    id: queued.tempId,
+    name: queued.name,
+    author: queued.author
   });
 
-  return store;
-}
+  /**
+   * Appends the queued offline books to a list loaded from the server, for the "all" list.
+   */
+  const withQueuedBooks = (books: Book[]): Book[] => {
+    if (!showsAllList()) {
+      return books;
+    }
+    const ids = books.map((book: Book) => book.id);
+    const queuedBooks = store.queuedBooks
+      .filter((queued: QueuedBook) => ids.indexOf(queued.tempId) === -1)
+      .map(queuedToBook);
+    return books.concat(queuedBooks);
+  };
 
-/**
- * Singleton instance of the Books store used throughout the application.
- * Initialized with the actual repository functions.
- */
-export const booksStore = createBooksStore(booksRepository);
+  /**
+   * Adds a book to the offline queue, persists the queue and shows the book as pending.
+   */
+  const enqueueBook = (queued: QueuedBook) => {
+    runInAction(() => {
+      store.queuedBooks.push(queued);
+      if (showsAllList() && !store.books.some((book: Book) => book.id === queued.tempId)) {
+        store.books.push(queuedToBook(queued));
+      }
+    });
+    offlineStorage.saveQueue(store.queuedBooks.slice());
+  };
+
+  /**
+   * Removes a book from the offline queue and persists the queue.
+   */
+  const dequeueBook = (queued: QueuedBook) => {
+    store.queuedBooks = store.queuedBooks.filter((existing: QueuedBook) => existing.tempId !== queued.tempId);
+    offlineStorage.saveQueue(store.queuedBooks.slice());
+  };
+
+  /**
+   * Puts a book onto or takes it off the cached private list while the "all" list is shown,
+   * so the private count stays right until the list is revalidated.
+   * @param {number} id - The book's id.
+   * @param {Book | null} book - The book if it is now private, null if it no longer is (or was deleted).
+   */
+  const updateCachedPrivateList = (id: number, book: Book | null) => {
+    const cachedPrivate = cache.peek<Book[]>(PRIVATE_BOOKS_KEY);
+    if (cachedPrivate && Array.isArray(cachedPrivate.data)) {
+      const others = cachedPrivate.data.filter((existing: Book) => existing.id !== id);
+      cache.set<Book[]>(PRIVATE_BOOKS_KEY, book ? others.concat(book) : others);
+    }
+  };
 
-booksStore.init();
\ No newline at end of file
+  /**
+   * Marks every cached list as stale after a successful mutation. The current view's entry keeps
+   * the locally updated list, so switching back to it shows the change while it revalidates.
+   */
+  const invalidateCachedLists = () => {
+    const key = showsAllList() ? ALL_BOOKS_KEY : PRIVATE_BOOKS_KEY;
+    const books = store.books.slice();
+    cache.set<Book[]>(key, books);
+    cache.invalidate();
+    offlineStorage.saveList(key, books);
+  };
+
+  /**
+   * Runs an optimistic mutation against the store: applies it, commits it through the
+   * repository, and either reconciles or rolls back depending on the outcome.
+   * Every mutating store action goes through here so failures are handled the same way.
+   * @param {OptimisticMutation<T>} mutation - The mutation to run.
+   * @returns {Promise<T | null>} The committed result, or null if the mutation was rolled back.
+   */
+  const runOptimistic = async <T>(mutation: OptimisticMutation<T>): Promise<T | null> => {
+    runInAction(() => {
+      store.error = null;
+      mutation.apply();
+    });
+    try {
+      const result = await mutation.commit();
+      if (!result) {
+        throw new Error(mutation.rejectedMessage);
+      }
+      runInAction(() => {
+        if (mutation.reconcile) {
+          mutation.reconcile(result);
+        }
+      });
+      invalidateCachedLists();
+      return result;
+    } catch (err) {
+      let recovered = false;
+      runInAction(() => {
+        recovered = mutation.recover ? mutation.recover(err) : false;
+      });
+      if (recovered) {
+        return null;
+      }
+      console.error(`Failed to ${mutation.failureLabel}:`, err);
+      runInAction(() => {
+        mutation.rollback();
+        store.error = toBooksError(err, `Failed to ${mutation.failureLabel}`);
+      });
+      return null;
+    } finally {
+      runInAction(() => {
+        if (mutation.settle) {
+          mutation.settle();
+        }
+      });
+    }
+  };
+
+  return store;
+}
@@ -0,0 +1,139 @@
+import { normalizeIsbn } from "./Books.validation";
+import { Book } from "./types";
+
+/**
+ * How similar a name and an author have to be, from 0 to 1, for a book to count as a likely duplicate.
+ */
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * The fields a book is compared by.
+ */
+export type DuplicateCandidate = Pick<Book, "name" | "author" | "isbn">;
+
+/**
+ * A listed book that a new book seems to repeat.
+ */
+export interface DuplicateMatch {
+  book: Book;
+  /** `isbn`: same ISBN; `exact`: same name and author once normalized; `similar`: close enough to be a typo. */
+  reason: "isbn" | "exact" | "similar";
+  /** Similarity from 0 to 1; 1 for `isbn` and `exact` matches. */
+  score: number;
+}
+
+/**
+ * Reduces text to its words: accents on Latin letters, case and punctuation are dropped and whitespace is collapsed.
+ * Letters and digits of every script are kept, so non-Latin names do not normalize to nothing. Other scripts
+ * keep their marks, which are composed back onto their letters: the Cyrillic "й" is not an "и" with an accent.
+ * @private - For internal use only, not part of the public API.
+ */
+const words = (text: string): string[] =>
+  text
+    .normalize("NFD")
+    .replace(/(\p{Script=Latin})[\u0300-\u036f]+/gu, "$1")
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, " ")
+    .trim()
+    .split(" ")
+    .filter((word: string) => word);
+
+/**
+ * Normalizes a book name for comparison, also dropping a leading "The", so "The Hobbit" matches "Hobbit".
+ * @param {string} name - The name as entered.
+ * @returns {string} The normalized name.
+ */
+export const normalizeBookName = (name: string): string => {
+  const nameWords = words(name);
+  return (nameWords[0] === "the" && nameWords.length > 1 ? nameWords.slice(1) : nameWords).join(" ");
+};
+
+/**
+ * Normalizes an author for comparison. The words are sorted, so "Herbert, Frank" matches "Frank Herbert".
+ * @param {string} author - The author as entered.
+ * @returns {string} The normalized author.
+ */
+export const normalizeAuthorName = (author: string): string => words(author).sort().join(" ");
+
+/**
+ * The numbers in a normalized name, so that volumes of a series ("Book 1", "Book 2") are told apart.
+ * @private - For internal use only, not part of the public API.
+ */
+const numbersOf = (name: string): string =>
+  name
+    .split(" ")
+    .filter((word: string) => /^[0-9]+$/.test(word))
+    .join(" ");
+
+/**
+ * Levenshtein distance between two strings, using a single row of the distance table.
+ * @private - For internal use only, not part of the public API.
+ */
+const editDistance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, j: number) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+};
+
+/**
+ * How alike two normalized strings are: 1 when equal, 0 when nothing matches.
+ * @param {string} a - The first string.
+ * @param {string} b - The second string.
+ * @returns {number} One minus the edit distance relative to the longer string.
+ */
+export const similarity = (a: string, b: string): number => {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+};
+
+/**
+ * Finds the listed book that a new book most likely repeats. Books with the same ISBN always match and
+ * books with different ISBNs never do; otherwise name and author are compared after normalization,
+ * allowing small differences such as typos but not different numbers in the name. A name or author
+ * with nothing left after normalization (e.g. only punctuation) never matches by name and author.
+ * @param {DuplicateCandidate} book - The new book.
+ * @param {Book[]} books - The listed books.
+ * @returns {DuplicateMatch | null} The closest match, or null if no book is similar enough.
+ */
+export const findLikelyDuplicate = (book: DuplicateCandidate, books: Book[]): DuplicateMatch | null => {
+  const name = normalizeBookName(book.name);
+  const author = normalizeAuthorName(book.author);
+  const comparable = name !== "" && author !== "";
+  let best: DuplicateMatch | null = null;
+
+  for (const candidate of books) {
+    if (book.isbn && candidate.isbn) {
+      if (normalizeIsbn(book.isbn) === normalizeIsbn(candidate.isbn)) {
+        return { book: candidate, reason: "isbn", score: 1 };
+      }
+      continue;
+    }
+    const candidateName = normalizeBookName(candidate.name);
+    const candidateAuthor = normalizeAuthorName(candidate.author);
+    if (!comparable || !candidateName || !candidateAuthor || numbersOf(name) !== numbersOf(candidateName)) {
+      continue;
+    }
+    const nameScore = similarity(name, candidateName);
+    const authorScore = similarity(author, candidateAuthor);
+    if (nameScore < DUPLICATE_SIMILARITY_THRESHOLD || authorScore < DUPLICATE_SIMILARITY_THRESHOLD) {
+      continue;
+    }
+    const score = Math.min(nameScore, authorScore);
+    if (score === 1) {
+      return { book: candidate, reason: "exact", score };
+    }
+    if (!best || score > best.score) {
+      best = { book: candidate, reason: "similar", score };
+    }
+  }
+  return best;
+};
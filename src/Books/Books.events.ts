@@ -0,0 +1,70 @@
+import { BookCommand } from "./Books.history";
+import { BookEvent } from "./types";
+
+/**
+ * Callbacks through which the stores built on the Books store (history, offline sync, import, live and
+ * tab sync) follow what happens to the books; each is optional.
+ */
+export interface BooksListener {
+  /** A mutation made through the Books store was confirmed or queued, so it can be undone. */
+  onCommand?: (command: BookCommand) => void;
+  /** The server confirmed a change, e.g. to share it with the other tabs. */
+  onConfirmed?: (event: BookEvent) => void;
+  /** A book got a new id from the server, e.g. a queued book once synced. */
+  onRenumbered?: (oldId: number, newId: number) => void;
+  /** A book no longer exists, e.g. a queued book the server rejected or one deleted elsewhere. */
+  onRemoved?: (id: number) => void;
+  /** Everything loaded for the user was forgotten, on `switchUser` or `signOut`. */
+  onReset?: () => void;
+}
+
+/**
+ * Interface defining the structure of the books event hub
+ */
+export interface BooksEvents {
+  addListener: (listener: BooksListener) => () => void;
+  emit: <K extends keyof BooksListener>(name: K, ...args: Parameters<NonNullable<BooksListener[K]>>) => void;
+}
+
+/**
+ * Creates the hub the Books store and the stores built on it announce their changes through.
+ * Listeners are called in the order they were added; a listener that throws is logged and the
+ * others still run, so one store cannot break another.
+ * @returns {BooksEvents} The hub.
+ */
+export const createBooksEvents = (): BooksEvents => {
+  let listeners: BooksListener[] = [];
+
+  return {
+    /**
+     * Adds a listener.
+     * @param {BooksListener} listener - The callbacks to call.
+     * @returns {() => void} Removes the listener.
+     */
+    addListener(listener: BooksListener) {
+      listeners = listeners.concat(listener);
+      return () => {
+        listeners = listeners.filter((existing: BooksListener) => existing !== listener);
+      };
+    },
+
+    /**
+     * Calls the given callback of every listener that has one.
+     * @param {keyof BooksListener} name - The callback, e.g. `onCommand`.
+     * @param args - The arguments to call it with.
+     */
+    emit<K extends keyof BooksListener>(name: K, ...args: Parameters<NonNullable<BooksListener[K]>>) {
+      listeners.forEach((listener: BooksListener) => {
+        const callback = listener[name] as ((...callbackArgs: unknown[]) => void) | undefined;
+        if (!callback) {
+          return;
+        }
+        try {
+          callback(...args);
+        } catch (e) {
+          console.error(`A books listener failed on ${name}:`, e);
+        }
+      });
+    }
+  };
+};
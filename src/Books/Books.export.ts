@@ -0,0 +1,68 @@
+import { Book } from "./types";
+
+/**
+ * File formats the current list can be exported to.
+ */
+export type ExportFormat = "csv" | "json";
+
+/**
+ * CSV columns, in order. The names match what the import reads, so an export can be imported again.
+ * @private - For internal use only, not part of the public API.
+ */
+const CSV_COLUMNS: (keyof Book)[] = [
+  "name",
+  "author",
+  "isbn",
+  "year",
+  "genres",
+  "coverUrl",
+  "rating",
+  "notes",
+  "status",
+  "startedAt",
+  "finishedAt",
+  "currentPage",
+  "totalPages"
+];
+
+/**
+ * Quotes a CSV field when it contains a comma, quote or line break, doubling any quotes inside.
+ * @private - For internal use only, not part of the public API.
+ */
+const csvField = (value: string): string => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Turns a book field into CSV text; genres are joined with `;`, missing values are left empty.
+ * @private - For internal use only, not part of the public API.
+ */
+const csvValue = (value: Book[keyof Book]): string => {
+  if (value === undefined) {
+    return "";
+  }
+  return csvField(Array.isArray(value) ? value.join("; ") : String(value));
+};
+
+/**
+ * Serializes books for download.
+ * CSV has a header row and one row per book; JSON is a list of the books with all their fields.
+ * @param {Book[]} books - The books to export.
+ * @param {ExportFormat} format - The file format.
+ * @returns {string} The file content.
+ */
+export const exportBooks = (books: Book[], format: ExportFormat): string => {
+  if (format === "json") {
+    return JSON.stringify(books, null, 2);
+  }
+  const rows = books.map((book: Book) => CSV_COLUMNS.map((column: keyof Book) => csvValue(book[column])).join(","));
+  return [CSV_COLUMNS.join(",")].concat(rows).join("\r\n") + "\r\n";
+};
+
+/**
+ * Builds the download name of an export, e.g. `books-private-2024-05-01.csv`.
+ * @param {string} view - The exported view.
+ * @param {ExportFormat} format - The file format.
+ * @param {Date} date - The export date.
+ * @returns {string} The file name.
+ */
+export const exportFileName = (view: string, format: ExportFormat, date: Date = new Date()): string =>
+  `books-${view}-${date.toISOString().slice(0, 10)}.${format}`;
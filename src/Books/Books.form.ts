@@ -0,0 +1,255 @@
+import { makeAutoObservable, runInAction } from "mobx";
+import { BooksStore } from "./Books.controller";
+import { normalizeBookDetails, validateAuthorName, validateBookDetails, validateBookName } from "./Books.validation";
+import { BookDetails } from "./types";
+
+/**
+ * The text inputs of the add form.
+ */
+export type AddBookField = "name" | "author" | "isbn" | "year" | "genres" | "coverUrl" | "rating" | "notes";
+
+/**
+ * The add form inputs as typed, plus whether the book goes onto the private shelf.
+ */
+export type AddBookFormValues = Record<AddBookField, string> & { isPrivate: boolean };
+
+/**
+ * The text inputs of the add form, in display order.
+ */
+export const ADD_BOOK_FIELDS: AddBookField[] = ["name", "author", "isbn", "year", "genres", "coverUrl", "rating", "notes"];
+
+/**
+ * Interface defining the structure of the add-book form model
+ */
+export interface AddBookForm {
+  values: AddBookFormValues;
+  /** Fields the user has left at least once; their errors are shown before the first submit */
+  touched: AddBookField[];
+  /** Whether submitting was tried, so every field error is shown */
+  submitAttempted: boolean;
+  isSubmitting: boolean;
+  /** Messages the server sent for fields of the last submitted book */
+  serverErrors: Record<string, string>;
+  readonly fieldErrors: Record<string, string>;
+  readonly isValid: boolean;
+  setField: (field: AddBookField, value: string) => void;
+  setPrivate: (isPrivate: boolean) => void;
+  touch: (field: AddBookField) => void;
+  submit: () => Promise<boolean>;
+  confirmDuplicate: () => Promise<boolean>;
+  reset: () => void;
+  inputId: (field: AddBookField) => string;
+  errorId: (field: AddBookField) => string;
+}
+
+/**
+ * @private - For internal use only, not part of the public API.
+ */
+const emptyValues = (): AddBookFormValues => ({
+  name: "",
+  author: "",
+  isbn: "",
+  year: "",
+  genres: "",
+  coverUrl: "",
+  rating: "",
+  notes: "",
+  isPrivate: false
+});
+
+/**
+ * Converts the typed details to book details; the store drops the blank ones.
+ * @private - For internal use only, not part of the public API.
+ */
+const toBookDetails = (values: AddBookFormValues): BookDetails => ({
+  isbn: values.isbn,
+  year: values.year.trim() ? Number(values.year) : undefined,
+  genres: values.genres.split(","),
+  coverUrl: values.coverUrl,
+  rating: values.rating ? Number(values.rating) : undefined,
+  notes: values.notes
+});
+
+/**
+ * Checks every field with the same rules the store applies.
+ * @private - For internal use only, not part of the public API.
+ */
+const validateValues = (values: AddBookFormValues): Record<string, string> => {
+  const fieldErrors = validateBookDetails(normalizeBookDetails(toBookDetails(values)));
+  const nameProblem = validateBookName(values.name);
+  const authorProblem = validateAuthorName(values.author);
+  if (nameProblem) {
+    fieldErrors.name = nameProblem;
+  }
+  if (authorProblem) {
+    fieldErrors.author = authorProblem;
+  }
+  return fieldErrors;
+};
+
+/**
+ * Creates the model behind the add-book form. It keeps what the user typed until the book is
+ * actually added (or queued), so a failed or held-back submit loses nothing, and it checks each field
+ * as the user leaves it: name and author are trimmed, limited in length and in the characters they
+ * may contain, and the details follow the store's rules.
+ * @param {BooksStore} store - The store the books are added through.
+ * @param {string} idPrefix - Prefix of the input and error element ids, unique per form on the page.
+ * @returns {AddBookForm} An observable form model.
+ */
+export const createAddBookForm = (store: BooksStore, idPrefix: string = "add-book"): AddBookForm => {
+  /**
+   * Ends a submit: clears the form once the book is in, otherwise keeps the inputs and
+   * picks up the messages the server sent for the form's fields.
+   */
+  const settle = (added: boolean) => {
+    form.isSubmitting = false;
+    if (added) {
+      form.reset();
+      return;
+    }
+    const error = store.error;
+    if (error && error.kind === "validation") {
+      const serverErrors: Record<string, string> = {};
+      ADD_BOOK_FIELDS.forEach((field: AddBookField) => {
+        if (error.fieldErrors[field]) {
+          serverErrors[field] = error.fieldErrors[field];
+        }
+      });
+      form.serverErrors = serverErrors;
+    }
+  };
+
+  const form = makeAutoObservable({
+    values: emptyValues(),
+    touched: [] as AddBookField[],
+    submitAttempted: false,
+    isSubmitting: false,
+    serverErrors: {} as Record<string, string>,
+
+    /**
+     * Messages to show per field: rule violations of touched fields (of every field once submitting
+     * was tried), otherwise what the server said about the field.
+     */
+    get fieldErrors(): Record<string, string> {
+      const clientErrors = validateValues(form.values);
+      const fieldErrors: Record<string, string> = {};
+      ADD_BOOK_FIELDS.forEach((field: AddBookField) => {
+        const shown = form.submitAttempted || form.touched.indexOf(field) !== -1;
+        if (shown && clientErrors[field]) {
+          fieldErrors[field] = clientErrors[field];
+        } else if (form.serverErrors[field]) {
+          fieldErrors[field] = form.serverErrors[field];
+        }
+      });
+      return fieldErrors;
+    },
+
+    /**
+     * Whether every field passes its rules.
+     */
+    get isValid(): boolean {
+      return Object.keys(validateValues(form.values)).length === 0;
+    },
+
+    /**
+     * Updates an input. A message the server sent for the field no longer applies, and a duplicate
+     * warning about the previous values is dropped.
+     * @param {AddBookField} field - The input that changed.
+     * @param {string} value - Its new value, as typed.
+     */
+    setField(field: AddBookField, value: string) {
+      form.values[field] = value;
+      if (form.serverErrors[field]) {
+        const serverErrors = { ...form.serverErrors };
+        delete serverErrors[field];
+        form.serverErrors = serverErrors;
+      }
+      if (store.duplicateWarning) {
+        store.dismissDuplicate();
+      }
+    },
+
+    /**
+     * Chooses whether the book goes onto the private shelf.
+     * @param {boolean} isPrivate - True for the private shelf.
+     */
+    setPrivate(isPrivate: boolean) {
+      form.values.isPrivate = isPrivate;
+    },
+
+    /**
+     * Marks a field as visited, so its errors are shown.
+     * @param {AddBookField} field - The field the user left.
+     */
+    touch(field: AddBookField) {
+      if (form.touched.indexOf(field) === -1) {
+        form.touched.push(field);
+      }
+    },
+
+    /**
+     * Adds the book through the store if every field is valid. The inputs are cleared only once the
+     * book was added or queued; a likely duplicate waits for `confirmDuplicate`.
+     * @returns {Promise<boolean>} True if the book was added or queued.
+     */
+    async submit(): Promise<boolean> {
+      if (form.isSubmitting) {
+        return false;
+      }
+      form.submitAttempted = true;
+      if (!form.isValid) {
+        return false;
+      }
+      form.isSubmitting = true;
+      form.serverErrors = {};
+      const values = form.values;
+      const added = await store.addBook(values.name, values.author, toBookDetails(values), values.isPrivate);
+      runInAction(() => {
+        settle(added);
+      });
+      return added;
+    },
+
+    /**
+     * Adds the book the store held back as a likely duplicate, clearing the form on success.
+     * @returns {Promise<boolean>} True if the book was added or queued.
+     */
+    async confirmDuplicate(): Promise<boolean> {
+      form.isSubmitting = true;
+      const added = await store.confirmDuplicate();
+      runInAction(() => {
+        settle(added);
+      });
+      return added;
+    },
+
+    /**
+     * Empties the form and forgets which fields were visited.
+     */
+    reset() {
+      form.values = emptyValues();
+      form.touched = [];
+      form.submitAttempted = false;
+      form.serverErrors = {};
+    },
+
+    /**
+     * Id of a field's input, for its label's `htmlFor`.
+     * @param {AddBookField} field - The field.
+     * @returns {string} The element id.
+     */
+    inputId(field: AddBookField): string {
+      return `${idPrefix}-${field}`;
+    },
+
+    /**
+     * Id of a field's error message, for the input's `aria-describedby`.
+     * @param {AddBookField} field - The field.
+     * @returns {string} The element id.
+     */
+    errorId(field: AddBookField): string {
+      return `${idPrefix}-${field}-error`;
+    }
+  });
+  return form;
+};
@@ -0,0 +1,77 @@
+import { CLEARABLE_BOOK_FIELDS, ClearableBookField, UpdateBookData } from "./Books.repository";
+import { Book } from "./types";
+
+/**
+ * Most mutations kept for undo; older ones are forgotten.
+ */
+export const HISTORY_LIMIT = 50;
+
+/**
+ * A mutation the server confirmed, with what is needed to invert and repeat it.
+ * Added and re-added books get new ids from the server, so commands are remapped with `remapCommandId`.
+ */
+export type BookCommand =
+  | { kind: "add"; book: Book; isPrivate: boolean }
+  | { kind: "update"; id: number; before: UpdateBookData; after: UpdateBookData }
+  | { kind: "delete"; book: Book; isPrivate: boolean }
+  | { kind: "setPrivate"; id: number; isPrivate: boolean };
+
+/**
+ * Short description of a command for the toast and error messages, e.g. "Book added".
+ * @param {BookCommand} command - The command.
+ * @returns {string} The description.
+ */
+export const describeCommand = (command: BookCommand): string => {
+  switch (command.kind) {
+    case "add":
+      return "Book added";
+    case "update":
+      return "Book updated";
+    case "delete":
+      return "Book deleted";
+    default:
+      return command.isPrivate ? "Book made private" : "Book made public";
+  }
+};
+
+/**
+ * The id of the book a command is about.
+ * @param {BookCommand} command - The command.
+ * @returns {number | undefined} The book id; undefined only for a book that never had one.
+ */
+export const commandBookId = (command: BookCommand): number | undefined =>
+  command.kind === "add" || command.kind === "delete" ? command.book.id : command.id;
+
+/**
+ * Points a command at the new id of a book that was added again.
+ * @param {BookCommand} command - The command.
+ * @param {number} oldId - The id the book had.
+ * @param {number} newId - The id the server assigned now.
+ * @returns {BookCommand} The command for the new id; the same command if it is about another book.
+ */
+export const remapCommandId = (command: BookCommand, oldId: number, newId: number): BookCommand => {
+  if (commandBookId(command) !== oldId) {
+    return command;
+  }
+  if (command.kind === "add" || command.kind === "delete") {
+    return { ...command, book: { ...command.book, id: newId } };
+  }
+  return { ...command, id: newId };
+};
+
+/**
+ * Snapshot of the fields a change is about to overwrite, so the change can be undone. A clearable
+ * reading detail the book did not have is recorded as `null`, so undoing removes it again.
+ * @param {Book} book - The book before the change.
+ * @param {UpdateBookData} changes - The change.
+ * @returns {UpdateBookData} The previous values of the changed fields.
+ */
+export const previousValues = (book: Book, changes: UpdateBookData): UpdateBookData => {
+  const before: UpdateBookData = {};
+  (Object.keys(changes) as (keyof UpdateBookData)[]).forEach((field: keyof UpdateBookData) => {
+    const value = book[field];
+    const isClearable = CLEARABLE_BOOK_FIELDS.indexOf(field as ClearableBookField) !== -1;
+    (before as Record<string, unknown>)[field] = value === undefined && isClearable ? null : value;
+  });
+  return before;
+};
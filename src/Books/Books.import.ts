@@ -0,0 +1,381 @@
+import { AddBookData } from "./Books.repository";
+import { findLikelyDuplicate } from "./Books.duplicates";
+import { normalizeBookDetails, validateAuthorName, validateBookDetails, validateBookName } from "./Books.validation";
+import { Book, ReadingStatus } from "./types";
+
+/**
+ * File formats books can be imported from.
+ * `goodreads` is the CSV produced by Goodreads' "Export Library".
+ */
+export type ImportFormat = "csv" | "json" | "goodreads";
+
+/**
+ * One book of an import file, checked and ready to be added.
+ */
+export interface ImportRow {
+  /** Where the book is in the file: the line for CSV, the position in the list for JSON. */
+  line: number;
+  book: AddBookData;
+  /** Messages keyed by field; a row with errors is not imported. */
+  fieldErrors: Record<string, string>;
+  /** A loaded book, or an earlier row of the file, that this row seems to repeat. */
+  duplicateOf: Book | null;
+}
+
+/**
+ * The parsed content of an import file.
+ */
+export interface ImportPreview {
+  format: ImportFormat;
+  rows: ImportRow[];
+}
+
+/**
+ * A row the server did not accept during an import.
+ */
+export interface ImportFailure {
+  line: number;
+  message: string;
+}
+
+/**
+ * How far a running (or finished) import has got.
+ */
+export interface ImportProgress {
+  /** Number of rows being imported. */
+  total: number;
+  /** Number of rows the server accepted so far. */
+  imported: number;
+  failures: ImportFailure[];
+}
+
+/**
+ * Thrown when a file cannot be imported at all, e.g. invalid JSON or a CSV without a name column.
+ */
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Book fields an import column can map to.
+ * @private - For internal use only, not part of the public API.
+ */
+type ImportField =
+  | "name"
+  | "author"
+  | "isbn"
+  | "year"
+  | "genres"
+  | "coverUrl"
+  | "rating"
+  | "notes"
+  | "status"
+  | "startedAt"
+  | "finishedAt"
+  | "currentPage"
+  | "totalPages";
+
+/**
+ * A record read from the file, with its values keyed by book field.
+ * @private - For internal use only, not part of the public API.
+ */
+interface ImportRecord {
+  line: number;
+  fields: Partial<Record<ImportField, unknown>>;
+}
+
+/**
+ * Column names accepted for each field in CSV and JSON files, compared lower-cased and without
+ * spaces or punctuation. The export writes the first name of each.
+ * @private - For internal use only, not part of the public API.
+ */
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  name: ["name", "title"],
+  author: ["author", "authors"],
+  isbn: ["isbn", "isbn13", "isbn10"],
+  year: ["year", "publicationyear", "yearpublished"],
+  genres: ["genres", "genre", "tags"],
+  coverUrl: ["coverurl", "cover", "image"],
+  rating: ["rating"],
+  notes: ["notes", "note", "comment"],
+  status: ["status", "readingstatus"],
+  startedAt: ["startedat", "started", "datestarted", "startdate"],
+  finishedAt: ["finishedat", "finished", "datefinished", "finishdate", "dateread"],
+  currentPage: ["currentpage", "page"],
+  totalPages: ["totalpages", "pages", "numberofpages"]
+};
+
+/**
+ * Goodreads export columns for each field, in order of preference.
+ * @private - For internal use only, not part of the public API.
+ */
+const GOODREADS_COLUMNS: Partial<Record<ImportField, string[]>> = {
+  name: ["Title"],
+  author: ["Author"],
+  isbn: ["ISBN13", "ISBN"],
+  year: ["Original Publication Year", "Year Published"],
+  genres: ["Bookshelves"],
+  rating: ["My Rating"],
+  notes: ["Private Notes"],
+  status: ["Exclusive Shelf"],
+  finishedAt: ["Date Read"],
+  totalPages: ["Number of Pages"]
+};
+
+/**
+ * Goodreads' reading-status shelves and the status each stands for; they are left out of the genres.
+ * @private - For internal use only, not part of the public API.
+ */
+const GOODREADS_STATUS_SHELVES: Record<string, ReadingStatus> = {
+  read: "finished",
+  "currently-reading": "reading",
+  "to-read": "wantToRead"
+};
+
+/**
+ * Tells whether a Goodreads shelf is one of its reading-status shelves.
+ * @private - For internal use only, not part of the public API.
+ */
+const isGoodreadsStatusShelf = (shelf: string): boolean => Object.keys(GOODREADS_STATUS_SHELVES).indexOf(shelf) !== -1;
+
+/**
+ * Lower-cases a column name and strips everything but letters and digits, so "Cover URL" matches `coverurl`.
+ * @private - For internal use only, not part of the public API.
+ */
+const columnKey = (column: string): string => column.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Splits CSV text into rows of fields, following RFC 4180: quoted fields may contain commas,
+ * line breaks and doubled quotes. Blank lines are skipped; each row keeps the line it started on.
+ * @private - For internal use only, not part of the public API.
+ */
+const parseCsv = (text: string): { line: number; cells: string[] }[] => {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((value: string) => value.trim())) {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") {
+          line += 1;
+        }
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i += 1;
+      }
+      endRow();
+      line += 1;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (inQuotes) {
+    throw new ImportFileError(`Unterminated quoted field starting on line ${rowLine}.`);
+  }
+  endRow();
+  return rows;
+};
+
+/**
+ * Reads CSV rows into records, mapping the header to book fields.
+ * @private - For internal use only, not part of the public API.
+ */
+const csvRecords = (text: string, format: "csv" | "goodreads"): ImportRecord[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+  const columns = header.cells.map((cell: string) => cell.trim());
+  const columnOf = (field: ImportField): number => {
+    if (format === "goodreads") {
+      const names = GOODREADS_COLUMNS[field] || [];
+      const matches = names.map((name: string) => columns.indexOf(name)).filter((index: number) => index !== -1);
+      return matches.length ? matches[0] : -1;
+    }
+    return columns.findIndex((column: string) => FIELD_ALIASES[field].indexOf(columnKey(column)) !== -1);
+  };
+
+  const fieldColumns = (Object.keys(FIELD_ALIASES) as ImportField[]).map((field: ImportField) => ({
+    field,
+    index: columnOf(field)
+  }));
+  if (fieldColumns.some(({ field, index }) => (field === "name" || field === "author") && index === -1)) {
+    throw new ImportFileError("The file needs a header row with at least a name (or title) and an author column.");
+  }
+
+  return rows.map(({ line, cells }) => {
+    const fields: Partial<Record<ImportField, unknown>> = {};
+    fieldColumns.forEach(({ field, index }) => {
+      if (index !== -1 && cells[index] !== undefined) {
+        fields[field] = cells[index];
+      }
+    });
+    if (format === "goodreads") {
+      fields.isbn = String(fields.isbn || "").replace(/^="?|"$/g, "");
+      fields.rating = fields.rating === "0" ? "" : fields.rating;
+      fields.genres = String(fields.genres || "")
+        .split(",")
+        .filter((shelf: string) => !isGoodreadsStatusShelf(shelf.trim()));
+      const shelf = String(fields.status || "").trim();
+      fields.status = isGoodreadsStatusShelf(shelf) ? GOODREADS_STATUS_SHELVES[shelf] : "";
+      fields.finishedAt = String(fields.finishedAt || "").replace(/\//g, "-");
+    }
+    return { line, fields };
+  });
+};
+
+/**
+ * Reads a JSON list of books, or an object with a `books` list, into records.
+ * @private - For internal use only, not part of the public API.
+ */
+const jsonRecords = (text: string): ImportRecord[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new ImportFileError("The file is not valid JSON.");
+  }
+  const list = Array.isArray(data)
+    ? data
+    : data && typeof data === "object" && Array.isArray((data as { books?: unknown }).books)
+    ? (data as { books: unknown[] }).books
+    : null;
+  if (!list) {
+    throw new ImportFileError("The JSON file must contain a list of books.");
+  }
+
+  return list.map((item: unknown, i: number) => {
+    const fields: Partial<Record<ImportField, unknown>> = {};
+    if (item && typeof item === "object") {
+      const values = item as Record<string, unknown>;
+      Object.keys(values).forEach((key: string) => {
+        const field = (Object.keys(FIELD_ALIASES) as ImportField[]).find(
+          (candidate: ImportField) => FIELD_ALIASES[candidate].indexOf(columnKey(key)) !== -1
+        );
+        if (field && fields[field] === undefined) {
+          fields[field] = values[key];
+        }
+      });
+    }
+    return { line: i + 1, fields };
+  });
+};
+
+/**
+ * Reads a text value; numbers are accepted too, anything else counts as missing.
+ * @private - For internal use only, not part of the public API.
+ */
+const textOf = (value: unknown): string =>
+  typeof value === "string" ? value.trim() : typeof value === "number" ? String(value) : "";
+
+/**
+ * Reads a number from a text or number value; blank counts as missing, anything else
+ * unreadable becomes NaN so validation reports it.
+ * @private - For internal use only, not part of the public API.
+ */
+const numberOf = (value: unknown): number | undefined => {
+  const text = textOf(value);
+  return text ? Number(text) : undefined;
+};
+
+/**
+ * Reads genres from a list or from text separated by `;` or `|`.
+ * @private - For internal use only, not part of the public API.
+ */
+const genresOf = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(textOf) : textOf(value).split(/[;|]/);
+
+/**
+ * Guesses the format of an import file from its name and content.
+ * @param {string} fileName - The file name; only its extension is used.
+ * @param {string} text - The file content.
+ * @returns {ImportFormat} The format to parse the file with.
+ */
+export const detectImportFormat = (fileName: string, text: string): ImportFormat => {
+  const content = text.replace(/^\uFEFF/, "").trim();
+  if (/\.json$/i.test(fileName) || content.startsWith("[") || content.startsWith("{")) {
+    return "json";
+  }
+  const header = content.split(/\r?\n/)[0];
+  return /(^|,)Book Id(,|$)/.test(header) && /(^|,)Exclusive Shelf(,|$)/.test(header) ? "goodreads" : "csv";
+};
+
+/**
+ * Parses an import file and checks every book in it: name and author are required, the details are
+ * validated like in the add form, and books that likely repeat a loaded book or an earlier row are marked.
+ * @param {string} text - The file content.
+ * @param {ImportFormat} format - The file format, e.g. from `detectImportFormat`.
+ * @param {Book[]} existingBooks - The loaded books, to find duplicates in.
+ * @returns {ImportPreview} The checked rows, in file order.
+ * @throws {ImportFileError} If the file cannot be read in the given format.
+ */
+export const parseImport = (text: string, format: ImportFormat, existingBooks: Book[]): ImportPreview => {
+  const content = text.replace(/^\uFEFF/, "");
+  const records = format === "json" ? jsonRecords(content) : csvRecords(content, format);
+  const seen: Book[] = existingBooks.slice();
+
+  const rows = records.map(({ line, fields }: ImportRecord): ImportRow => {
+    const details = normalizeBookDetails({
+      isbn: textOf(fields.isbn),
+      year: numberOf(fields.year),
+      genres: genresOf(fields.genres),
+      coverUrl: textOf(fields.coverUrl),
+      rating: numberOf(fields.rating),
+      notes: textOf(fields.notes),
+      status: (textOf(fields.status) || undefined) as ReadingStatus | undefined,
+      startedAt: textOf(fields.startedAt),
+      finishedAt: textOf(fields.finishedAt),
+      currentPage: numberOf(fields.currentPage),
+      totalPages: numberOf(fields.totalPages)
+    });
+    const book: AddBookData = { ...details, name: textOf(fields.name), author: textOf(fields.author) };
+
+    const fieldErrors = validateBookDetails(details);
+    const nameProblem = validateBookName(book.name);
+    const authorProblem = validateAuthorName(book.author);
+    if (nameProblem) {
+      fieldErrors.name = nameProblem;
+    }
+    if (authorProblem) {
+      fieldErrors.author = authorProblem;
+    }
+    const duplicate = findLikelyDuplicate(book, seen);
+    const duplicateOf = duplicate ? duplicate.book : null;
+    if (!Object.keys(fieldErrors).length) {
+      seen.push(book);
+    }
+    return { line, book, fieldErrors, duplicateOf };
+  });
+
+  return { format, rows };
+};
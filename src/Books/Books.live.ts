@@ -0,0 +1,52 @@
+import { bookSchema } from "./Books.schema";
+import { BookEvent } from "./types";
+
+/**
+ * Checks that a decoded message is a book event.
+ * @param {unknown} message - The decoded message.
+ * @returns {BookEvent | null} The event, or null if the message is not a valid book event.
+ */
+export const toBookEvent = (message: unknown): BookEvent | null => {
+  if (!message || typeof message !== "object") {
+    return null;
+  }
+  const { type, book, id, isPrivate } = message as Record<string, unknown>;
+  if (type === "deleted") {
+    return typeof id === "number" && isFinite(id) ? { type, id } : null;
+  }
+  if (type !== "created" && type !== "updated") {
+    return null;
+  }
+  const parsed = bookSchema.parse(book);
+  if (!parsed.ok || parsed.value.id === undefined) {
+    return null;
+  }
+  return { type, book: parsed.value, isPrivate: isPrivate === true };
+};
+
+/**
+ * Decodes a message of the live updates channel.
+ * @param {string} data - The message data, a JSON-encoded `BookEvent`.
+ * @returns {BookEvent | null} The event, or null if the message is not a valid book event;
+ * the store then reloads the lists, since it cannot tell what changed.
+ */
+export const parseBookEvent = (data: string): BookEvent | null => {
+  try {
+    return toBookEvent(JSON.parse(data));
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Builds the URL of a user's live updates stream (Server-Sent Events). `EventSource` cannot send
+ * headers, so the access token, if any, goes in the query string.
+ * @param {string} apiBaseUrl - Root of the books API, without the user segment.
+ * @param {string} userId - The user whose changes are streamed.
+ * @param {string | null} accessToken - The bearer token of the signed-in session, if any.
+ * @returns {string} The stream URL, `{apiBaseUrl}/{userId}/events`.
+ */
+export const bookEventsUrl = (apiBaseUrl: string, userId: string, accessToken: string | null): string => {
+  const url = `${apiBaseUrl}/${encodeURIComponent(userId)}/events`;
+  return accessToken ? `${url}?access_token=${encodeURIComponent(accessToken)}` : url;
+};
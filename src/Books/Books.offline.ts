@@ -0,0 +1,96 @@
+import { KeyValueStorage, readJson, writeJson } from "../Shared/PersistentStorage";
+import { Book, BookDetails } from "./types";
+
+/**
+ * A book added while offline, waiting to be sent to the server.
+ */
+export interface QueuedBook {
+  /** Temporary id the book is shown with until the server assigns one. */
+  tempId: number;
+  name: string;
+  author: string;
+  /** Optional details entered with the book; missing for books queued before details existed. */
+  details?: BookDetails;
+  /** Whether the book goes onto the private shelf; missing for books queued before privacy could be chosen. */
+  isPrivate?: boolean;
+  /** When the book was queued, in milliseconds. */
+  queuedAt: number;
+}
+
+/**
+ * A queued book the server rejected when the queue was replayed.
+ */
+export interface SyncConflict {
+  book: QueuedBook;
+  message: string;
+}
+
+/**
+ * Prefix of the storage keys used for offline data; the user id and the kind of data follow.
+ * @private - For internal use only, not part of the public API.
+ */
+const KEY_PREFIX = "reaktivate-books";
+
+/**
+ * Creates the persistence layer for offline mode: the last loaded book lists, keyed by
+ * endpoint, and the queue of books added while offline. Each user's data is stored separately.
+ * @param {KeyValueStorage} storage - Where to persist the data.
+ * @param {string} userId - The user the data belongs to.
+ * @returns Functions to load and save the lists and the queue.
+ */
+export const createOfflineBooksStorage = (storage: KeyValueStorage, userId: string) => {
+  const listsKey = `${KEY_PREFIX}:${userId}:lists`;
+  const queueKey = `${KEY_PREFIX}:${userId}:queue`;
+
+  return {
+    /**
+     * Loads every persisted book list.
+     * @returns {Record<string, Book[]>} Lists keyed by endpoint.
+     */
+    loadLists: (): Record<string, Book[]> => readJson<Record<string, Book[]>>(storage, listsKey, {}),
+
+    /**
+     * Persists one book list, keeping the others.
+     * @param {string} key - The endpoint the list comes from.
+     * @param {Book[]} books - The list to persist.
+     */
+    saveList(key: string, books: Book[]): void {
+      const lists = readJson<Record<string, Book[]>>(storage, listsKey, {});
+      lists[key] = books;
+      writeJson(storage, listsKey, lists);
+    },
+
+    /**
+     * Removes every persisted book list, e.g. once the user has signed out.
+     */
+    clearLists(): void {
+      try {
+        storage.removeItem(listsKey);
+      } catch (e) {
+        console.error(`Failed to remove "${listsKey}" from storage:`, e);
+      }
+    },
+
+    /**
+     * Loads the queue of books added while offline, oldest first.
+     * @returns {QueuedBook[]} The queued books.
+     */
+    loadQueue: (): QueuedBook[] => {
+      const queue = readJson<QueuedBook[]>(storage, queueKey, []);
+      return Array.isArray(queue) ? queue : [];
+    },
+
+    /**
+     * Persists the queue of books added while offline.
+     * @param {QueuedBook[]} queue - The queued books, oldest first.
+     */
+    saveQueue(queue: QueuedBook[]): void {
+      writeJson(storage, queueKey, queue);
+    }
+  };
+};
+
+/**
+ * The offline persistence layer used by the Books store.
+ */
+export type OfflineBooksStorage = ReturnType<typeof createOfflineBooksStorage>;
@@ -0,0 +1,113 @@
+import { Book } from "./types";
+
+/**
+ * Book fields the list can be sorted by.
+ */
+export type BookSortKey = "name" | "author" | "year" | "rating";
+
+/**
+ * Direction of the sort.
+ */
+export type SortDirection = "asc" | "desc";
+
+/**
+ * How the loaded books are narrowed down and ordered for display.
+ */
+export interface BookQuery {
+  /** Free text matched fuzzily against name and author; blank shows every book. */
+  search: string;
+  /** Only books by exactly this author; null shows every author. */
+  author: string | null;
+  /** Field to sort by; null keeps the server order. */
+  sortKey: BookSortKey | null;
+  sortDirection: SortDirection;
+}
+
+/**
+ * Lower-cases text and strips accents, so "Émile" is found by "emile".
+ * @private - For internal use only, not part of the public API.
+ */
+const normalize = (text: string): string =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+/**
+ * Whether the characters of `needle` appear in `haystack` in order, not necessarily next to each other.
+ * @private - For internal use only, not part of the public API.
+ */
+const isSubsequence = (needle: string, haystack: string): boolean => {
+  let position = 0;
+  for (let i = 0; i < haystack.length && position < needle.length; i++) {
+    if (haystack[i] === needle[position]) {
+      position += 1;
+    }
+  }
+  return position === needle.length;
+};
+
+/**
+ * Fuzzy-matches a search query against a book's name and author. Every word of the query has to
+ * appear in either field, with its letters in order but possibly spread out,
+ * so "prag prog" finds "The Pragmatic Programmer" and "mfowlr" finds "Martin Fowler".
+ * @param {string} search - The search query.
+ * @param {Book} book - The book to match.
+ * @returns {boolean} True if the book matches; always true for a blank query.
+ */
+export const matchesSearch = (search: string, book: Book): boolean => {
+  const fields = [normalize(book.name), normalize(book.author)];
+  return normalize(search)
+    .split(/\s+/)
+    .filter((word: string) => word)
+    .every((word: string) => fields.some((field: string) => isSubsequence(word, field)));
+};
+
+/**
+ * Compares two books by a field. Books without a value for the field always go last.
+ * @private - For internal use only, not part of the public API.
+ */
+const compareBooks = (a: Book, b: Book, key: BookSortKey, direction: SortDirection): number => {
+  const left = a[key];
+  const right = b[key];
+  if (left === undefined || right === undefined) {
+    return left === right ? 0 : left === undefined ? 1 : -1;
+  }
+  const order =
+    typeof left === "number" && typeof right === "number"
+      ? left - right
+      : String(left).localeCompare(String(right), undefined, { sensitivity: "base" });
+  return direction === "asc" ? order : -order;
+};
+
+/**
+ * Applies a query to a list of books.
+ * @param {Book[]} books - The loaded books.
+ * @param {BookQuery} query - The search, author filter and sort to apply.
+ * @returns {Book[]} A new list with the matching books in display order; the input is not changed.
+ */
+export const applyBookQuery = (books: Book[], query: BookQuery): Book[] => {
+  const matching = books.filter(
+    (book: Book) => (query.author === null || book.author === query.author) && matchesSearch(query.search, book)
+  );
+  if (query.sortKey === null) {
+    return matching;
+  }
+  const sortKey = query.sortKey;
+  // Sort a copy with the original index as tie-breaker, so equal books keep the server order
+  return matching
+    .map((book: Book, index: number) => ({ book, index }))
+    .sort((a, b) => compareBooks(a.book, b.book, sortKey, query.sortDirection) || a.index - b.index)
+    .map(({ book }) => book);
+};
+
+/**
+ * Lists the distinct authors of the given books, alphabetically, for the author filter.
+ * @param {Book[]} books - The loaded books.
+ * @returns {string[]} The authors.
+ */
+export const listAuthors = (books: Book[]): string[] =>
+  books
+    .map((book: Book) => book.author)
+    .filter((author: string, i: number, all: string[]) => all.indexOf(author) === i)
+    .sort((a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: "base" }));
@@ -0,0 +1,73 @@
+import { Book, BookDetails, ReadingStatus } from "./types";
+
+/**
+ * The reading statuses, in the order they are offered.
+ */
+export const READING_STATUSES: ReadingStatus[] = ["wantToRead", "reading", "finished", "abandoned"];
+
+/**
+ * How each reading status is shown.
+ */
+export const READING_STATUS_LABELS: Record<ReadingStatus, string> = {
+  wantToRead: "Want to read",
+  reading: "Reading",
+  finished: "Finished",
+  abandoned: "Abandoned"
+};
+
+/**
+ * Whether a string is one of the reading statuses, e.g. the value of a select.
+ * @param {string} value - The value to check.
+ * @returns {boolean} True for a reading status.
+ */
+export const isReadingStatus = (value: string): value is ReadingStatus =>
+  READING_STATUSES.indexOf(value as ReadingStatus) !== -1;
+
+/**
+ * Formats a day in local time the way reading dates are stored.
+ * @param {Date} date - The day.
+ * @returns {string} The day as `YYYY-MM-DD`.
+ */
+export const toIsoDate = (date: Date): string => {
+  const pad = (value: number) => (value < 10 ? `0${value}` : String(value));
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * How far the user has read a book.
+ * @param {Book} book - The book.
+ * @returns {number | null} The percentage read, from 0 to 100, or null unless both the current and total pages are known.
+ */
+export const readingProgress = (book: Book): number | null => {
+  if (book.currentPage === undefined || book.totalPages === undefined || book.totalPages <= 0) {
+    return null;
+  }
+  return Math.max(0, Math.min(100, Math.round((book.currentPage / book.totalPages) * 100)));
+};
+
+/**
+ * Builds the changes that move a book to another reading status, filling in what the move implies:
+ * starting to read sets the start date unless there is one, finishing or abandoning sets the finish date
+ * (never before the start date), and finishing also moves the current page to the last one.
+ * @param {Book} book - The book as it is now.
+ * @param {ReadingStatus} status - The new status.
+ * @param {Date} today - The current day; injectable for tests.
+ * @returns {BookDetails} The fields to update; empty when the book already has that status.
+ */
+export const readingStatusChanges = (book: Book, status: ReadingStatus, today: Date = new Date()): BookDetails => {
+  if (book.status === status) {
+    return {};
+  }
+  const day = toIsoDate(today);
+  const changes: BookDetails = { status };
+  if (status === "reading" && book.startedAt === undefined) {
+    changes.startedAt = day;
+  }
+  if (status === "finished" || status === "abandoned") {
+    changes.finishedAt = book.startedAt !== undefined && book.startedAt > day ? book.startedAt : day;
+  }
+  if (status === "finished" && book.totalPages !== undefined) {
+    changes.currentPage = book.totalPages;
+  }
+  return changes;
+};
@@ -1,69 +1,263 @@
-import { get, post } from "../Shared/ApiGateway";
-import { Book, BookAddResponse } from "./types";
+import { RequestCancelledError, ResponseValidationError } from "../Shared/ApiError";
+import { HttpClient } from "../Shared/HttpClient";
+import { parseList, Schema, SchemaIssue } from "../Shared/Schema";
+import { UserSession } from "../Shared/UserSession";
+import { bookAddResponseSchema, bookMutationResponseSchema, bookSchema } from "./Books.schema";
+import { Book, BookAddResponse, BookDetails, BookMutationResponse } from "./types";
 
 /**
- * Fetches the list of all books.
- * @returns {Promise<Array<Book>>} A promise that resolves with an array of book objects.
- * Returns an empty array if the response is not a valid array.
+ * Interface for book data required to add a new book; the details are optional
  */
-export const getBooks = async (): Promise<Book[]> => {
-  const booksDto = await get<Book[]>("/");
-  console.log("booksDto", booksDto);
-  
-  return Array.isArray(booksDto) ? booksDto : [];
-};
+export interface AddBookData extends BookDetails {
+  name: string;
+  author: string;
+}
 
 /**
- * Fetches the list of private books.
- * @returns {Promise<Array<Book>>} A promise that resolves with an array of private book objects.
- * Returns an empty array if the response is not a valid array.
+ * Reading details an update can remove again by sending `null` for them.
  */
-export const getPrivateBooks = async (): Promise<Book[]> => {
-  try {
-    const booksDto = await get<Book[]>("/private");
-    
-    return Array.isArray(booksDto) ? booksDto : [];
-  } catch (error) {
-    console.error("Error fetching private books:", error);
-    return [];
-  }
+export type ClearableBookField = "startedAt" | "finishedAt" | "currentPage" | "totalPages";
+
+/**
+ * The reading details an update can remove.
+ */
+export const CLEARABLE_BOOK_FIELDS: ClearableBookField[] = ["startedAt", "finishedAt", "currentPage", "totalPages"];
+
+/**
+ * Interface for the book fields that can be changed on an existing book; `null` removes a clearable reading detail
+ */
+export type UpdateBookData = Pick<Partial<AddBookData>, Exclude<keyof AddBookData, ClearableBookField>> &
+  { [K in ClearableBookField]?: BookDetails[K] | null };
+
+/**
+ * Applies changes to a book the way the server does: given values replace the book's, `null` removes the field.
+ * @param {T} book - The book, or some of its fields.
+ * @param {UpdateBookData} changes - The changes.
+ * @returns {T} A changed copy; the book itself is left alone.
+ */
+export const applyBookChanges = <T extends Partial<BookDetails>>(book: T, changes: UpdateBookData): T => {
+  const changed: Record<string, unknown> = { ...(book as object) };
+  Object.keys(changes).forEach((field: string) => {
+    const value = (changes as Record<string, unknown>)[field];
+    if (value === null) {
+      delete changed[field];
+    } else if (value !== undefined) {
+      changed[field] = value;
+    }
+  });
+  return changed as unknown as T;
 };
 
 /**
- * Interface for book data required to add a new book
+ * A page of a book list: `page` counts from 1 and `limit` is the number of books per page.
  */
-export interface AddBookData {
-  name: string;
-  author: string;
+export interface PageRequest {
+  page: number;
+  limit: number;
 }
 
+/**
+ * Receives the problems found in a book list response; the list itself only contains the valid books.
+ */
+export type ResponseIssuesReporter = (issues: SchemaIssue[]) => void;
+
 /**
  * Generates a unique ID for a new book.
  * @returns {number} A unique ID.
  * @private - For internal use only, not part of the public API.
  */
 const generateUniqueId = (): number => {
-  
+
   return Math.floor(Date.now() + Math.random() * 1000);
 };
 
 /**
- * Adds a new book via the API.
- * @param {AddBookData} bookData - The book data.
- * @param {string} bookData.name - The name of the book.
- * @param {string} bookData.author - The author of the book.
- * @returns {Promise<boolean>} A promise that resolves with true if the book was added successfully (API returns {status: "ok"}), false otherwise.
+ * Keeps the books of a list response that match the schema. The others are dropped, logged and
+ * passed to `onIssues`, so one broken entry neither breaks nor pollutes the whole list.
+ * An empty body counts as an empty list.
+ * @param {unknown} booksDto - The parsed response body.
+ * @param {string} path - The endpoint, for the log message.
+ * @param {ResponseIssuesReporter} onIssues - Optional receiver of the problems found.
+ * @returns {Book[]} The valid books.
+ * @private - For internal use only, not part of the public API.
  */
-export const addBook = async ({ name, author }: AddBookData): Promise<boolean> => {
-  
-  const id = generateUniqueId();
-  
-  const bookAddDto = await post<BookAddResponse>("/", {
-     id, 
-     name, 
-     author
-  });
-  
-  
-  return bookAddDto && bookAddDto.status === "ok" ? true : false;
-};
\ No newline at end of file
+const toBookList = (booksDto: unknown, path: string, onIssues?: ResponseIssuesReporter): Book[] => {
+  const isEmpty = booksDto === null || booksDto === undefined;
+  const { items, issues } = isEmpty ? { items: [] as Book[], issues: [] } : parseList(bookSchema, booksDto);
+  if (issues.length) {
+    console.warn(`Ignored malformed data in ${path} response:`, issues);
+  }
+  if (onIssues) {
+    onIssues(issues);
+  }
+  return items;
+};
+
+/**
+ * Checks a mutation response against its schema. An empty body is passed on as null.
+ * @param {Schema<T>} schema - The expected shape.
+ * @param {unknown} dto - The parsed response body.
+ * @param {string} method - The HTTP method, for the error.
+ * @param {string} path - The endpoint, for the error.
+ * @returns {T | null} The response, or null for an empty body.
+ * @throws {ResponseValidationError} If the body does not have the expected shape.
+ * @private - For internal use only, not part of the public API.
+ */
+const checkResponse = <T>(schema: Schema<T>, dto: unknown, method: string, path: string): T | null => {
+  if (dto === null || dto === undefined) {
+    return null;
+  }
+  const result = schema.parse(dto);
+  if (!result.ok) {
+    throw new ResponseValidationError(
+      "The server returned an unexpected response.",
+      { status: null, url: path, method, body: dto },
+      result.issues
+    );
+  }
+  return result.value;
+};
+
+/**
+ * Creates the books repository on top of the given HTTP client.
+ * Every request goes to the books of the session's current user (`/{userId}/...`).
+ * @param {HttpClient} client - The client used to reach the books API.
+ * @param {UserSession} session - Provides the user whose books are read and changed.
+ * @returns The repository functions bound to that client.
+ */
+export const createBooksRepository = (client: HttpClient, session: UserSession) => {
+  /**
+   * Prefixes an endpoint path with the current user's segment.
+   */
+  const userPath = (path: string): string => `/${encodeURIComponent(session.userId)}${path}`;
+
+  return {
+    /**
+     * Fetches the list of all books, or one page of it.
+     * @param {AbortSignal} signal - Optional signal that cancels the request.
+     * @param {ResponseIssuesReporter} onIssues - Optional receiver of the malformed entries that were dropped.
+     * @param {PageRequest} page - Optional page to fetch (sent as `?page=&limit=`); the whole list when omitted.
+     * A page shorter than `limit` is the last one. Servers without pagination ignore the parameters
+     * and send the whole list.
+     * @returns {Promise<Array<Book>>} A promise that resolves with an array of valid book objects.
+     * Returns an empty array if the response is not a valid array.
+     */
+    getBooks: async (signal?: AbortSignal, onIssues?: ResponseIssuesReporter, page?: PageRequest): Promise<Book[]> => {
+      const params = page ? { page: page.page, limit: page.limit } : undefined;
+      const booksDto = await client.get<unknown>(userPath("/"), { signal, params });
+
+      return toBookList(booksDto, "/", onIssues);
+    },
+
+    /**
+     * Fetches the list of private books.
+     * @param {AbortSignal} signal - Optional signal that cancels the request.
+     * @param {ResponseIssuesReporter} onIssues - Optional receiver of the malformed entries that were dropped.
+     * @returns {Promise<Array<Book>>} A promise that resolves with an array of valid private book objects.
+     * Returns an empty array if the response is not a valid array or the request fails;
+     * a cancelled request still rejects so callers can tell it apart from an empty list.
+     */
+    getPrivateBooks: async (signal?: AbortSignal, onIssues?: ResponseIssuesReporter): Promise<Book[]> => {
+      try {
+        const booksDto = await client.get<unknown>(userPath("/private"), { signal });
+
+        return toBookList(booksDto, "/private", onIssues);
+      } catch (error) {
+        if (error instanceof RequestCancelledError) {
+          throw error;
+        }
+        console.error("Error fetching private books:", error);
+        return [];
+      }
+    },
+
+    /**
+     * Adds a new book via the API, to the shared list or straight onto the user's private shelf.
+     * @param {AddBookData} bookData - The book data.
+     * @param {string} bookData.name - The name of the book.
+     * @param {string} bookData.author - The author of the book.
+     * Any details (ISBN, year, genres...) are sent along; older servers ignore them.
+     * @param {boolean} isPrivate - Whether to add the book as private (`POST /private` instead of `POST /`).
+     * @returns {Promise<Book | null>} A promise that resolves with the created book if it was added successfully (API returns {status: "ok"}), null otherwise.
+     * The book carries the server-assigned id when the API returns one, otherwise the generated id that was sent.
+     * Rejects with a `ResponseValidationError` if the response does not have the expected shape.
+     */
+    addBook: async (bookData: AddBookData, isPrivate = false): Promise<Book | null> => {
+      const id = generateUniqueId();
+      const path = isPrivate ? "/private" : "/";
+
+      const bookAddDto = checkResponse<BookAddResponse>(
+        bookAddResponseSchema,
+        await client.post<unknown>(userPath(path), { id, ...bookData }),
+        "POST",
+        path
+      );
+
+      if (!bookAddDto || bookAddDto.status !== "ok") {
+        return null;
+      }
+
+      return {
+        ...bookData,
+        id: typeof bookAddDto.id === "number" ? bookAddDto.id : id
+      };
+    },
+
+    /**
+     * Updates the given fields of an existing book via the API.
+     * @param {number} id - The id of the book to update.
+     * @param {UpdateBookData} changes - The fields to change; `null` removes a reading date or page count.
+     * @returns {Promise<boolean>} A promise that resolves with true if the book was updated successfully (API returns {status: "ok"}), false otherwise.
+     * Rejects with a `ResponseValidationError` if the response does not have the expected shape.
+     */
+    updateBook: async (id: number, changes: UpdateBookData): Promise<boolean> => {
+      const bookUpdateDto = checkResponse<BookMutationResponse>(
+        bookMutationResponseSchema,
+        await client.patch<unknown, UpdateBookData>(userPath(`/${id}`), changes),
+        "PATCH",
+        `/${id}`
+      );
+
+      return bookUpdateDto && bookUpdateDto.status === "ok" ? true : false;
+    },
+
+    /**
+     * Moves a book onto the user's private shelf (`PUT /:id/private`) or off it (`DELETE /:id/private`).
+     * @param {number} id - The id of the book.
+     * @param {boolean} isPrivate - Whether the book should be private.
+     * @returns {Promise<boolean>} A promise that resolves with true if the change was made (API returns {status: "ok"}), false otherwise.
+     * Rejects with a `ResponseValidationError` if the response does not have the expected shape.
+     */
+    setBookPrivate: async (id: number, isPrivate: boolean): Promise<boolean> => {
+      const path = `/${id}/private`;
+      const responseDto = isPrivate
+        ? await client.put<unknown>(userPath(path), {})
+        : await client.del<unknown>(userPath(path));
+      const bookPrivacyDto = checkResponse<BookMutationResponse>(
+        bookMutationResponseSchema,
+        responseDto,
+        isPrivate ? "PUT" : "DELETE",
+        path
+      );
+
+      return bookPrivacyDto && bookPrivacyDto.status === "ok" ? true : false;
+    },
+
+    /**
+     * Deletes a book via the API.
+     * @param {number} id - The id of the book to delete.
+     * @returns {Promise<boolean>} A promise that resolves with true if the book was deleted successfully (API returns {status: "ok"}), false otherwise.
+     * Rejects with a `ResponseValidationError` if the response does not have the expected shape.
+     */
+    deleteBook: async (id: number): Promise<boolean> => {
+      const bookDeleteDto = checkResponse<BookMutationResponse>(
+        bookMutationResponseSchema,
+        await client.del<unknown>(userPath(`/${id}`)),
+        "DELETE",
+        `/${id}`
+      );
+
+      return bookDeleteDto && bookDeleteDto.status === "ok" ? true : false;
+    }
+  };
+};
@@ -0,0 +1,57 @@
+import { arraySchema, numberSchema, objectSchema, oneOfSchema, optionalSchema, stringSchema } from "../Shared/Schema";
+import { READING_STATUSES } from "./Books.reading";
+import { Book, BookAddResponse, BookDetails, BookMutationResponse } from "./types";
+
+/**
+ * Expected types of the optional book details. Servers that predate them send none, which matches.
+ * Only the types are checked here; `validateBookDetails` checks the values.
+ */
+export const bookDetailsSchema = objectSchema<BookDetails>({
+  isbn: optionalSchema(stringSchema()),
+  year: optionalSchema(numberSchema()),
+  genres: optionalSchema(arraySchema(stringSchema())),
+  coverUrl: optionalSchema(stringSchema()),
+  rating: optionalSchema(numberSchema()),
+  notes: optionalSchema(stringSchema()),
+  status: optionalSchema(oneOfSchema(READING_STATUSES)),
+  startedAt: optionalSchema(stringSchema()),
+  finishedAt: optionalSchema(stringSchema()),
+  currentPage: optionalSchema(numberSchema()),
+  totalPages: optionalSchema(numberSchema())
+});
+
+/**
+ * Expected shape of a book returned by the API. Books without a numeric id or with an empty
+ * name or author cannot be shown or edited, so they do not match.
+ */
+export const bookSchema = objectSchema<Book>({
+  id: numberSchema(),
+  name: stringSchema({ nonEmpty: true }),
+  author: stringSchema({ nonEmpty: true }),
+  isbn: optionalSchema(stringSchema()),
+  year: optionalSchema(numberSchema()),
+  genres: optionalSchema(arraySchema(stringSchema())),
+  coverUrl: optionalSchema(stringSchema()),
+  rating: optionalSchema(numberSchema()),
+  notes: optionalSchema(stringSchema()),
+  status: optionalSchema(oneOfSchema(READING_STATUSES)),
+  startedAt: optionalSchema(stringSchema()),
+  finishedAt: optionalSchema(stringSchema()),
+  currentPage: optionalSchema(numberSchema()),
+  totalPages: optionalSchema(numberSchema())
+});
+
+/**
+ * Expected shape of the response to adding a book.
+ */
+export const bookAddResponseSchema = objectSchema<BookAddResponse>({
+  status: stringSchema(),
+  id: optionalSchema(numberSchema())
+});
+
+/**
+ * Expected shape of the response to updating or deleting a book.
+ */
+export const bookMutationResponseSchema = objectSchema<BookMutationResponse>({
+  status: stringSchema()
+});
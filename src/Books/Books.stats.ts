@@ -0,0 +1,202 @@
+import { toIsoDate } from "./Books.reading";
+import { isValidIsoDate } from "./Books.validation";
+import { Book } from "./types";
+
+/**
+ * Number of books by one author.
+ */
+export interface AuthorCount {
+  author: string;
+  count: number;
+}
+
+/**
+ * Number of books finished in one period, e.g. `2024-05` for a month or `2024` for a year.
+ */
+export interface PeriodCount {
+  period: string;
+  count: number;
+}
+
+/**
+ * The longest run of consecutive days on which at least one book was being read; `from` and `to` are `YYYY-MM-DD`.
+ */
+export interface ReadingStreak {
+  days: number;
+  from: string;
+  to: string;
+}
+
+/**
+ * Statistics about a list of books.
+ */
+export interface BookStats {
+  total: number;
+  /** Most books first; authors with as many books are sorted by name. */
+  authorCounts: AuthorCount[];
+  /** Books with the status `finished`, dated or not. */
+  finishedCount: number;
+  /** Dated finished books per month, from the first such month to the last, including months without any. */
+  finishedPerMonth: PeriodCount[];
+  /** Dated finished books per year, from the first such year to the last, including years without any. */
+  finishedPerYear: PeriodCount[];
+  /** Mean of the ratings given, or null when no book is rated. */
+  averageRating: number | null;
+  ratedCount: number;
+  privateCount: number;
+  publicCount: number;
+  longestStreak: ReadingStreak | null;
+}
+
+/**
+ * Milliseconds in a day.
+ * @private - For internal use only, not part of the public API.
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Counts the number of days from 1970-01-01 to a `YYYY-MM-DD` date, ignoring time zones.
+ * @private - For internal use only, not part of the public API.
+ */
+const dayNumber = (date: string): number => {
+  const parts = date.split("-").map(Number);
+  return Math.round(Date.UTC(parts[0], parts[1] - 1, parts[2]) / DAY_MS);
+};
+
+/**
+ * Turns a day number from `dayNumber` back into `YYYY-MM-DD`.
+ * @private - For internal use only, not part of the public API.
+ */
+const dayString = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Counts the values, in the order each one first appears.
+ * @private - For internal use only, not part of the public API.
+ */
+const countValues = (values: string[]): { value: string; count: number }[] => {
+  const counts: { value: string; count: number }[] = [];
+  values.forEach((value: string) => {
+    const existing = counts.find((entry) => entry.value === value);
+    if (existing) {
+      existing.count += 1;
+    } else {
+      counts.push({ value, count: 1 });
+    }
+  });
+  return counts;
+};
+
+/**
+ * Counts the books by author, most books first.
+ * @param {Book[]} books - The books.
+ * @returns {AuthorCount[]} One entry per author.
+ */
+export const countByAuthor = (books: Book[]): AuthorCount[] =>
+  countValues(books.map((book: Book) => book.author.trim()))
+    .map((entry) => ({ author: entry.value, count: entry.count }))
+    .sort((a: AuthorCount, b: AuthorCount) => b.count - a.count || a.author.localeCompare(b.author));
+
+/**
+ * Counts the periods given, and the periods in between with a count of 0.
+ * @param {string[]} periods - One period per finished book.
+ * @param {(period: string) => string} next - Returns the period after the given one.
+ * @returns {PeriodCount[]} The counts, oldest period first.
+ * @private - For internal use only, not part of the public API.
+ */
+const countPeriods = (periods: string[], next: (period: string) => string): PeriodCount[] => {
+  if (!periods.length) {
+    return [];
+  }
+  const sorted = periods.slice().sort();
+  const last = sorted[sorted.length - 1];
+  const counts: PeriodCount[] = [];
+  for (let period = sorted[0]; period <= last; period = next(period)) {
+    const current = period;
+    counts.push({ period: current, count: sorted.filter((value: string) => value === current).length });
+  }
+  return counts;
+};
+
+/**
+ * Returns the month after a `YYYY-MM` month.
+ * @private - For internal use only, not part of the public API.
+ */
+const nextMonth = (month: string): string => {
+  const year = Number(month.slice(0, 4));
+  const index = Number(month.slice(5, 7));
+  return index === 12 ? `${year + 1}-01` : `${year}-${index < 9 ? "0" : ""}${index + 1}`;
+};
+
+/**
+ * Finds the longest run of consecutive days covered by the books' reading periods. A book is read from
+ * its start date to its finish date; one still being read counts until `today`, and a book with only
+ * one of the dates counts for that day. Dates that are not valid are ignored.
+ * @param {Book[]} books - The books.
+ * @param {string} today - The current day, as `YYYY-MM-DD`.
+ * @returns {ReadingStreak | null} The longest streak (the earliest of equally long ones), or null without any dated book.
+ */
+export const longestReadingStreak = (books: Book[], today: string): ReadingStreak | null => {
+  const spans: { start: number; end: number }[] = [];
+  books.forEach((book: Book) => {
+    const started = book.startedAt !== undefined && isValidIsoDate(book.startedAt) ? book.startedAt : null;
+    const finished = book.finishedAt !== undefined && isValidIsoDate(book.finishedAt) ? book.finishedAt : null;
+    const first = started || finished;
+    if (!first) {
+      return;
+    }
+    const last = finished || (book.status === "reading" && today > first ? today : first);
+    const start = dayNumber(first);
+    spans.push({ start, end: Math.max(start, dayNumber(last)) });
+  });
+  spans.sort((a, b) => a.start - b.start);
+
+  let best: { start: number; end: number } | null = null;
+  let current: { start: number; end: number } | null = null;
+  for (let i = 0; i < spans.length; i += 1) {
+    const span = spans[i];
+    if (current && span.start <= current.end + 1) {
+      current = { start: current.start, end: Math.max(current.end, span.end) };
+    } else {
+      current = span;
+    }
+    if (!best || current.end - current.start > best.end - best.start) {
+      best = current;
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+  return { days: best.end - best.start + 1, from: dayString(best.start), to: dayString(best.end) };
+};
+
+/**
+ * Computes the statistics shown on the stats view from the loaded books.
+ * @param {Book[]} books - The books, e.g. the books store's `books`.
+ * @param {number[]} privateBookIds - Ids of the books on the private shelf.
+ * @param {Date} today - The current day, where an unfinished book's reading period ends; injectable for tests.
+ * @returns {BookStats} The statistics.
+ */
+export const computeBookStats = (books: Book[], privateBookIds: number[], today: Date = new Date()): BookStats => {
+  const finished = books.filter((book: Book) => book.status === "finished");
+  const finishDates = finished
+    .map((book: Book) => book.finishedAt)
+    .filter((date: string | undefined): date is string => date !== undefined && isValidIsoDate(date));
+  const ratings = books
+    .map((book: Book) => book.rating)
+    .filter((rating: number | undefined): rating is number => rating !== undefined);
+  const privateCount = books.filter((book: Book) => book.id !== undefined && privateBookIds.indexOf(book.id) !== -1).length;
+
+  return {
+    total: books.length,
+    authorCounts: countByAuthor(books),
+    finishedCount: finished.length,
+    finishedPerMonth: countPeriods(finishDates.map((date: string) => date.slice(0, 7)), nextMonth),
+    finishedPerYear: countPeriods(finishDates.map((date: string) => date.slice(0, 4)), (year: string) => String(Number(year) + 1)),
+    averageRating: ratings.length ? ratings.reduce((sum: number, rating: number) => sum + rating, 0) / ratings.length : null,
+    ratedCount: ratings.length,
+    privateCount,
+    publicCount: books.length - privateCount,
+    longestStreak: longestReadingStreak(books, toIsoDate(today))
+  };
+};
@@ -0,0 +1,25 @@
+import { toBookEvent } from "./Books.live";
+import { BookEvent } from "./types";
+
+/**
+ * Encodes a change confirmed in this tab for the other tabs.
+ * @param {string} userId - The user whose books changed; tabs showing another user ignore it.
+ * @param {BookEvent} event - The change.
+ * @returns {string} The message to post.
+ */
+export const encodeTabMessage = (userId: string, event: BookEvent): string => JSON.stringify({ userId, event });
+
+/**
+ * Decodes a message from another tab.
+ * @param {string} data - The posted message.
+ * @param {string} userId - The user whose books this tab shows.
+ * @returns {BookEvent | null} The change, or null if the message is about another user or unreadable.
+ */
+export const decodeTabMessage = (data: string, userId: string): BookEvent | null => {
+  try {
+    const message = JSON.parse(data);
+    return message && message.userId === userId ? toBookEvent(message.event) : null;
+  } catch (e) {
+    return null;
+  }
+};
@@ -0,0 +1,28 @@
+import { BooksRepository } from "./Books.controller";
+import { Book } from "./types";
+
+/**
+ * What a mock books repository answers.
+ */
+export interface MockBooksRepositoryOptions {
+  /** Returned by `getBooks`; empty by default. */
+  books?: Book[];
+  /** Returned by `getPrivateBooks`; empty by default. */
+  privateBooks?: Book[];
+  /** Returned by `addBook`. */
+  addedBook?: Book;
+}
+
+/**
+ * Creates a books repository whose methods are Jest mocks that succeed, for store tests.
+ * @param {MockBooksRepositoryOptions} options - The books the mocks answer with.
+ * @returns {BooksRepository} The mock repository.
+ */
+export const createMockBooksRepository = (options: MockBooksRepositoryOptions = {}): BooksRepository => ({
+  getBooks: jest.fn().mockResolvedValue(options.books || []),
+  getPrivateBooks: jest.fn().mockResolvedValue(options.privateBooks || []),
+  addBook: jest.fn().mockResolvedValue(options.addedBook || { id: 100, name: "New Book", author: "New Author" }),
+  updateBook: jest.fn().mockResolvedValue(true),
+  setBookPrivate: jest.fn().mockResolvedValue(true),
+  deleteBook: jest.fn().mockResolvedValue(true)
+});
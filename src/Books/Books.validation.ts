@@ -0,0 +1,230 @@
+import { isReadingStatus } from "./Books.reading";
+import { BookDetails } from "./types";
+
+/**
+ * Longest accepted note, in characters.
+ */
+export const MAX_NOTES_LENGTH = 2000;
+
+/**
+ * Longest accepted book name, in characters.
+ */
+export const MAX_NAME_LENGTH = 200;
+
+/**
+ * Longest accepted author, in characters.
+ */
+export const MAX_AUTHOR_LENGTH = 120;
+
+/**
+ * Checks whether a name or author contains a character it cannot: a control character (including line breaks)
+ * or an angle bracket.
+ * @private - For internal use only, not part of the public API.
+ */
+const hasDisallowedCharacter = (text: string): boolean => {
+  for (let i = 0; i < text.length; i += 1) {
+    const code = text.charCodeAt(i);
+    if (code < 0x20 || code === 0x7f || text[i] === "<" || text[i] === ">") {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Checks a required single-line text field after trimming it.
+ * @private - For internal use only, not part of the public API.
+ */
+const validateTextField = (value: string, label: string, maxLength: number): string | null => {
+  const text = value.trim();
+  if (!text) {
+    return `${label} cannot be empty.`;
+  }
+  if (text.length > maxLength) {
+    return `${label} cannot be longer than ${maxLength} characters.`;
+  }
+  if (hasDisallowedCharacter(text)) {
+    return `${label} cannot contain line breaks, control characters, < or >.`;
+  }
+  return null;
+};
+
+/**
+ * Checks a book name: it is trimmed, then must be non-empty, at most `MAX_NAME_LENGTH` characters
+ * and free of disallowed characters.
+ * @param {string} name - The name as entered.
+ * @returns {string | null} The problem with the name, or null if it is valid.
+ */
+export const validateBookName = (name: string): string | null =>
+  validateTextField(name, "Book name", MAX_NAME_LENGTH);
+
+/**
+ * Checks an author with the same rules as a book name, up to `MAX_AUTHOR_LENGTH` characters.
+ * @param {string} author - The author as entered.
+ * @returns {string | null} The problem with the author, or null if it is valid.
+ */
+export const validateAuthorName = (author: string): string | null =>
+  validateTextField(author, "Author", MAX_AUTHOR_LENGTH);
+
+/**
+ * Removes the separators people commonly type in an ISBN and upper-cases the ISBN-10 check character.
+ * @param {string} isbn - The ISBN as entered.
+ * @returns {string} The ISBN without spaces or hyphens.
+ */
+export const normalizeIsbn = (isbn: string): string => isbn.replace(/[\s-]/g, "").toUpperCase();
+
+/**
+ * Checks an ISBN-10 or ISBN-13, including its check digit.
+ * @param {string} isbn - The ISBN, with or without separators.
+ * @returns {boolean} True if the ISBN is well-formed and its check digit matches.
+ */
+export const isValidIsbn = (isbn: string): boolean => {
+  const digits = normalizeIsbn(isbn);
+
+  if (/^\d{9}[\dX]$/.test(digits)) {
+    const sum = digits.split("").reduce((total: number, char: string, i: number) => {
+      const value = char === "X" ? 10 : Number(char);
+      return total + value * (10 - i);
+    }, 0);
+    return sum % 11 === 0;
+  }
+
+  if (/^\d{13}$/.test(digits)) {
+    const sum = digits.split("").reduce((total: number, char: string, i: number) => {
+      return total + Number(char) * (i % 2 === 0 ? 1 : 3);
+    }, 0);
+    return sum % 10 === 0;
+  }
+
+  return false;
+};
+
+/**
+ * Checks a calendar date written as `YYYY-MM-DD`.
+ * @param {string} date - The date.
+ * @returns {boolean} True if the date is well-formed and exists, e.g. not `2023-02-30`.
+ */
+export const isValidIsoDate = (date: string): boolean => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) {
+    return false;
+  }
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  return parsed.getUTCFullYear() === year && parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day;
+};
+
+/**
+ * Cleans up book details as entered: trims text, normalizes the ISBN, drops empty and duplicate
+ * genres, and leaves out details that are blank.
+ * @param {BookDetails} details - The details as entered.
+ * @returns {BookDetails} The cleaned details.
+ */
+export const normalizeBookDetails = (details: BookDetails): BookDetails => {
+  const normalized: BookDetails = {};
+  if (details.isbn !== undefined && details.isbn.trim()) {
+    normalized.isbn = normalizeIsbn(details.isbn);
+  }
+  if (details.year !== undefined) {
+    normalized.year = details.year;
+  }
+  if (details.genres !== undefined) {
+    const genres = details.genres
+      .map((genre: string) => genre.trim())
+      .filter((genre: string, i: number, all: string[]) => genre && all.indexOf(genre) === i);
+    if (genres.length) {
+      normalized.genres = genres;
+    }
+  }
+  if (details.coverUrl !== undefined && details.coverUrl.trim()) {
+    normalized.coverUrl = details.coverUrl.trim();
+  }
+  if (details.rating !== undefined) {
+    normalized.rating = details.rating;
+  }
+  if (details.notes !== undefined && details.notes.trim()) {
+    normalized.notes = details.notes.trim();
+  }
+  if (details.status !== undefined) {
+    normalized.status = details.status;
+  }
+  if (details.startedAt !== undefined && details.startedAt.trim()) {
+    normalized.startedAt = details.startedAt.trim();
+  }
+  if (details.finishedAt !== undefined && details.finishedAt.trim()) {
+    normalized.finishedAt = details.finishedAt.trim();
+  }
+  if (details.currentPage !== undefined) {
+    normalized.currentPage = details.currentPage;
+  }
+  if (details.totalPages !== undefined) {
+    normalized.totalPages = details.totalPages;
+  }
+  return normalized;
+};
+
+/**
+ * Checks the book details that are present.
+ * @param {BookDetails} details - The details to check, normalized with `normalizeBookDetails`.
+ * @param {number} currentYear - The current year, so books announced for next year can be added; injectable for tests.
+ * @returns {Record<string, string>} Messages keyed by field; empty when every detail is valid.
+ */
+export const validateBookDetails = (
+  details: BookDetails,
+  currentYear: number = new Date().getFullYear()
+): Record<string, string> => {
+  const fieldErrors: Record<string, string> = {};
+
+  if (details.isbn !== undefined && !isValidIsbn(details.isbn)) {
+    fieldErrors.isbn = "ISBN must be a valid ISBN-10 or ISBN-13.";
+  }
+  if (details.year !== undefined && (!Number.isInteger(details.year) || details.year < 1 || details.year > currentYear + 1)) {
+    fieldErrors.year = `Year must be a whole number up to ${currentYear + 1}.`;
+  }
+  if (details.genres !== undefined && details.genres.some((genre: string) => !genre.trim())) {
+    fieldErrors.genres = "Genres cannot be empty.";
+  }
+  if (details.coverUrl !== undefined && !/^https?:\/\/\S+$/i.test(details.coverUrl)) {
+    fieldErrors.coverUrl = "Cover must be an http(s) URL.";
+  }
+  if (details.rating !== undefined && (!Number.isInteger(details.rating) || details.rating < 1 || details.rating > 5)) {
+    fieldErrors.rating = "Rating must be a whole number from 1 to 5.";
+  }
+  if (details.notes !== undefined && details.notes.length > MAX_NOTES_LENGTH) {
+    fieldErrors.notes = `Notes cannot be longer than ${MAX_NOTES_LENGTH} characters.`;
+  }
+  if (details.status !== undefined && !isReadingStatus(details.status)) {
+    fieldErrors.status = "Status must be want to read, reading, finished or abandoned.";
+  }
+  if (details.startedAt !== undefined && !isValidIsoDate(details.startedAt)) {
+    fieldErrors.startedAt = "Start date must be a date like 2024-05-01.";
+  }
+  if (details.finishedAt !== undefined && !isValidIsoDate(details.finishedAt)) {
+    fieldErrors.finishedAt = "Finish date must be a date like 2024-05-01.";
+  } else if (
+    details.finishedAt !== undefined &&
+    details.startedAt !== undefined &&
+    !fieldErrors.startedAt &&
+    details.finishedAt < details.startedAt
+  ) {
+    fieldErrors.finishedAt = "Finish date cannot be before the start date.";
+  }
+  if (details.totalPages !== undefined && (!Number.isInteger(details.totalPages) || details.totalPages < 1)) {
+    fieldErrors.totalPages = "Total pages must be a whole number of at least 1.";
+  }
+  if (details.currentPage !== undefined && (!Number.isInteger(details.currentPage) || details.currentPage < 0)) {
+    fieldErrors.currentPage = "Current page must be a whole number of at least 0.";
+  } else if (
+    details.currentPage !== undefined &&
+    details.totalPages !== undefined &&
+    !fieldErrors.totalPages &&
+    details.currentPage > details.totalPages
+  ) {
+    fieldErrors.currentPage = "Current page cannot be past the last page.";
+  }
+
+  return fieldErrors;
+};
+
@@ -0,0 +1,240 @@
+import { makeAutoObservable, runInAction } from "mobx";
+import { BooksStore } from "./Books.controller";
+import { BookCommand, commandBookId, describeCommand, HISTORY_LIMIT, remapCommandId } from "./Books.history";
+
+/**
+ * Interface defining the structure of the books history store
+ */
+export interface BooksHistoryStore {
+  undoStack: BookCommand[];
+  redoStack: BookCommand[];
+  isReplaying: boolean;
+  toastMessage: string | null;
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+  dismissToast: () => void;
+}
+
+/**
+ * Creates the MobX store behind undo and redo. It records every mutation the Books store announces
+ * through `onCommand` and replays commands through the Books store's unrecorded mutations, so an
+ * undo is optimistic and shared with the other tabs like any other change. Failures are reported
+ * in the Books store's `error`.
+ * @param {BooksStore} books - The Books store the mutations go through.
+ * @returns {BooksHistoryStore} An observable MobX store instance.
+ */
+export function createBooksHistoryStore(books: BooksStore): BooksHistoryStore {
+  const store = makeAutoObservable({
+    /** Confirmed mutations, most recent last */
+    undoStack: [] as BookCommand[],
+    /** Undone mutations, most recently undone last; cleared by any new mutation */
+    redoStack: [] as BookCommand[],
+    /** Whether an undo or redo is being sent to the server */
+    isReplaying: false,
+    /** Short notice of the last mutation, offered with an undo button */
+    toastMessage: null as string | null,
+
+    /**
+     * Whether there is a mutation to undo right now.
+     */
+    get canUndo(): boolean {
+      return store.undoStack.length > 0 && !store.isReplaying;
+    },
+
+    /**
+     * Whether there is an undone mutation to redo right now.
+     */
+    get canRedo(): boolean {
+      return store.redoStack.length > 0 && !store.isReplaying;
+    },
+
+    /**
+     * Undoes the latest confirmed mutation by sending its inverse to the server: an added book is deleted,
+     * a deleted book is added again (with a new id), an edit or a shelf move is reverted.
+     * Works only while online; a failure leaves the mutation on the undo stack and sets the Books store's `error`.
+     * @returns {Promise<boolean>} True if the mutation was undone.
+     */
+    async undo(): Promise<boolean> {
+      return replayCommand("undo");
+    },
+
+    /**
+     * Repeats the latest undone mutation, like `undo` in reverse.
+     * @returns {Promise<boolean>} True if the mutation was redone.
+     */
+    async redo(): Promise<boolean> {
+      return replayCommand("redo");
+    },
+
+    /**
+     * Hides the notice of the last mutation.
+     */
+    dismissToast() {
+      store.toastMessage = null;
+    }
+  });
+
+  /**
+   * Records a confirmed mutation for undo, forgets what was undone before and shows the toast.
+   */
+  const recordCommand = (command: BookCommand) => {
+    runInAction(() => {
+      store.undoStack = store.undoStack.concat(command).slice(-HISTORY_LIMIT);
+      store.redoStack = [];
+      store.toastMessage = describeCommand(command);
+    });
+  };
+
+  /**
+   * Points the history at the new id of a book that was added again or synced after being queued.
+   */
+  const remapHistory = (oldId: number, newId: number) => {
+    runInAction(() => {
+      store.undoStack = store.undoStack.map((command: BookCommand) => remapCommandId(command, oldId, newId));
+      store.redoStack = store.redoStack.map((command: BookCommand) => remapCommandId(command, oldId, newId));
+    });
+  };
+
+  /**
+   * Forgets the history of a book that no longer exists, e.g. a queued book the server rejected.
+   */
+  const forgetHistory = (id: number) => {
+    runInAction(() => {
+      store.undoStack = store.undoStack.filter((command: BookCommand) => commandBookId(command) !== id);
+      store.redoStack = store.redoStack.filter((command: BookCommand) => commandBookId(command) !== id);
+    });
+  };
+
+  /**
+   * Adds the book of an `add` or `delete` command again. The server assigns a new id, which the
+   * history is remapped to; resolves to the command with the new id, or null if adding failed.
+   */
+  const addCommandBook = async (command: BookCommand & { kind: "add" | "delete" }): Promise<BookCommand | null> => {
+    const { id, name, author, ...details } = command.book;
+    const book = await books.addValidBook(name, author, details, command.isPrivate);
+    if (!book || book.id === undefined) {
+      return null;
+    }
+    if (id !== undefined) {
+      remapHistory(id, book.id);
+    }
+    return { ...command, book };
+  };
+
+  /**
+   * Removes the book of an `add` or `delete` command. A book still waiting in the offline queue is
+   * just taken out of it; resolves to true once the book is gone.
+   */
+  const removeCommandBook = async (command: BookCommand & { kind: "add" | "delete" }): Promise<boolean> => {
+    const id = command.book.id;
+    if (id === undefined) {
+      return false;
+    }
+    if (books.removeQueuedBook(id)) {
+      return true;
+    }
+    return books.removeBook(id);
+  };
+
+  /**
+   * Sends the inverse of a command to the server.
+   * Resolves to the command as it stands afterwards (a re-added book has a new id), or null if it failed.
+   */
+  const revertCommand = async (command: BookCommand): Promise<BookCommand | null> => {
+    switch (command.kind) {
+      case "add":
+        return (await removeCommandBook(command)) ? command : null;
+      case "update":
+        return (await books.changeBook(command.id, command.before)) ? command : null;
+      case "delete":
+        return addCommandBook(command);
+      default:
+        return (await books.changeBookPrivacy(command.id, !command.isPrivate)) ? command : null;
+    }
+  };
+
+  /**
+   * Sends a command to the server again; resolves like `revertCommand`.
+   */
+  const repeatCommand = async (command: BookCommand): Promise<BookCommand | null> => {
+    switch (command.kind) {
+      case "add":
+        return addCommandBook(command);
+      case "update":
+        return (await books.changeBook(command.id, command.after)) ? command : null;
+      case "delete":
+        return (await removeCommandBook(command)) ? command : null;
+      default:
+        return (await books.changeBookPrivacy(command.id, command.isPrivate)) ? command : null;
+    }
+  };
+
+  /**
+   * Undoes or redoes the latest command of one stack and moves it to the other.
+   * If the server refuses, the command stays where it was and `error` says what could not be undone;
+   * a command whose book no longer exists is dropped, since it can never succeed.
+   */
+  const replayCommand = async (direction: "undo" | "redo"): Promise<boolean> => {
+    const from = direction === "undo" ? "undoStack" : "redoStack";
+    const to = direction === "undo" ? "redoStack" : "undoStack";
+    const index = store[from].length - 1;
+    const command = store[from][index];
+    if (!command || store.isReplaying) {
+      return false;
+    }
+    if (!books.isOnline) {
+      runInAction(() => {
+        const message = direction === "undo" ? "Changes can only be undone while online." : "Changes can only be redone while online.";
+        books.error = { kind: "outage", message, fieldErrors: {}, status: null };
+      });
+      return false;
+    }
+
+    runInAction(() => {
+      store.isReplaying = true;
+      store.toastMessage = null;
+    });
+    const result = await (direction === "undo" ? revertCommand(command) : repeatCommand(command));
+
+    runInAction(() => {
+      store.isReplaying = false;
+      const error = books.error;
+      const done = result !== null;
+      const gone = !done && error !== null && error.kind === "notFound";
+      if (done || gone) {
+        store[from] = store[from].filter((_: BookCommand, i: number) => i !== index);
+      }
+      if (result) {
+        store[to] = store[to].concat(result);
+        return;
+      }
+      const label = `"${describeCommand(command)}"`;
+      const reason = gone ? "the book no longer exists." : error ? error.message : "the server refused.";
+      books.error = {
+        kind: error ? error.kind : "unknown",
+        message: `Could not ${direction} ${label}: ${reason}`,
+        fieldErrors: {},
+        status: error ? error.status : null
+      };
+    });
+    return result !== null;
+  };
+
+  books.events.addListener({
+    onCommand: recordCommand,
+    onRenumbered: remapHistory,
+    onRemoved: forgetHistory,
+    onReset: () => {
+      runInAction(() => {
+        store.undoStack = [];
+        store.redoStack = [];
+        store.isReplaying = false;
+        store.toastMessage = null;
+      });
+    }
+  });
+
+  return store;
+}
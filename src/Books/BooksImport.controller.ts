@@ -0,0 +1,201 @@
+import { makeAutoObservable, runInAction } from "mobx";
+import { NetworkError } from "../Shared/ApiError";
+import { BooksRepository, BooksStore, toBooksError } from "./Books.controller";
+import { exportBooks, ExportFormat } from "./Books.export";
+import { detectImportFormat, ImportFileError, ImportPreview, ImportProgress, ImportRow, parseImport } from "./Books.import";
+import { isReadingStatus } from "./Books.reading";
+import { Book } from "./types";
+
+/**
+ * Interface defining the structure of the import/export store
+ */
+export interface BooksImportStore {
+  importPreview: ImportPreview | null;
+  importProgress: ImportProgress | null;
+  isImporting: boolean;
+  previewImport: (text: string, fileName: string) => void;
+  cancelImport: () => void;
+  runImport: (options?: ImportOptions) => Promise<void>;
+  exportCurrentView: (format: ExportFormat) => Promise<string | null>;
+}
+
+/**
+ * Choices made when confirming an import
+ */
+export interface ImportOptions {
+  /** Also import the rows that seem to repeat a book already on the list; skipped by default. */
+  includeDuplicates?: boolean;
+  /** Add the books straight onto the private shelf. */
+  isPrivate?: boolean;
+}
+
+/**
+ * Number of books an import sends to the server at the same time.
+ */
+export const IMPORT_BATCH_SIZE = 5;
+
+/**
+ * Creates the MobX store behind bulk import and the export of the current view.
+ * Imported books are sent straight through the repository rather than added one by one to the list;
+ * each one the server confirms is announced through `onConfirmed`, and the Books store reloads its
+ * lists once the import is over. Failures are reported in the Books store's `error`.
+ * @param {BooksStore} books - The Books store whose lists are checked for duplicates, exported and reloaded.
+ * @param {BooksRepository} repository - The repository the books are added through.
+ * @returns {BooksImportStore} An observable MobX store instance.
+ */
+export function createBooksImportStore(books: BooksStore, repository: BooksRepository): BooksImportStore {
+  const store = makeAutoObservable({
+    /** The parsed import file waiting for confirmation */
+    importPreview: null as ImportPreview | null,
+    /** Progress of the running import, kept afterwards as its summary */
+    importProgress: null as ImportProgress | null,
+    isImporting: false,
+
+    /**
+     * Parses an import file and shows its rows for confirmation, marking invalid rows and rows that
+     * repeat a loaded book. A file that cannot be read is reported as a `validation` error.
+     * @param {string} text - The file content.
+     * @param {string} fileName - The file name, used to tell JSON from CSV.
+     */
+    previewImport(text: string, fileName: string) {
+      try {
+        store.importPreview = parseImport(text, detectImportFormat(fileName, text), books.loadedBooks());
+        store.importProgress = null;
+        books.error = null;
+      } catch (err) {
+        if (!(err instanceof ImportFileError)) {
+          throw err;
+        }
+        store.importPreview = null;
+        books.error = { kind: "validation", message: err.message, fieldErrors: { importFile: err.message }, status: null };
+      }
+    },
+
+    /**
+     * Discards the import preview without adding anything.
+     */
+    cancelImport() {
+      if (!store.isImporting) {
+        store.importPreview = null;
+        store.importProgress = null;
+      }
+    },
+
+    /**
+     * Adds the valid rows of the import preview, `IMPORT_BATCH_SIZE` books at a time, updating
+     * `importProgress` as each book is accepted or rejected. Rejected rows are listed in the progress
+     * and do not stop the import; losing the connection does, after the current batch.
+     * Switching users also stops it, so no book is added for the wrong user. The lists are reloaded afterwards.
+     * @param {ImportOptions} options - Whether to include duplicates and add the books as private.
+     */
+    async runImport(options: ImportOptions = {}) {
+      const preview = store.importPreview;
+      if (!preview || store.isImporting) {
+        return;
+      }
+      if (!books.isOnline) {
+        books.error = { kind: "outage", message: "Books can only be imported while online.", fieldErrors: {}, status: null };
+        return;
+      }
+
+      const rows = preview.rows.filter(
+        (row: ImportRow) => !Object.keys(row.fieldErrors).length && (options.includeDuplicates || !row.duplicateOf)
+      );
+      const userId = books.userId;
+      const isCurrentUser = () => books.userId === userId;
+      books.error = null;
+      store.isImporting = true;
+      store.importProgress = { total: rows.length, imported: 0, failures: [] };
+      const progress = store.importProgress;
+      let connectionLost = false;
+
+      try {
+        for (let start = 0; start < rows.length && !connectionLost && isCurrentUser(); start += IMPORT_BATCH_SIZE) {
+          const lostConnection = await Promise.all(
+            rows.slice(start, start + IMPORT_BATCH_SIZE).map(async (row: ImportRow): Promise<boolean> => {
+              try {
+                const createdBook = await repository.addBook(row.book, options.isPrivate === true);
+                if (!createdBook) {
+                  throw new Error("Repository returned no book, book might not have been added.");
+                }
+                runInAction(() => {
+                  progress.imported += 1;
+                });
+                books.events.emit("onConfirmed", { type: "created", book: createdBook, isPrivate: options.isPrivate === true });
+                return false;
+              } catch (err) {
+                console.error("Failed to import book:", err);
+                runInAction(() => {
+                  progress.failures.push({ line: row.line, message: toBooksError(err, "Failed to add book").message });
+                });
+                return err instanceof NetworkError;
+              }
+            })
+          );
+          connectionLost = lostConnection.indexOf(true) !== -1;
+        }
+      } finally {
+        runInAction(() => {
+          store.isImporting = false;
+          if (isCurrentUser()) {
+            store.importPreview = null;
+          }
+        });
+      }
+
+      if (!isCurrentUser()) {
+        return;
+      }
+      if (connectionLost) {
+        runInAction(() => {
+          books.isOnline = false;
+          books.error = {
+            kind: "outage",
+            message: `The connection was lost; ${progress.imported} of ${progress.total} books were imported.`,
+            fieldErrors: {},
+            status: null
+          };
+        });
+      }
+      if (progress.imported > 0) {
+        await books.reload();
+      }
+    },
+
+    /**
+     * Serializes the current view (all books, private books or the books with a reading status) for download.
+     * The whole list is exported, so when only some pages of the "all" list are loaded the rest is fetched first.
+     * Books not yet saved on the server are left out.
+     * @param {ExportFormat} format - CSV or JSON.
+     * @returns {Promise<string | null>} The file content, or null if the list could not be fetched (`error` is set).
+     */
+    async exportCurrentView(format: ExportFormat): Promise<string | null> {
+      try {
+        const status = books.viewType;
+        const listed = status !== "private" && books.hasMore ? await repository.getBooks() : books.books;
+        const savedBooks = (Array.isArray(listed) ? listed : []).filter(
+          (book: Book) => !books.isBookPending(book) && (!isReadingStatus(status) || book.status === status)
+        );
+        return exportBooks(savedBooks, format);
+      } catch (err) {
+        console.error("Failed to export books:", err);
+        runInAction(() => {
+          books.error = toBooksError(err, "Failed to export books");
+        });
+        return null;
+      }
+    }
+  });
+
+  books.events.addListener({
+    onReset: () => {
+      runInAction(() => {
+        store.importPreview = null;
+        store.importProgress = null;
+        store.isImporting = false;
+      });
+    }
+  });
+
+  return store;
+}
@@ -0,0 +1,232 @@
+import React, { useState, ChangeEvent } from "react";
+import { observer } from "mobx-react";
+import { exportFileName, ExportFormat } from "./Books.export";
+import { ImportFailure, ImportRow } from "./Books.import";
+import { isReadingStatus, READING_STATUS_LABELS } from "./Books.reading";
+import { useBooksImport, useBooksStore } from "../Root/StoreContext";
+
+interface StylesType {
+  section: React.CSSProperties;
+  button: React.CSSProperties;
+  table: React.CSSProperties;
+  cell: React.CSSProperties;
+  invalid: React.CSSProperties;
+  duplicate: React.CSSProperties;
+  error: React.CSSProperties;
+}
+
+const styles: StylesType = {
+  section: {
+    margin: "15px 0",
+  },
+  button: {
+    marginLeft: "5px",
+  },
+  table: {
+    borderCollapse: "collapse",
+    margin: "10px 0",
+    fontSize: "0.9em",
+  },
+  cell: {
+    padding: "2px 8px",
+    borderBottom: "1px solid #ddd",
+    textAlign: "left",
+  },
+  invalid: {
+    color: "red",
+  },
+  duplicate: {
+    color: "#8a6d3b",
+  },
+  error: {
+    color: "red",
+    fontSize: "0.9em",
+    marginLeft: "5px",
+  },
+};
+
+/**
+ * Describes the state of a preview row: why it will be skipped, or that it is ready.
+ */
+const rowStatus = (row: ImportRow): React.ReactNode => {
+  const errors = Object.keys(row.fieldErrors).map((field: string) => row.fieldErrors[field]);
+  if (errors.length) {
+    return <span style={styles.invalid}>{errors.join(" ")}</span>;
+  }
+  if (row.duplicateOf) {
+    return (
+      <span style={styles.duplicate}>
+        Already listed as "{row.duplicateOf.name}" by {row.duplicateOf.author}
+      </span>
+    );
+  }
+  return "Ready";
+};
+
+/**
+ * Offers a text file for download.
+ */
+const download = (content: string, fileName: string, type: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Import and export of the book list.
+ * A chosen file is previewed through the import store's `previewImport` and only imported once confirmed;
+ * exports download the whole current view (all or private books).
+ * Contains local state only for the import choices.
+ * @component
+ */
+const BooksImportExport: React.FC = () => {
+  const booksStore = useBooksStore();
+  const importer = useBooksImport();
+  /** Whether rows that repeat a listed book are imported too */
+  const [includeDuplicates, setIncludeDuplicates] = useState<boolean>(false);
+  /** Whether the imported books go onto the private shelf */
+  const [importPrivate, setImportPrivate] = useState<boolean>(false);
+
+  /**
+   * Reads the chosen file and shows its preview. The input is reset so the same file can be chosen again.
+   */
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>): void => {
+    const input = e.target;
+    const file = input.files && input.files[0];
+    if (!file) {
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      importer.previewImport(String(reader.result), file.name);
+    };
+    reader.readAsText(file);
+    input.value = "";
+  };
+
+  /**
+   * Exports the current view and downloads it.
+   */
+  const handleExport = async (format: ExportFormat): Promise<void> => {
+    const content = await importer.exportCurrentView(format);
+    if (content !== null) {
+      download(content, exportFileName(booksStore.viewType, format), format === "json" ? "application/json" : "text/csv");
+    }
+  };
+
+  const preview = importer.importPreview;
+  const progress = importer.importProgress;
+  const error = booksStore.error;
+  const fileError = error && error.kind === "validation" ? error.fieldErrors.importFile : undefined;
+  const importableRows = preview
+    ? preview.rows.filter(
+        (row: ImportRow) => !Object.keys(row.fieldErrors).length && (includeDuplicates || !row.duplicateOf)
+      )
+    : [];
+
+  const viewType = booksStore.viewType;
+  const exportLabel = isReadingStatus(viewType)
+    ? `books marked "${READING_STATUS_LABELS[viewType]}"`
+    : viewType === "private" ? "private books" : "all books";
+
+  return (
+    <div style={styles.section}>
+      <h3>Import and Export</h3>
+      <div>
+        <label>
+          Import from CSV, JSON or a Goodreads export:{" "}
+          <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} />
+        </label>
+        {fileError && <span style={styles.error} role="alert">{fileError}</span>}
+      </div>
+
+      {preview && !importer.isImporting && (
+        <div>
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                <th style={styles.cell}>Line</th>
+                <th style={styles.cell}>Name</th>
+                <th style={styles.cell}>Author</th>
+                <th style={styles.cell}>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map((row: ImportRow) => (
+                <tr key={row.line}>
+                  <td style={styles.cell}>{row.line}</td>
+                  <td style={styles.cell}>{row.book.name}</td>
+                  <td style={styles.cell}>{row.book.author}</td>
+                  <td style={styles.cell}>{rowStatus(row)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <label>
+            <input
+              type="checkbox"
+              checked={includeDuplicates}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setIncludeDuplicates(e.target.checked)}
+            />
+            {" "}Import duplicates too
+          </label>
+          <label style={styles.button}>
+            <input
+              type="checkbox"
+              checked={importPrivate}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setImportPrivate(e.target.checked)}
+            />
+            {" "}Add as private
+          </label>
+          <div>
+            <button
+              onClick={() => importer.runImport({ includeDuplicates, isPrivate: importPrivate })}
+              disabled={importableRows.length === 0 || !booksStore.isOnline}
+            >
+              Import {importableRows.length} of {preview.rows.length} books
+            </button>
+            <button onClick={() => importer.cancelImport()} style={styles.button}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {progress && (
+        <div role="status">
+          {importer.isImporting ? "Importing" : "Imported"} {progress.imported} of {progress.total} books
+          {importer.isImporting && <progress value={progress.imported + progress.failures.length} max={progress.total} style={styles.button} />}
+          {progress.failures.length > 0 && (
+            <ul>
+              {progress.failures.map((failure: ImportFailure) => (
+                <li key={failure.line} style={styles.invalid}>
+                  Line {failure.line}: {failure.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          {!importer.isImporting && (
+            <button onClick={() => importer.cancelImport()} style={styles.button}>
+              Dismiss
+            </button>
+          )}
+        </div>
+      )}
+
+      <div style={styles.section}>
+        Export {exportLabel}:
+        <button onClick={() => handleExport("csv")} style={styles.button}>
+          CSV
+        </button>
+        <button onClick={() => handleExport("json")} style={styles.button}>
+          JSON
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default observer(BooksImportExport);
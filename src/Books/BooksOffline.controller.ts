@@ -0,0 +1,132 @@
+import { makeAutoObservable, reaction, runInAction } from "mobx";
+import { NetworkError } from "../Shared/ApiError";
+import { BooksRepository, BooksStore, toBooksError } from "./Books.controller";
+import { SyncConflict } from "./Books.offline";
+
+/**
+ * Interface defining the structure of the offline sync store
+ */
+export interface BooksOfflineStore {
+  isSyncing: boolean;
+  syncConflicts: SyncConflict[];
+  readonly pendingSyncCount: number;
+  syncPendingBooks: () => Promise<void>;
+  dismissSyncConflict: (conflict: SyncConflict) => void;
+  syncWhenOnline: () => () => void;
+}
+
+/**
+ * Creates the MobX store that sends the books the Books store queued while offline.
+ * The queue itself stays in the Books store, which shows the queued books as pending and persists them;
+ * this store replays it, reports the books the server rejects, and announces the ids the server
+ * assigned (`onRenumbered`) and the books it rejected (`onRemoved`) so the undo history follows them.
+ * @param {BooksStore} books - The Books store holding the queue.
+ * @param {BooksRepository} repository - The repository the queued books are sent through.
+ * @returns {BooksOfflineStore} An observable MobX store instance.
+ */
+export function createBooksOfflineStore(books: BooksStore, repository: BooksRepository): BooksOfflineStore {
+  const store = makeAutoObservable({
+    isSyncing: false,
+    /** Queued books the server rejected, until the user dismisses them */
+    syncConflicts: [] as SyncConflict[],
+
+    /**
+     * Number of books added offline that still have to be sent to the server.
+     */
+    get pendingSyncCount(): number {
+      return books.queuedBooks.length;
+    },
+
+    /**
+     * Sends the books queued while offline to the server, oldest first, then reloads the lists.
+     * A book the server rejects is dropped from the queue and reported in `syncConflicts`;
+     * a network failure stops the replay and keeps the rest of the queue for the next attempt.
+     */
+    async syncPendingBooks() {
+      if (store.isSyncing || books.queuedBooks.length === 0) {
+        return;
+      }
+
+      store.isSyncing = true;
+      let synced = false;
+      try {
+        while (books.queuedBooks.length > 0) {
+          const queued = books.queuedBooks[0];
+          try {
+            const createdBook = await repository.addBook(
+              { ...queued.details, name: queued.name, author: queued.author },
+              queued.isPrivate === true
+            );
+            if (!createdBook) {
+              throw new Error("Repository returned no book, book might not have been added.");
+            }
+            books.replaceQueuedBook(queued, createdBook);
+            if (createdBook.id !== undefined) {
+              books.events.emit("onRenumbered", queued.tempId, createdBook.id);
+            }
+            books.events.emit("onConfirmed", { type: "created", book: createdBook, isPrivate: queued.isPrivate === true });
+            synced = true;
+          } catch (err) {
+            if (err instanceof NetworkError) {
+              runInAction(() => {
+                books.isOnline = false;
+              });
+              break;
+            }
+            console.error("Failed to sync queued book:", err);
+            runInAction(() => {
+              store.syncConflicts.push({ book: queued, message: toBooksError(err, "Failed to add book").message });
+            });
+            books.removeQueuedBook(queued.tempId);
+            books.events.emit("onRemoved", queued.tempId);
+            synced = true;
+          }
+        }
+      } finally {
+        runInAction(() => {
+          store.isSyncing = false;
+        });
+      }
+
+      // After a network drop the rest of the queue is sent, and the lists reloaded, on the next reconnect
+      if (synced && books.isOnline) {
+        await books.reload();
+      }
+    },
+
+    /**
+     * Removes a sync conflict once the user has seen it.
+     * @param {SyncConflict} conflict - The conflict to dismiss.
+     */
+    dismissSyncConflict(conflict: SyncConflict) {
+      store.syncConflicts = store.syncConflicts.filter((existing: SyncConflict) => existing !== conflict);
+    },
+
+    /**
+     * Sends the queue whenever the Books store is online with books queued: right away, once the
+     * connection is back, and after switching to a user who has books queued.
+     * @returns {() => void} Stops following the connection and the queue.
+     */
+    syncWhenOnline(): () => void {
+      return reaction(
+        () => (books.isOnline && books.queuedBooks.length > 0 ? books.userId : null),
+        (userId: string | null) => {
+          if (userId) {
+            store.syncPendingBooks();
+          }
+        },
+        { fireImmediately: true }
+      );
+    }
+  });
+
+  books.events.addListener({
+    onReset: () => {
+      runInAction(() => {
+        store.syncConflicts = [];
+      });
+    }
+  });
+
+  return store;
+}
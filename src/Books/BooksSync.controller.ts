@@ -0,0 +1,130 @@
+import { makeAutoObservable } from "mobx";
+import { appConfig } from "../Shared/config";
+import { createLiveChannel, LiveConnector } from "../Shared/LiveChannel";
+import { TabChannel } from "../Shared/TabChannel";
+import { BooksStore } from "./Books.controller";
+import { bookEventsUrl, parseBookEvent } from "./Books.live";
+import { decodeTabMessage, encodeTabMessage } from "./Books.tabs";
+import { BookEvent } from "./types";
+
+/**
+ * Interface defining the structure of the live and tab sync store
+ */
+export interface BooksSyncStore {
+  isLive: boolean;
+  startLive: () => void;
+  stopLive: () => void;
+  resync: () => Promise<void>;
+  followOtherTabs: () => () => void;
+}
+
+/**
+ * Options for creating the live and tab sync store
+ */
+export interface BooksSyncOptions {
+  /** Shares confirmed changes with the store of the app's other tabs; changes stay in this tab when omitted. */
+  tabChannel?: TabChannel;
+  /** Opens the live updates stream; there are no live updates when omitted. */
+  connectLive?: LiveConnector;
+  /**
+   * Returns the URL of the live updates stream, called before every connection so it can carry a fresh
+   * token; the configured API's stream for the Books store's user, without a token, by default.
+   */
+  liveUrl?: () => string | Promise<string>;
+}
+
+/**
+ * Creates the MobX store that keeps the Books store in step with changes made elsewhere: those the
+ * server pushes over the live updates channel, and those the app's other tabs share through the tab
+ * channel. Both are applied with the Books store's `applyBookEvent`. In turn, every change the Books
+ * store and the stores built on it announce through `onConfirmed` is posted to the other tabs.
+ * @param {BooksStore} books - The Books store the changes are applied to.
+ * @param {BooksSyncOptions} options - Tab channel and live updates connector.
+ * @returns {BooksSyncStore} An observable MobX store instance.
+ */
+export function createBooksSyncStore(books: BooksStore, options: BooksSyncOptions = {}): BooksSyncStore {
+  const tabChannel = options.tabChannel;
+  const live = options.connectLive
+    ? createLiveChannel({
+        connect: options.connectLive,
+        url: options.liveUrl || (() => bookEventsUrl(appConfig.apiBaseUrl, books.userId, null)),
+        onMessage: (data: string) => {
+          const event = parseBookEvent(data);
+          if (event) {
+            books.applyBookEvent(event);
+          } else {
+            console.warn("Ignored a malformed live update, reloading the books:", data);
+            store.resync();
+          }
+        },
+        onReconnect: () => {
+          store.resync();
+        }
+      })
+    : null;
+
+  const store = makeAutoObservable({
+    /** Whether the live updates channel is started */
+    isLive: false,
+
+    /**
+     * Starts following the live updates of the Books store's user. Does nothing without a connector.
+     */
+    startLive() {
+      if (live) {
+        live.start();
+        store.isLive = true;
+      }
+    },
+
+    /**
+     * Stops following the live updates, e.g. once the session ended.
+     */
+    stopLive() {
+      if (live) {
+        live.stop();
+        store.isLive = false;
+      }
+    },
+
+    /**
+     * Reloads the lists and the private count from the server, e.g. after the live updates channel
+     * reconnected and may have missed changes.
+     */
+    async resync() {
+      await books.reload();
+    },
+
+    /**
+     * Applies the changes the other tabs share through the tab channel, as long as they are about the
+     * user this tab shows. Does nothing without a tab channel.
+     * @returns {() => void} Stops following the other tabs.
+     */
+    followOtherTabs(): () => void {
+      if (!tabChannel) {
+        return () => undefined;
+      }
+      return tabChannel.subscribe((message: string) => {
+        const event = decodeTabMessage(message, books.userId);
+        if (event) {
+          books.applyBookEvent(event);
+        }
+      });
+    }
+  });
+
+  books.events.addListener({
+    /**
+     * Tells the other tabs about a change the server confirmed, so they can apply it without refetching.
+     * Books without a server id (still queued) are not shared.
+     */
+    onConfirmed: (event: BookEvent) => {
+      if (!tabChannel || (event.type !== "deleted" && event.book.id === undefined)) {
+        return;
+      }
+      tabChannel.post(encodeTabMessage(books.userId, event));
+    }
+  });
+
+  return store;
+}
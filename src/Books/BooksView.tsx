@@ -1,7 +1,15 @@
-import React, { useState, ChangeEvent } from "react";
+import React, { useEffect, useState, ChangeEvent, FormEvent } from "react";
 import { observer } from "mobx-react";
-import { booksStore } from "./Books.controller";
-import { Book } from "./types";
+import { AddBookField } from "./Books.form";
+import { SyncConflict } from "./Books.offline";
+import { BookSortKey } from "./Books.query";
+import { ClearableBookField } from "./Books.repository";
+import { isReadingStatus, READING_STATUS_LABELS, READING_STATUSES, readingProgress } from "./Books.reading";
+import { SchemaIssue } from "../Shared/Schema";
+import { useBooksHistory, useBooksOffline, useBooksStore, useUiStore } from "../Root/StoreContext";
+import VirtualList from "../Shared/VirtualList/VirtualList";
+import BooksImportExport from "./BooksImportExport";
+import { Book, BookDetails, ReadingStatus } from "./types";
 
 interface StylesType {
   error: React.CSSProperties;
@@ -10,6 +18,19 @@ interface StylesType {
   button: React.CSSProperties;
   viewButtons: React.CSSProperties;
   activeButton: React.CSSProperties;
+  rowButton: React.CSSProperties;
+  rowInput: React.CSSProperties;
+  pendingRow: React.CSSProperties;
+  fieldError: React.CSSProperties;
+  outageBanner: React.CSSProperties;
+  dataWarning: React.CSSProperties;
+  bookDetails: React.CSSProperties;
+  cover: React.CSSProperties;
+  queryControls: React.CSSProperties;
+  privateBadge: React.CSSProperties;
+  duplicateWarning: React.CSSProperties;
+  toast: React.CSSProperties;
+  pageInput: React.CSSProperties;
 }
 
 const styles: StylesType = {
@@ -32,43 +53,534 @@ const styles: StylesType = {
   activeButton: {
       fontWeight: 'bold',
       textDecoration: 'underline'
+  },
+  rowButton: {
+    marginLeft: "5px",
+    fontSize: "0.8em",
+  },
+  rowInput: {
+    marginRight: "5px",
+  },
+  pendingRow: {
+    opacity: 0.5,
+    fontStyle: "italic",
+  },
+  fieldError: {
+    color: "red",
+    fontSize: "0.9em",
+    marginLeft: "5px",
+  },
+  outageBanner: {
+    padding: "10px",
+    marginTop: "10px",
+    backgroundColor: "#fff3cd",
+    border: "1px solid #e0c36c",
+  },
+  dataWarning: {
+    marginTop: "10px",
+    color: "#8a6d3b",
+    fontSize: "0.9em",
+  },
+  bookDetails: {
+    marginLeft: "5px",
+    fontSize: "0.85em",
+    color: "#666",
+  },
+  cover: {
+    height: "40px",
+    marginRight: "5px",
+    verticalAlign: "middle",
+  },
+  queryControls: {
+    marginBottom: "10px",
+  },
+  privateBadge: {
+    marginLeft: "5px",
+    padding: "0 4px",
+    fontSize: "0.75em",
+    color: "#fff",
+    backgroundColor: "#6c757d",
+    borderRadius: "3px",
+  },
+  duplicateWarning: {
+    padding: "10px",
+    margin: "10px 0",
+    backgroundColor: "#fff3cd",
+    border: "1px solid #e0c36c",
+  },
+  toast: {
+    position: "fixed",
+    bottom: "20px",
+    left: "50%",
+    transform: "translateX(-50%)",
+    padding: "10px 15px",
+    color: "#fff",
+    backgroundColor: "#333",
+    borderRadius: "4px",
+  },
+  pageInput: {
+    width: "60px",
+    marginRight: "5px",
+  },
+};
+
+/** Height of a book row; rows are virtualized, so they all have the same height */
+const ROW_HEIGHT = 48;
+/** Height of the scrolling book list */
+const LIST_HEIGHT = 480;
+/** How long the notice of the last change stays up */
+const TOAST_DURATION_MS = 5000;
+
+/**
+ * Whether a key press goes to a text field, which keeps its own undo.
+ */
+const isTextEntry = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].indexOf(target.tagName) !== -1);
+
+/**
+ * Undo and redo shortcuts: Ctrl+Z (Cmd+Z on macOS) undoes, Ctrl+Shift+Z or Ctrl+Y redoes.
+ */
+const historyShortcut = (e: KeyboardEvent): "undo" | "redo" | null => {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextEntry(e.target)) {
+    return null;
   }
+  const key = e.key.toLowerCase();
+  if (key === "z") {
+    return e.shiftKey ? "redo" : "undo";
+  }
+  return key === "y" ? "redo" : null;
+};
+
+/**
+ * Renders a rating as five stars; ratings from the server are clamped so bad data cannot break the row.
+ */
+const ratingStars = (rating: number): string => {
+  const filled = Math.max(0, Math.min(5, Math.round(rating)));
+  return "★".repeat(filled) + "☆".repeat(5 - filled);
 };
 
+/**
+ * Reads a page count typed into an edit input; undefined when blank.
+ */
+const pageNumber = (value: string): number | undefined => (value.trim() ? Number(value) : undefined);
+
 /**
  * View component for displaying the list of books and adding new books.
- * Observes the `booksStore` for state changes and renders the UI accordingly.
- * Contains local state only for the add book form inputs.
+ * Observes the books store from the `StoreProvider`, with its undo history and offline sync conflicts, and renders the UI accordingly;
+ * the add book form is backed by the UI store's `addBookForm`. Contains local state only for inline editing.
  * @component
  */
 const BooksView: React.FC = () => {
-  /** Local state for the new book name input */
-  const [newBookName, setNewBookName] = useState<string>("");
-  /** Local state for the new book author input */
-  const [newBookAuthor, setNewBookAuthor] = useState<string>("");
+  const booksStore = useBooksStore();
+  const history = useBooksHistory();
+  const offline = useBooksOffline();
+  const { addBookForm } = useUiStore();
+  /** Id of the book currently being edited inline, or null when no row is in edit mode */
+  const [editingBookId, setEditingBookId] = useState<number | null>(null);
+  /** Local state for the edited book name input */
+  const [editBookName, setEditBookName] = useState<string>("");
+  /** Local state for the edited book author input */
+  const [editBookAuthor, setEditBookAuthor] = useState<string>("");
+  /** Local state for the edited reading dates and pages, as typed */
+  const [editStartedAt, setEditStartedAt] = useState<string>("");
+  const [editFinishedAt, setEditFinishedAt] = useState<string>("");
+  const [editCurrentPage, setEditCurrentPage] = useState<string>("");
+  const [editTotalPages, setEditTotalPages] = useState<string>("");
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const action = historyShortcut(e);
+      if (action) {
+        e.preventDefault();
+        if (action === "undo") {
+          history.undo();
+        } else {
+          history.redo();
+        }
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [history]);
+
+  const toastMessage = history.toastMessage;
+  useEffect(() => {
+    if (!toastMessage) {
+      return undefined;
+    }
+    const timer = setTimeout(() => history.dismissToast(), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [history, toastMessage]);
+
+  /**
+   * Submits the add book form; the form model keeps the inputs unless the book is added.
+   */
+  const handleAddBook = (e: FormEvent<HTMLFormElement>): void => {
+    e.preventDefault();
+    addBookForm.submit();
+  };
+
+  /**
+   * Props wiring an add form input to the form model: its value, change and blur handlers,
+   * and the id and aria attributes that tie it to its label and error message.
+   */
+  const fieldProps = (field: AddBookField) => {
+    const hasError = addBookForm.fieldErrors[field] !== undefined;
+    return {
+      id: addBookForm.inputId(field),
+      value: addBookForm.values[field],
+      onChange: (e: ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) =>
+        addBookForm.setField(field, e.target.value),
+      onBlur: () => addBookForm.touch(field),
+      "aria-invalid": hasError,
+      "aria-describedby": hasError ? addBookForm.errorId(field) : undefined,
+    };
+  };
+
+  /**
+   * Renders the error message of an add form field, referenced by the input's `aria-describedby`.
+   */
+  const renderFieldError = (field: AddBookField): React.ReactNode => {
+    const message = addBookForm.fieldErrors[field];
+    if (!message) {
+      return null;
+    }
+    return (
+      <span id={addBookForm.errorId(field)} style={styles.fieldError}>
+        {message}
+      </span>
+    );
+  };
+
+  /**
+   * Puts a book row into edit mode, pre-filling the inputs with its current values.
+   */
+  const handleStartEdit = (book: Book): void => {
+    setEditingBookId(book.id === undefined ? null : book.id);
+    setEditBookName(book.name);
+    setEditBookAuthor(book.author);
+    setEditStartedAt(book.startedAt || "");
+    setEditFinishedAt(book.finishedAt || "");
+    setEditCurrentPage(book.currentPage === undefined ? "" : String(book.currentPage));
+    setEditTotalPages(book.totalPages === undefined ? "" : String(book.totalPages));
+  };
 
   /**
-   * Handles the click event for the Add Book button.
-   * Calls the controller's addBook method and clears the input fields.
+   * Leaves edit mode without saving.
    */
-  const handleAddBook = (): void => {
-    booksStore.addBook(newBookName, newBookAuthor);
-    setNewBookName("");
-    setNewBookAuthor("");
+  const handleCancelEdit = (): void => {
+    setEditingBookId(null);
   };
 
   /**
-   * Handles input change for the book name field
+   * Saves the edited fields through the controller and leaves edit mode. A reading date or page count
+   * the user blanked is sent as `null`, which removes it; blank ones the book never had are not sent.
    */
-  const handleNameChange = (e: ChangeEvent<HTMLInputElement>): void => {
-    setNewBookName(e.target.value);
+  const handleSaveEdit = (): void => {
+    if (editingBookId === null) {
+      return;
+    }
+    const editedBook = booksStore.books.find((book: Book) => book.id === editingBookId);
+    const orCleared = <K extends ClearableBookField>(value: BookDetails[K] | undefined, field: K): BookDetails[K] | null | undefined => {
+      if (value !== undefined || !editedBook || editedBook[field] === undefined) {
+        return value;
+      }
+      return null;
+    };
+    booksStore.updateBook(editingBookId, {
+      name: editBookName,
+      author: editBookAuthor,
+      startedAt: orCleared(editStartedAt || undefined, "startedAt"),
+      finishedAt: orCleared(editFinishedAt || undefined, "finishedAt"),
+      currentPage: orCleared(pageNumber(editCurrentPage), "currentPage"),
+      totalPages: orCleared(pageNumber(editTotalPages), "totalPages"),
+    });
+    setEditingBookId(null);
   };
 
   /**
-   * Handles input change for the book author field
+   * Deletes a book through the controller after asking the user to confirm.
    */
-  const handleAuthorChange = (e: ChangeEvent<HTMLInputElement>): void => {
-    setNewBookAuthor(e.target.value);
+  const handleDeleteBook = (book: Book): void => {
+    if (book.id === undefined) {
+      return;
+    }
+    if (window.confirm(`Delete "${book.name}"?`)) {
+      booksStore.deleteBook(book.id);
+    }
+  };
+
+  /**
+   * Moves a book onto or off the private shelf through the controller.
+   */
+  const handleTogglePrivate = (book: Book, isPrivate: boolean): void => {
+    if (book.id !== undefined) {
+      booksStore.setBookPrivate(book.id, isPrivate);
+    }
+  };
+
+  /**
+   * Moves a book to the reading status picked in its row through the controller.
+   */
+  const handleStatusChange = (book: Book, status: string): void => {
+    if (book.id !== undefined && isReadingStatus(status)) {
+      booksStore.setReadingStatus(book.id, status);
+    }
+  };
+
+  /**
+   * Renders a single book row, either read-only with edit/delete controls or as inline inputs.
+   */
+  const renderBook = (book: Book, i: number): React.ReactElement => {
+    if (book.id !== undefined && book.id === editingBookId) {
+      return (
+        <div key={book.id}>
+          <input
+            type="text"
+            value={editBookAuthor}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => setEditBookAuthor(e.target.value)}
+            style={styles.rowInput}
+            aria-label="Author"
+          />
+          <input
+            type="text"
+            value={editBookName}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => setEditBookName(e.target.value)}
+            style={styles.rowInput}
+            aria-label="Name"
+          />
+          <input
+            type="date"
+            value={editStartedAt}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => setEditStartedAt(e.target.value)}
+            style={styles.rowInput}
+            aria-label="Started"
+          />
+          <input
+            type="date"
+            value={editFinishedAt}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => setEditFinishedAt(e.target.value)}
+            style={styles.rowInput}
+            aria-label="Finished"
+          />
+          <input
+            type="number"
+            min={0}
+            value={editCurrentPage}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => setEditCurrentPage(e.target.value)}
+            style={styles.pageInput}
+            aria-label="Current page"
+          />
+          <input
+            type="number"
+            min={1}
+            value={editTotalPages}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => setEditTotalPages(e.target.value)}
+            style={styles.pageInput}
+            aria-label="Total pages"
+          />
+          <button onClick={handleSaveEdit} disabled={booksStore.isLoading} style={styles.rowButton}>
+            Save
+          </button>
+          <button onClick={handleCancelEdit} style={styles.rowButton}>
+            Cancel
+          </button>
+        </div>
+      );
+    }
+
+    const isPending = booksStore.isBookPending(book);
+    const isPrivate = booksStore.isBookPrivate(book);
+    const progress = readingProgress(book);
+
+    return (
+      <div key={book.id || i} style={isPending ? styles.pendingRow : undefined}>
+        {book.coverUrl && <img src={book.coverUrl} alt="" style={styles.cover} />}
+        {book.author}: {book.name}
+        {isPrivate && booksStore.viewType !== "private" && <span style={styles.privateBadge}>Private</span>}
+        {book.year !== undefined && ` (${book.year})`}
+        {book.rating !== undefined && (
+          <span style={styles.bookDetails} aria-label={`Rated ${book.rating} of 5`}>
+            {ratingStars(book.rating)}
+          </span>
+        )}
+        {book.genres && book.genres.length > 0 && <span style={styles.bookDetails}>[{book.genres.join(", ")}]</span>}
+        {book.isbn && <span style={styles.bookDetails}>ISBN {book.isbn}</span>}
+        {book.notes && <span style={styles.bookDetails} title={book.notes}>Notes</span>}
+        {progress !== null && (
+          <span style={styles.bookDetails}>p. {book.currentPage}/{book.totalPages} ({progress}%)</span>
+        )}
+        {(book.startedAt || book.finishedAt) && (
+          <span style={styles.bookDetails}>{book.startedAt || "…"} – {book.finishedAt || "…"}</span>
+        )}
+        {isPending && (booksStore.isOnline ? " (saving...)" : " (waiting for connection)")}
+        {book.id !== undefined && !isPending && (
+          <>
+            <select
+              value={book.status || ""}
+              onChange={(e: ChangeEvent<HTMLSelectElement>) => handleStatusChange(book, e.target.value)}
+              disabled={booksStore.isLoading}
+              style={styles.rowButton}
+              aria-label={`Reading status of ${book.name}`}
+            >
+              {!book.status && <option value="">No status</option>}
+              {READING_STATUSES.map((status: ReadingStatus) => (
+                <option key={status} value={status}>{READING_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+            <button onClick={() => handleStartEdit(book)} disabled={booksStore.isLoading} style={styles.rowButton}>
+              Edit
+            </button>
+            <button
+              onClick={() => handleTogglePrivate(book, !isPrivate)}
+              disabled={booksStore.isLoading}
+              style={styles.rowButton}
+            >
+              {isPrivate ? "Make public" : "Make private"}
+            </button>
+            <button onClick={() => handleDeleteBook(book)} disabled={booksStore.isLoading} style={styles.rowButton}>
+              Delete
+            </button>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  /**
+   * Renders the search box, author filter and sort controls bound to the store query.
+   */
+  const renderQueryControls = (): React.ReactElement => (
+    <div style={styles.queryControls}>
+      <input
+        type="search"
+        placeholder="Search by name or author"
+        value={booksStore.query.search}
+        onChange={(e: ChangeEvent<HTMLInputElement>) => booksStore.setSearch(e.target.value)}
+        aria-label="Search books"
+      />
+      <select
+        value={booksStore.query.author === null ? "" : booksStore.query.author}
+        onChange={(e: ChangeEvent<HTMLSelectElement>) => booksStore.setAuthorFilter(e.target.value || null)}
+        style={styles.button}
+        aria-label="Filter by author"
+      >
+        <option value="">All authors</option>
+        {booksStore.authors.map((author: string) => (
+          <option key={author} value={author}>{author}</option>
+        ))}
+      </select>
+      <select
+        value={booksStore.query.sortKey === null ? "" : booksStore.query.sortKey}
+        onChange={(e: ChangeEvent<HTMLSelectElement>) =>
+          booksStore.setSort(e.target.value ? (e.target.value as BookSortKey) : null, booksStore.query.sortDirection)
+        }
+        style={styles.button}
+        aria-label="Sort by"
+      >
+        <option value="">Server order</option>
+        <option value="name">Name</option>
+        <option value="author">Author</option>
+        <option value="year">Year</option>
+        <option value="rating">Rating</option>
+      </select>
+      <button
+        onClick={() =>
+          booksStore.setSort(booksStore.query.sortKey, booksStore.query.sortDirection === "asc" ? "desc" : "asc")
+        }
+        disabled={booksStore.query.sortKey === null}
+        style={styles.button}
+        aria-label="Toggle sort direction"
+      >
+        {booksStore.query.sortDirection === "asc" ? "↑" : "↓"}
+      </button>
+    </div>
+  );
+
+  /**
+   * Renders the end of the list: progress while the next page loads, or a button to load it
+   * for when scrolling is not an option (e.g. keyboard users).
+   */
+  const renderListFooter = (): React.ReactNode => {
+    if (booksStore.isLoadingMore) {
+      return <div style={styles.loading}>Loading more books...</div>;
+    }
+    if (booksStore.hasMore) {
+      return (
+        <button onClick={() => booksStore.loadMoreBooks()} style={styles.loading}>
+          Load more
+        </button>
+      );
+    }
+    return null;
+  };
+
+  const error = booksStore.error;
+
+  /**
+   * Renders the current store error: a retry banner for outages, nothing for an unreadable
+   * import file (shown next to the file input), and a plain message otherwise.
+   */
+  const renderError = (): React.ReactNode => {
+    if (!error || (error.kind === "validation" && error.fieldErrors.importFile !== undefined)) {
+      return null;
+    }
+    if (error.kind === "outage") {
+      return (
+        <div style={styles.outageBanner} role="alert">
+          The books service is not reachable right now ({error.message}).
+          <button onClick={() => booksStore.retry()} disabled={booksStore.isLoading} style={styles.button}>
+            Retry
+          </button>
+        </div>
+      );
+    }
+    return <div style={styles.error} role="alert">Error: {error.message}</div>;
+  };
+
+  /**
+   * Renders the warning for a book held back as a likely duplicate, showing the listed book it
+   * matches and letting the user add it anyway or drop it.
+   */
+  const renderDuplicateWarning = (): React.ReactNode => {
+    const warning = booksStore.duplicateWarning;
+    if (!warning) {
+      return null;
+    }
+    const existing = warning.match.book;
+    return (
+      <div style={styles.duplicateWarning} role="alert">
+        "{warning.name}" by {warning.author} looks like "{existing.name}" by {existing.author}
+        {warning.match.reason === "isbn" ? ", which has the same ISBN," : ""} already on your list.
+        <button onClick={() => addBookForm.confirmDuplicate()} disabled={addBookForm.isSubmitting} style={styles.button}>
+          Add anyway
+        </button>
+        <button onClick={() => booksStore.dismissDuplicate()} style={styles.button}>
+          Cancel
+        </button>
+      </div>
+    );
+  };
+
+  /**
+   * Renders the notice of the last change with a button to undo it.
+   */
+  const renderToast = (): React.ReactNode => {
+    if (!toastMessage) {
+      return null;
+    }
+    return (
+      <div style={styles.toast} role="status">
+        {toastMessage}
+        <button onClick={() => history.undo()} disabled={!history.canUndo} style={styles.button}>
+          Undo
+        </button>
+        <button onClick={() => history.dismissToast()} aria-label="Dismiss" style={styles.button}>
+          ×
+        </button>
+      </div>
+    );
   };
 
   return (
@@ -88,44 +600,150 @@ const BooksView: React.FC = () => {
         >
           Private Books
         </button>
+        {READING_STATUSES.map((status: ReadingStatus) => (
+          <button
+            key={status}
+            onClick={() => booksStore.setViewType(status)}
+            style={booksStore.viewType === status ? { ...styles.button, ...styles.activeButton } : styles.button}
+          >
+            {READING_STATUS_LABELS[status]}
+          </button>
+        ))}
+        <button
+          onClick={() => history.undo()}
+          disabled={!history.canUndo}
+          title="Undo (Ctrl+Z)"
+          aria-keyshortcuts="Control+Z Meta+Z"
+          style={styles.button}
+        >
+          Undo
+        </button>
+        <button
+          onClick={() => history.redo()}
+          disabled={!history.canRedo}
+          title="Redo (Ctrl+Shift+Z)"
+          aria-keyshortcuts="Control+Shift+Z Meta+Shift+Z Control+Y"
+          style={styles.button}
+        >
+          Redo
+        </button>
       </div>
 
       {booksStore.isLoading && <div style={styles.loading}>Loading books...</div>}
-      {booksStore.error && <div style={styles.error}>Error: {booksStore.error}</div>}
-      {!booksStore.isLoading && !booksStore.error && (
+      {booksStore.isRefreshing && <div style={styles.loading}>Refreshing...</div>}
+      {renderError()}
+      {offline.syncConflicts.map((conflict: SyncConflict) => (
+        <div key={conflict.book.tempId} style={styles.error} role="alert">
+          "{conflict.book.name}" by {conflict.book.author} could not be synced: {conflict.message}
+          <button onClick={() => offline.dismissSyncConflict(conflict)} style={styles.rowButton}>
+            Dismiss
+          </button>
+        </div>
+      ))}
+      {booksStore.responseIssues.length > 0 && (
+        <details style={styles.dataWarning}>
+          <summary>Some entries sent by the server were malformed and are not shown.</summary>
+          <ul>
+            {booksStore.responseIssues.map((issue: SchemaIssue, i: number) => (
+              <li key={i}>{issue.path ? `${issue.path}: ` : ""}{issue.message}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {!booksStore.isLoading && (
         <>
+          {booksStore.books.length > 0 && renderQueryControls()}
           {booksStore.books.length === 0 ? (
-            <div>No books found.</div>
+            !booksStore.error && <div>No books found.</div>
+          ) : booksStore.visibleBooks.length === 0 ? (
+            <>
+              <div>{isReadingStatus(booksStore.viewType) ? "No loaded books match this view." : "No books match your search."}</div>
+              {renderListFooter()}
+            </>
           ) : (
-            booksStore.books.map((book: Book, i: number) => (
-              <div key={book.id || i}>
-                {book.author}: {book.name}
-              </div>
-            ))
+            <VirtualList
+              items={booksStore.visibleBooks}
+              rowHeight={ROW_HEIGHT}
+              height={LIST_HEIGHT}
+              renderItem={renderBook}
+              getKey={(book: Book, i: number) => (book.id === undefined ? `index-${i}` : book.id)}
+              onEndReached={() => booksStore.loadMoreBooks()}
+              footer={renderListFooter()}
+            />
           )}
         </>
       )}
 
-      <h3>Add New Book</h3>
-      <div style={styles.inputGroup}>
-        <label>Name: </label>
-        <input
-          type="text"
-          value={newBookName}
-          onChange={handleNameChange}
-        />
-      </div>
-      <div style={styles.inputGroup}>
-        <label>Author: </label>
-        <input
-          type="text"
-          value={newBookAuthor}
-          onChange={handleAuthorChange}
-        />
-      </div>
-      <button onClick={handleAddBook} disabled={booksStore.isLoading} style={styles.button}>
-        Add Book
-      </button>
+      <h3 id="add-book-heading">Add New Book</h3>
+      <form onSubmit={handleAddBook} noValidate aria-labelledby="add-book-heading">
+        <div style={styles.inputGroup}>
+          <label htmlFor={addBookForm.inputId("name")}>Name: </label>
+          <input type="text" aria-required {...fieldProps("name")} />
+          {renderFieldError("name")}
+        </div>
+        <div style={styles.inputGroup}>
+          <label htmlFor={addBookForm.inputId("author")}>Author: </label>
+          <input type="text" aria-required {...fieldProps("author")} />
+          {renderFieldError("author")}
+        </div>
+        <div style={styles.inputGroup}>
+          <label htmlFor={addBookForm.inputId("isbn")}>ISBN: </label>
+          <input type="text" {...fieldProps("isbn")} />
+          {renderFieldError("isbn")}
+        </div>
+        <div style={styles.inputGroup}>
+          <label htmlFor={addBookForm.inputId("year")}>Year: </label>
+          <input type="number" {...fieldProps("year")} />
+          {renderFieldError("year")}
+        </div>
+        <div style={styles.inputGroup}>
+          <label htmlFor={addBookForm.inputId("genres")}>Genres: </label>
+          <input type="text" placeholder="Comma-separated" {...fieldProps("genres")} />
+          {renderFieldError("genres")}
+        </div>
+        <div style={styles.inputGroup}>
+          <label htmlFor={addBookForm.inputId("coverUrl")}>Cover URL: </label>
+          <input type="url" {...fieldProps("coverUrl")} />
+          {renderFieldError("coverUrl")}
+        </div>
+        <div style={styles.inputGroup}>
+          <label htmlFor={addBookForm.inputId("rating")}>Rating: </label>
+          <select {...fieldProps("rating")}>
+            <option value="">-</option>
+            {[1, 2, 3, 4, 5].map((rating: number) => (
+              <option key={rating} value={rating}>{rating}</option>
+            ))}
+          </select>
+          {renderFieldError("rating")}
+        </div>
+        <div style={styles.inputGroup}>
+          <label htmlFor={addBookForm.inputId("notes")}>Notes: </label>
+          <textarea {...fieldProps("notes")} />
+          {renderFieldError("notes")}
+        </div>
+        <div style={styles.inputGroup}>
+          <label>
+            <input
+              type="checkbox"
+              checked={addBookForm.values.isPrivate}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => addBookForm.setPrivate(e.target.checked)}
+            />
+            {" "}Add as private
+          </label>
+        </div>
+        <button
+          type="submit"
+          disabled={booksStore.isLoading || addBookForm.isSubmitting}
+          aria-busy={addBookForm.isSubmitting}
+          style={styles.button}
+        >
+          {addBookForm.isSubmitting ? "Adding..." : "Add Book"}
+        </button>
+      </form>
+      {renderDuplicateWarning()}
+
+      <BooksImportExport />
+      {renderToast()}
     </div>
   );
 };
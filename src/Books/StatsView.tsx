@@ -0,0 +1,140 @@
+import React from "react";
+import { observer } from "mobx-react";
+import { useBooksStore } from "../Root/StoreContext";
+import BarChart from "../Shared/Charts/BarChart";
+import RatioChart from "../Shared/Charts/RatioChart";
+import { AuthorCount, computeBookStats, PeriodCount } from "./Books.stats";
+
+interface StylesType {
+  section: React.CSSProperties;
+  summary: React.CSSProperties;
+  note: React.CSSProperties;
+  chartScroll: React.CSSProperties;
+  button: React.CSSProperties;
+}
+
+const styles: StylesType = {
+  section: {
+    margin: "20px 0",
+  },
+  summary: {
+    display: "flex",
+    gap: "30px",
+    margin: "10px 0",
+  },
+  note: {
+    color: "#666",
+    fontSize: "0.9em",
+  },
+  chartScroll: {
+    overflowX: "auto",
+  },
+  button: {
+    marginLeft: "5px",
+  },
+};
+
+/** Number of authors charted; the rest are left out */
+const TOP_AUTHORS = 10;
+/** Number of most recent months charted */
+const CHART_MONTHS = 24;
+
+/**
+ * Turns period counts into bars.
+ */
+const periodBars = (counts: PeriodCount[]) => counts.map((entry: PeriodCount) => ({ label: entry.period, value: entry.count }));
+
+/**
+ * View component for the reading statistics of the loaded books: counts per author, books finished
+ * per month and per year, the average rating, the private/public split and the longest reading streak.
+ * The figures come from `computeBookStats` over the books store's `viewBooks`, so they follow the
+ * view picked on the book list (ignoring its search and filters), and only cover the pages of it that are loaded.
+ * @component
+ */
+const StatsView: React.FC = () => {
+  const booksStore = useBooksStore();
+  const stats = computeBookStats(booksStore.viewBooks, booksStore.privateBookIds);
+  const streak = stats.longestStreak;
+
+  return (
+    <div>
+      <h2>Reading statistics</h2>
+      <p style={styles.note}>
+        Based on the {stats.total} loaded {stats.total === 1 ? "book" : "books"} of the current view.
+        {booksStore.hasMore && (
+          <button onClick={() => booksStore.loadMoreBooks()} disabled={booksStore.isLoadingMore} style={styles.button}>
+            Load more
+          </button>
+        )}
+      </p>
+
+      <div style={styles.summary}>
+        <div>
+          <strong>{stats.finishedCount}</strong> finished
+        </div>
+        <div>
+          Average rating:{" "}
+          <strong>{stats.averageRating === null ? "–" : stats.averageRating.toFixed(1)}</strong>
+          {stats.ratedCount > 0 && <span style={styles.note}> ({stats.ratedCount} rated)</span>}
+        </div>
+        <div>
+          Longest reading streak:{" "}
+          {streak ? (
+            <>
+              <strong>{streak.days} {streak.days === 1 ? "day" : "days"}</strong>
+              <span style={styles.note}> ({streak.from} – {streak.to})</span>
+            </>
+          ) : (
+            "–"
+          )}
+        </div>
+      </div>
+
+      <section style={styles.section}>
+        <h3>Books per author</h3>
+        <BarChart
+          title="Books per author"
+          data={stats.authorCounts.slice(0, TOP_AUTHORS).map((entry: AuthorCount) => ({ label: entry.author, value: entry.count }))}
+        />
+        {stats.authorCounts.length > TOP_AUTHORS && (
+          <div style={styles.note}>and {stats.authorCounts.length - TOP_AUTHORS} more authors</div>
+        )}
+      </section>
+
+      <section style={styles.section}>
+        <h3>Finished per month</h3>
+        {stats.finishedPerMonth.length ? (
+          <div style={styles.chartScroll}>
+            <BarChart
+              title="Books finished per month"
+              orientation="vertical"
+              data={periodBars(stats.finishedPerMonth.slice(-CHART_MONTHS))}
+            />
+          </div>
+        ) : (
+          <div style={styles.note}>No finished books with a finish date yet.</div>
+        )}
+      </section>
+
+      {stats.finishedPerYear.length > 0 && (
+        <section style={styles.section}>
+          <h3>Finished per year</h3>
+          <BarChart title="Books finished per year" orientation="vertical" width={200} data={periodBars(stats.finishedPerYear)} />
+        </section>
+      )}
+
+      <section style={styles.section}>
+        <h3>Private and public</h3>
+        <RatioChart
+          title="Private and public books"
+          slices={[
+            { label: "Private", value: stats.privateCount, color: "#6c757d" },
+            { label: "Public", value: stats.publicCount, color: "#4a7ab5" },
+          ]}
+        />
+      </section>
+    </div>
+  );
+};
+
+export default observer(StatsView);
@@ -1,24 +1,19 @@
 import { runInAction } from 'mobx';
 import { createBooksStore, BooksStore, BooksRepository } from '../Books.controller';
+import { PageRequest } from '../Books.repository';
 import { Book } from '../types';
+import { createQueryCache } from '../../Shared/QueryCache';
+import { createMemoryStorage, KeyValueStorage } from '../../Shared/PersistentStorage';
+import { createOfflineBooksStorage } from '../Books.offline';
+import { toIsoDate } from '../Books.reading';
+import { NetworkError, RequestCancelledError, ServerError, ValidationError } from '../../Shared/ApiError';
+import { createUserSession, UserSession } from '../../Shared/UserSession';
+import { deferred, mockConsole } from '../../Shared/testing';
+import { createMockBooksRepository } from '../Books.testing';
 
-// Mock console methods
-const originalConsole = {
-  error: console.error,
-  debug: console.debug
-};
+mockConsole('error', 'debug');
 
-beforeAll(() => {
-  // Mock console methods
-  console.error = jest.fn();
-  console.debug = jest.fn();
-});
-
-afterAll(() => {
-  // Restore original console methods
-  console.error = originalConsole.error;
-  console.debug = originalConsole.debug;
-});
+const USER_ID = 'alice';
 
 // Sample book data for tests
 const allBooksSample: Book[] = [
@@ -36,20 +31,19 @@ const privateBooksSample: Book[] = [
 ];
 
 // Mock repository for tests
-const createMockRepository = (): BooksRepository => ({
-  getBooks: jest.fn().mockResolvedValue(allBooksSample),
-  getPrivateBooks: jest.fn().mockResolvedValue(privateBooksSample),
-  addBook: jest.fn().mockResolvedValue(true),
-});
+const createMockRepository = (): BooksRepository => createMockBooksRepository({ books: allBooksSample, privateBooks: privateBooksSample });
 
 describe('Books Controller', () => {
   let store: BooksStore;
   let mockRepository: BooksRepository;
 
+  let session: UserSession;
+
   beforeEach(() => {
     // Reset mocks and create fresh store for each test
     mockRepository = createMockRepository();
-    store = createBooksStore(mockRepository);
+    session = createUserSession(USER_ID);
+    store = createBooksStore(mockRepository, { session });
     jest.clearAllMocks();
   });
 
@@ -97,12 +91,77 @@ describe('Books Controller', () => {
       await store.loadBooks();
 
       // Expectations
-      expect(store.error).toBe('Network Error');
+      expect(store.errorMessage).toBe('Network Error');
       expect(store.isLoading).toBe(false);
       expect(store.books).toEqual([]);
       expect(console.error).toHaveBeenCalledWith('Failed to load books:', error);
     });
 
+    it('should classify network and server failures as outages', async () => {
+      const requestDetails = { url: 'https://api.test/', method: 'GET' };
+      jest.spyOn(mockRepository, 'getBooks')
+        .mockRejectedValueOnce(new NetworkError({ ...requestDetails, status: null }, new TypeError('Failed to fetch')))
+        .mockRejectedValueOnce(new ServerError('HTTP error 503', { ...requestDetails, status: 503 }));
+
+      await store.loadBooks();
+      expect(store.error).toEqual({ kind: 'outage', message: 'Failed to fetch', fieldErrors: {}, status: null });
+
+      await store.loadBooks();
+      expect(store.error).toEqual({ kind: 'outage', message: 'HTTP error 503', fieldErrors: {}, status: 503 });
+    });
+
+    it('should let the last requested view win when an older response arrives late', async () => {
+      const slowAllBooks = deferred<Book[]>();
+      jest.spyOn(mockRepository, 'getBooks').mockReturnValueOnce(slowAllBooks.promise);
+
+      // Start loading "all", then switch to "private" before it answers
+      const firstLoad = store.loadBooks();
+      store.setViewType('private');
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(store.books).toEqual(privateBooksSample);
+
+      // The stale "all" response must not overwrite the private list
+      slowAllBooks.resolve(allBooksSample);
+      await firstLoad;
+
+      expect(store.viewType).toBe('private');
+      expect(store.books).toEqual(privateBooksSample);
+      expect(store.isLoading).toBe(false);
+    });
+
+    it('should abort the in-flight request when a new load starts', async () => {
+      const slowAllBooks = deferred<Book[]>();
+      jest.spyOn(mockRepository, 'getBooks').mockReturnValueOnce(slowAllBooks.promise);
+
+      const firstLoad = store.loadBooks();
+      const firstSignal = (mockRepository.getBooks as jest.Mock).mock.calls[0][0] as AbortSignal;
+      expect(firstSignal.aborted).toBe(false);
+
+      const secondLoad = store.loadBooks();
+      expect(firstSignal.aborted).toBe(true);
+
+      // A cancelled request is not reported as an error
+      slowAllBooks.reject(new RequestCancelledError({ status: null, url: 'https://api.test/', method: 'GET' }));
+      await Promise.all([firstLoad, secondLoad]);
+
+      expect(store.error).toBeNull();
+      expect(store.books).toEqual(allBooksSample);
+      expect(console.error).not.toHaveBeenCalled();
+    });
+
+    it('should ignore a stale failure after a newer load succeeded', async () => {
+      const slowAllBooks = deferred<Book[]>();
+      jest.spyOn(mockRepository, 'getBooks').mockReturnValueOnce(slowAllBooks.promise);
+
+      const firstLoad = store.loadBooks();
+      await store.loadBooks();
+      slowAllBooks.reject(new Error('Network Error'));
+      await firstLoad;
+
+      expect(store.error).toBeNull();
+      expect(store.books).toEqual(allBooksSample);
+    });
+
     it('should handle non-array API responses', async () => {
       // Mock the repository to return non-array
       jest.spyOn(mockRepository, 'getBooks').mockResolvedValueOnce(null as any);
@@ -116,6 +175,132 @@ describe('Books Controller', () => {
     });
   });
 
+  describe('responseIssues', () => {
+    const issues = [{ path: '[1].name', message: 'Expected a string, got undefined' }];
+
+    it('should expose the malformed entries reported for the current list', async () => {
+      (mockRepository.getBooks as jest.Mock).mockImplementationOnce((signal, onIssues) => {
+        onIssues(issues);
+        return Promise.resolve(allBooksSample);
+      });
+
+      await store.loadBooks();
+
+      expect(store.responseIssues).toEqual(issues);
+    });
+
+    it('should track the issues of each list separately', async () => {
+      (mockRepository.getBooks as jest.Mock).mockImplementationOnce((signal, onIssues) => {
+        onIssues(issues);
+        return Promise.resolve(allBooksSample);
+      });
+
+      await store.loadBooks();
+      store.setViewType('private');
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(store.responseIssues).toEqual([]);
+
+      store.setViewType('all');
+      // Served from the cache with the issues of that response
+      expect(store.responseIssues).toEqual(issues);
+    });
+  });
+
+  describe('loadMoreBooks', () => {
+    const library: Book[] = [1, 2, 3, 4, 5].map((id: number) => ({ id, name: `Book ${id}`, author: `Author ${id}` }));
+    const ids = () => store.books.map((book: Book) => book.id);
+
+    beforeEach(() => {
+      (mockRepository.getBooks as jest.Mock).mockImplementation(
+        (signal?: AbortSignal, onIssues?: unknown, page?: PageRequest) =>
+          Promise.resolve(page ? library.slice((page.page - 1) * page.limit, page.page * page.limit) : library)
+      );
+      store = createBooksStore(mockRepository, { session, pageSize: 2 });
+    });
+
+    it('should load the first page and append the next ones until a page is short', async () => {
+      await store.loadBooks();
+
+      expect(mockRepository.getBooks).toHaveBeenCalledWith(expect.anything(), expect.any(Function), { page: 1, limit: 2 });
+      expect(ids()).toEqual([1, 2]);
+      expect(store.hasMore).toBe(true);
+
+      await store.loadMoreBooks();
+      expect(ids()).toEqual([1, 2, 3, 4]);
+      expect(store.page).toBe(2);
+      expect(store.hasMore).toBe(true);
+
+      await store.loadMoreBooks();
+      expect(ids()).toEqual([1, 2, 3, 4, 5]);
+      expect(store.hasMore).toBe(false);
+
+      await store.loadMoreBooks();
+      expect(mockRepository.getBooks).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not list a book twice when pages shift', async () => {
+      await store.loadBooks();
+      // Book 1 was deleted on the server, so book 3 moved to the first page and book 4 to the second
+      (mockRepository.getBooks as jest.Mock).mockResolvedValueOnce([library[2], library[3]]);
+
+      await store.loadMoreBooks();
+
+      expect(ids()).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should keep the loaded pages when switching views within the cache TTL', async () => {
+      await store.loadBooks();
+      await store.loadMoreBooks();
+
+      store.setViewType('private');
+      store.setViewType('all');
+      await Promise.resolve();
+
+      expect(ids()).toEqual([1, 2, 3, 4]);
+      expect(store.page).toBe(2);
+      expect(store.hasMore).toBe(true);
+    });
+
+    it('should not load pages in the private view', async () => {
+      runInAction(() => {
+        store.viewType = 'private';
+      });
+      await store.loadBooks();
+
+      await store.loadMoreBooks();
+
+      expect(store.hasMore).toBe(false);
+      expect(mockRepository.getBooks).not.toHaveBeenCalled();
+    });
+
+    it('should drop a page that arrives after the list started over', async () => {
+      await store.loadBooks();
+      const nextPage = deferred<Book[]>();
+      (mockRepository.getBooks as jest.Mock).mockReturnValueOnce(nextPage.promise);
+
+      const loadingMore = store.loadMoreBooks();
+      expect(store.isLoadingMore).toBe(true);
+      await store.switchUser('bob');
+      nextPage.resolve([library[2], library[3]]);
+      await loadingMore;
+
+      expect(ids()).toEqual([1, 2]);
+      expect(store.page).toBe(1);
+    });
+
+    it('should keep the loaded books and report an error when a page fails', async () => {
+      await store.loadBooks();
+      (mockRepository.getBooks as jest.Mock).mockRejectedValueOnce(new ServerError('HTTP error 503', { status: 503, url: 'https://api.test/', method: 'GET' }));
+
+      await store.loadMoreBooks();
+
+      expect(ids()).toEqual([1, 2]);
+      expect(store.error).toMatchObject({ kind: 'outage' });
+      expect(store.isLoadingMore).toBe(false);
+      expect(store.hasMore).toBe(true);
+    });
+  });
+
   describe('loadPrivateBooksCount', () => {
     it('should load private books count based on API response length', async () => {
       // Setup mock to return a specific number of private books
@@ -160,7 +345,7 @@ describe('Books Controller', () => {
   });
 
   describe('addBook', () => {
-    it('should add a book successfully', async () => {
+    it('should add a book successfully without reloading the list', async () => {
       // Mock loadBooks and loadPrivateBooksCount to avoid testing them again
       jest.spyOn(store, 'loadBooks').mockResolvedValueOnce();
       jest.spyOn(store, 'loadPrivateBooksCount').mockResolvedValueOnce();
@@ -172,18 +357,100 @@ describe('Books Controller', () => {
       expect(mockRepository.addBook).toHaveBeenCalledWith({
         name: 'New Book',
         author: 'New Author'
-      });
-      expect(store.loadBooks).toHaveBeenCalledTimes(1);
+      }, false);
+      expect(store.books).toEqual([{ id: 100, name: 'New Book', author: 'New Author' }]);
+      expect(store.pendingBookIds).toEqual([]);
+      expect(store.loadBooks).not.toHaveBeenCalled();
       expect(store.loadPrivateBooksCount).toHaveBeenCalledTimes(1);
       expect(store.isLoading).toBe(false);
       expect(store.error).toBeNull();
     });
 
+    it('should send the normalized details along with the book', async () => {
+      jest.spyOn(mockRepository, 'addBook').mockImplementationOnce((bookData) => Promise.resolve({ ...bookData, id: 100 }));
+
+      await store.addBook('New Book', 'New Author', { isbn: '978-0-306-40615-7', year: 2001, genres: [' Fantasy ', ''], notes: '' });
+
+      expect(mockRepository.addBook).toHaveBeenCalledWith({
+        name: 'New Book',
+        author: 'New Author',
+        isbn: '9780306406157',
+        year: 2001,
+        genres: ['Fantasy'],
+      }, false);
+      expect(store.books[0]).toMatchObject({ id: 100, isbn: '9780306406157', genres: ['Fantasy'] });
+    });
+
+    it('should trim the name and author and report whether the book was added', async () => {
+      await expect(store.addBook('  New Book ', ' New Author\t')).resolves.toBe(true);
+
+      expect(mockRepository.addBook).toHaveBeenCalledWith({ name: 'New Book', author: 'New Author' }, false);
+      await expect(store.addBook('   ', 'New Author')).resolves.toBe(false);
+      expect(store.error).toMatchObject({ kind: 'validation', fieldErrors: { name: 'Book name cannot be empty.' } });
+    });
+
+    it('should reject a name or author that is too long or has disallowed characters', async () => {
+      await expect(store.addBook('x'.repeat(201), 'A <b>bold</b> author')).resolves.toBe(false);
+
+      expect(mockRepository.addBook).not.toHaveBeenCalled();
+      expect(store.error).toMatchObject({
+        kind: 'validation',
+        fieldErrors: { name: expect.stringContaining('longer than'), author: expect.stringContaining('< or >') },
+      });
+    });
+
+    it('should not add a book with invalid details and report them per field', async () => {
+      await store.addBook('New Book', 'New Author', { isbn: '978-0-306-40615-8', rating: 6 });
+
+      expect(mockRepository.addBook).not.toHaveBeenCalled();
+      expect(store.error).toMatchObject({
+        kind: 'validation',
+        message: 'Some book details are invalid.',
+        fieldErrors: { isbn: expect.any(String), rating: expect.any(String) },
+      });
+    });
+
+    it('should show the book as pending before the server responds', async () => {
+      let resolveAdd: (book: Book | null) => void = () => undefined;
+      jest.spyOn(mockRepository, 'addBook').mockReturnValueOnce(
+        new Promise<Book | null>(resolve => {
+          resolveAdd = resolve;
+        })
+      );
+
+      const adding = store.addBook('New Book', 'New Author');
+
+      // The book is visible right away, marked as pending with a temporary id
+      expect(store.books).toHaveLength(1);
+      const pendingBook = store.books[0];
+      expect(pendingBook.name).toBe('New Book');
+      expect(pendingBook.id).toBeLessThan(0);
+      expect(store.isBookPending(pendingBook)).toBe(true);
+
+      resolveAdd({ id: 100, name: 'New Book', author: 'New Author' });
+      await adding;
+
+      // The temporary id is replaced with the server-assigned one
+      expect(store.books).toEqual([{ id: 100, name: 'New Book', author: 'New Author' }]);
+      expect(store.isBookPending(store.books[0])).toBe(false);
+    });
+
+    it('should not insert a pending book into the private view', async () => {
+      runInAction(() => {
+        store.viewType = 'private';
+        store.books = privateBooksSample.slice();
+      });
+
+      await store.addBook('New Book', 'New Author');
+
+      expect(store.books).toEqual(privateBooksSample);
+    });
+
     it('should validate book name and author', async () => {
       // Call with empty name
       await store.addBook('', 'Author');
       expect(mockRepository.addBook).not.toHaveBeenCalled();
-      expect(store.error).toBe('Book name and author cannot be empty.');
+      expect(store.errorMessage).toBe('Book name and author cannot be empty.');
 
       // Reset error
       runInAction(() => {
@@ -193,7 +460,39 @@ describe('Books Controller', () => {
       // Call with empty author
       await store.addBook('Name', '');
       expect(mockRepository.addBook).not.toHaveBeenCalled();
-      expect(store.error).toBe('Book name and author cannot be empty.');
+      expect(store.errorMessage).toBe('Book name and author cannot be empty.');
+    });
+
+    it('should report empty fields as field-level validation errors', async () => {
+      await store.addBook('', '');
+
+      expect(store.error).toEqual({
+        kind: 'validation',
+        message: 'Book name and author cannot be empty.',
+        fieldErrors: {
+          name: 'Book name cannot be empty.',
+          author: 'Author cannot be empty.',
+        },
+        status: null,
+      });
+    });
+
+    it('should expose server-side field errors', async () => {
+      const error = new ValidationError(
+        'Invalid book',
+        { status: 422, url: 'https://api.test/', method: 'POST' },
+        { name: 'Name is too long' }
+      );
+      jest.spyOn(mockRepository, 'addBook').mockRejectedValueOnce(error);
+
+      await store.addBook('New Book', 'New Author');
+
+      expect(store.error).toEqual({
+        kind: 'validation',
+        message: 'Invalid book',
+        fieldErrors: { name: 'Name is too long' },
+        status: 422,
+      });
     });
 
     it('should handle API errors gracefully', async () => {
@@ -205,26 +504,340 @@ describe('Books Controller', () => {
       await store.addBook('New Book', 'New Author');
 
       // Expectations
-      expect(store.error).toBe('Failed to add');
+      expect(store.errorMessage).toBe('Failed to add');
+      expect(store.books).toEqual([]);
+      expect(store.pendingBookIds).toEqual([]);
       expect(store.isLoading).toBe(false);
       expect(console.error).toHaveBeenCalledWith('Failed to add book:', error);
     });
 
-    it('should handle repository returning false', async () => {
-      // Mock the repository to return false
-      jest.spyOn(mockRepository, 'addBook').mockResolvedValueOnce(false);
+    it('should handle repository returning null', async () => {
+      // Mock the repository to return null
+      jest.spyOn(mockRepository, 'addBook').mockResolvedValueOnce(null);
 
       // Call the method to test
       await store.addBook('New Book', 'New Author');
 
       // Expectations
-      expect(store.error).toContain('might not have been added');
+      expect(store.errorMessage).toContain('might not have been added');
       expect(store.isLoading).toBe(false);
       expect(console.error).toHaveBeenCalled();
     });
   });
 
+  describe('duplicate detection', () => {
+    beforeEach(() => {
+      store.books = [{ id: 1, name: 'Dune', author: 'Frank Herbert' }];
+    });
+
+    it('should hold back a likely duplicate and point at the listed book', async () => {
+      await expect(store.addBook('  the dune ', 'Herbert, Frank', {}, true)).resolves.toBe(false);
+
+      expect(mockRepository.addBook).not.toHaveBeenCalled();
+      expect(store.duplicateWarning).toEqual({
+        name: 'the dune',
+        author: 'Herbert, Frank',
+        details: {},
+        isPrivate: true,
+        match: { book: { id: 1, name: 'Dune', author: 'Frank Herbert' }, reason: 'exact', score: 1 },
+      });
+    });
+
+    it('should check the queued offline books too', async () => {
+      store.books = [];
+      store.viewType = 'private';
+      await store.setOnline(false);
+      await store.addBook('Emma', 'Jane Austen');
+
+      await store.addBook('Emma.', 'Jane Austin');
+
+      expect(store.queuedBooks).toHaveLength(1);
+      expect(store.duplicateWarning && store.duplicateWarning.match).toMatchObject({ book: { name: 'Emma' }, reason: 'similar' });
+    });
+
+    it('should add the held back book once confirmed', async () => {
+      await store.addBook('Dune', 'Frank Herbert', { year: 1965 });
+
+      await expect(store.confirmDuplicate()).resolves.toBe(true);
+
+      expect(mockRepository.addBook).toHaveBeenCalledWith({ name: 'Dune', author: 'Frank Herbert', year: 1965 }, false);
+      expect(store.duplicateWarning).toBeNull();
+      expect(store.books.map((book: Book) => book.id)).toEqual([1, 100]);
+    });
+
+    it('should drop the held back book when dismissed', async () => {
+      await store.addBook('Dune', 'Frank Herbert');
+
+      store.dismissDuplicate();
+      await store.confirmDuplicate();
+
+      expect(store.duplicateWarning).toBeNull();
+      expect(mockRepository.addBook).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateBook', () => {
+    it('should update the book in place without reloading', async () => {
+      runInAction(() => {
+        store.books = allBooksSample.slice();
+      });
+      jest.spyOn(store, 'loadBooks');
+
+      await store.updateBook(2, { name: 'Book 2 (fixed)' });
+
+      expect(mockRepository.updateBook).toHaveBeenCalledWith(2, { name: 'Book 2 (fixed)' });
+      expect(store.books[1]).toEqual({ id: 2, name: 'Book 2 (fixed)', author: 'Author 2' });
+      expect(store.books).toHaveLength(allBooksSample.length);
+      expect(store.loadBooks).not.toHaveBeenCalled();
+      expect(store.isLoading).toBe(false);
+      expect(store.error).toBeNull();
+    });
+
+    it('should reject empty name or author', async () => {
+      await store.updateBook(2, { name: '' });
+
+      expect(mockRepository.updateBook).not.toHaveBeenCalled();
+      expect(store.errorMessage).toBe('Book name and author cannot be empty.');
+    });
+
+    it('should handle API errors gracefully', async () => {
+      runInAction(() => {
+        store.books = allBooksSample.slice();
+      });
+      const error = new Error('Failed to update');
+      jest.spyOn(mockRepository, 'updateBook').mockRejectedValueOnce(error);
+
+      await store.updateBook(2, { name: 'Changed' });
+
+      expect(store.errorMessage).toBe('Failed to update');
+      expect(store.books).toEqual(allBooksSample);
+      expect(store.isLoading).toBe(false);
+      expect(console.error).toHaveBeenCalledWith('Failed to update book:', error);
+    });
+
+    it('should handle repository returning false', async () => {
+      jest.spyOn(mockRepository, 'updateBook').mockResolvedValueOnce(false);
+
+      await store.updateBook(2, { name: 'Changed' });
+
+      expect(store.errorMessage).toContain('might not have been updated');
+      expect(store.isLoading).toBe(false);
+    });
+  });
+
+  describe('deleteBook', () => {
+    it('should remove the book and refresh the private books count', async () => {
+      runInAction(() => {
+        store.books = allBooksSample.slice();
+        store.privateBooksCount = 4;
+      });
+      jest.spyOn(mockRepository, 'getPrivateBooks').mockResolvedValueOnce(privateBooksSample.slice(1));
+
+      await store.deleteBook(1);
+
+      expect(mockRepository.deleteBook).toHaveBeenCalledWith(1);
+      expect(store.books.map((book: Book) => book.id)).toEqual([2, 3, 4]);
+      expect(store.privateBooksCount).toBe(3);
+      expect(store.isLoading).toBe(false);
+      expect(store.error).toBeNull();
+    });
+
+    it('should put the book back in place when the API fails', async () => {
+      runInAction(() => {
+        store.books = allBooksSample.slice();
+      });
+      const error = new Error('Failed to delete');
+      jest.spyOn(mockRepository, 'deleteBook').mockRejectedValueOnce(error);
+
+      await store.deleteBook(1);
+
+      expect(store.errorMessage).toBe('Failed to delete');
+      expect(store.books).toEqual(allBooksSample);
+      expect(console.error).toHaveBeenCalledWith('Failed to delete book:', error);
+    });
+
+    it('should handle repository returning false', async () => {
+      jest.spyOn(mockRepository, 'deleteBook').mockResolvedValueOnce(false);
+
+      await store.deleteBook(1);
+
+      expect(store.errorMessage).toContain('might not have been deleted');
+      expect(store.isLoading).toBe(false);
+    });
+  });
+
+  describe('private shelf', () => {
+    beforeEach(async () => {
+      await store.loadBooks();
+      await store.loadPrivateBooksCount();
+    });
+
+    it('should mark the books of the private list in the "all" view', () => {
+      expect(store.privateBookIds).toEqual([1, 3, 5, 6]);
+      expect(store.books.filter((book: Book) => store.isBookPrivate(book)).map((book: Book) => book.id)).toEqual([1, 3]);
+    });
+
+    it('should add a book straight onto the private shelf', async () => {
+      jest.spyOn(mockRepository, 'getPrivateBooks').mockResolvedValueOnce(
+        privateBooksSample.concat({ id: 100, name: 'New Book', author: 'New Author' })
+      );
+
+      await store.addBook('New Book', 'New Author', {}, true);
+
+      expect(mockRepository.addBook).toHaveBeenCalledWith({ name: 'New Book', author: 'New Author' }, true);
+      expect(store.isBookPrivate(store.books[store.books.length - 1])).toBe(true);
+      expect(store.privateBooksCount).toBe(5);
+    });
+
+    it('should make a book private and public again, updating the count', async () => {
+      jest.spyOn(mockRepository, 'getPrivateBooks').mockResolvedValueOnce(privateBooksSample.concat(allBooksSample[1]));
+      const pending = store.setBookPrivate(2, true);
+
+      expect(store.isBookPrivate(store.books[1])).toBe(true);
+      expect(store.privateBooksCount).toBe(5);
+      expect(store.isBookPending(store.books[1])).toBe(true);
+      await pending;
+      expect(mockRepository.setBookPrivate).toHaveBeenCalledWith(2, true);
+      expect(store.privateBooksCount).toBe(5);
+
+      await store.setBookPrivate(2, false);
+
+      expect(mockRepository.setBookPrivate).toHaveBeenLastCalledWith(2, false);
+      expect(store.privateBookIds).toEqual([1, 3, 5, 6]);
+      expect(store.privateBooksCount).toBe(4);
+    });
+
+    it('should take a book made public off the list in the private view', async () => {
+      store.setViewType('private');
+      await store.loadBooks();
+      jest.spyOn(mockRepository, 'getPrivateBooks').mockResolvedValueOnce(
+        privateBooksSample.filter((book: Book) => book.id !== 5)
+      );
+
+      await store.setBookPrivate(5, false);
+
+      expect(store.books.map((book: Book) => book.id)).toEqual([1, 3, 6]);
+      expect(store.privateBooksCount).toBe(3);
+    });
+
+    it('should revert the change when the server rejects it', async () => {
+      jest.spyOn(mockRepository, 'setBookPrivate').mockRejectedValueOnce(new Error('Forbidden'));
+
+      await store.setBookPrivate(1, false);
+
+      expect(store.privateBookIds).toEqual([1, 3, 5, 6]);
+      expect(store.privateBooksCount).toBe(4);
+      expect(store.errorMessage).toBe('Forbidden');
+      expect(store.pendingBookIds).toEqual([]);
+    });
+
+    it('should not call the repository when the book already has the requested privacy', async () => {
+      await store.setBookPrivate(1, true);
+
+      expect(mockRepository.setBookPrivate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('search, filter and sort', () => {
+    const catalogue: Book[] = [
+      { id: 1, name: 'The Pragmatic Programmer', author: 'Andrew Hunt', year: 1999, rating: 5 },
+      { id: 2, name: 'Clean Code', author: 'Robert C. Martin', year: 2008 },
+      { id: 3, name: 'Clean Architecture', author: 'Robert C. Martin', year: 2017, rating: 4 },
+      { id: 4, name: 'Les Misérables', author: 'Victor Hugo' },
+    ];
+    const visibleIds = () => store.visibleBooks.map((book: Book) => book.id);
+
+    beforeEach(() => {
+      runInAction(() => {
+        store.books = catalogue;
+      });
+    });
+
+    it('should show every book in server order by default', () => {
+      expect(visibleIds()).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should fuzzy-match every word of the search against name and author', () => {
+      store.setSearch('prag prog');
+      expect(visibleIds()).toEqual([1]);
+
+      store.setSearch('rbt clean');
+      expect(visibleIds()).toEqual([2, 3]);
+
+      // Case and accents are ignored
+      store.setSearch('MISERABLES');
+      expect(visibleIds()).toEqual([4]);
+
+      store.setSearch('  ');
+      expect(visibleIds()).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should filter by author and list the authors alphabetically', () => {
+      expect(store.authors).toEqual(['Andrew Hunt', 'Robert C. Martin', 'Victor Hugo']);
+
+      store.setAuthorFilter('Robert C. Martin');
+      expect(visibleIds()).toEqual([2, 3]);
+
+      store.setAuthorFilter(null);
+      expect(visibleIds()).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should sort in both directions, keeping books without the field last', () => {
+      store.setSort('rating', 'desc');
+      expect(visibleIds()).toEqual([1, 3, 2, 4]);
+
+      store.setSort('year');
+      expect(visibleIds()).toEqual([1, 2, 3, 4]);
+
+      store.setSort('year', 'desc');
+      expect(visibleIds()).toEqual([3, 2, 1, 4]);
+
+      store.setSort('name');
+      expect(visibleIds()).toEqual([3, 2, 4, 1]);
+
+      store.setSort(null);
+      expect(visibleIds()).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should combine the query with newly loaded books without changing them', async () => {
+      store.setSearch('clean');
+      store.setSort('year', 'desc');
+
+      await store.loadBooks();
+
+      expect(store.books).toEqual(allBooksSample);
+      expect(store.visibleBooks).toEqual([]);
+
+      runInAction(() => {
+        store.books = catalogue;
+      });
+      expect(visibleIds()).toEqual([3, 2]);
+      expect(store.books.map((book: Book) => book.id)).toEqual([1, 2, 3, 4]);
+    });
+  });
+
   describe('setViewType', () => {
+    it('should always end on the last requested view when toggled quickly', async () => {
+      const slowAllBooks = deferred<Book[]>();
+      const slowPrivateBooks = deferred<Book[]>();
+      jest.spyOn(mockRepository, 'getPrivateBooks').mockReturnValueOnce(slowPrivateBooks.promise);
+      jest.spyOn(mockRepository, 'getBooks').mockReturnValueOnce(slowAllBooks.promise);
+      jest.spyOn(store, 'loadPrivateBooksCount').mockResolvedValue();
+
+      store.setViewType('private');
+      store.setViewType('all');
+
+      // Responses arrive in the reverse order of the requests
+      slowAllBooks.resolve(allBooksSample);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      slowPrivateBooks.resolve(privateBooksSample);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(store.viewType).toBe('all');
+      expect(store.books).toEqual(allBooksSample);
+      expect(store.isLoading).toBe(false);
+    });
+
     it('should change viewType and reload books', async () => {
       // Mock loadBooks to avoid testing it again
       jest.spyOn(store, 'loadBooks').mockResolvedValueOnce();
@@ -270,6 +883,45 @@ describe('Books Controller', () => {
     });
   });
 
+  describe('reading status', () => {
+    const trackedBooks: Book[] = [
+      { id: 1, name: 'Book 1', author: 'Author 1', status: 'reading', currentPage: 40, totalPages: 200 },
+      { id: 2, name: 'Book 2', author: 'Author 2', status: 'finished' },
+      { id: 3, name: 'Book 3', author: 'Author 3' },
+    ];
+
+    it('should filter the "all" list by status without fetching it again', async () => {
+      jest.spyOn(mockRepository, 'getBooks').mockResolvedValue(trackedBooks);
+      await store.init();
+
+      store.setViewType('reading');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(store.viewType).toBe('reading');
+      expect(store.viewBooks.map((book: Book) => book.id)).toEqual([1]);
+      expect(store.visibleBooks.map((book: Book) => book.id)).toEqual([1]);
+      expect(store.books).toHaveLength(3);
+      expect(mockRepository.getBooks).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fill in the start date when a book is started and check pages against the book', async () => {
+      runInAction(() => {
+        store.books = trackedBooks.slice();
+      });
+
+      await store.setReadingStatus(3, 'reading');
+
+      const today = toIsoDate(new Date());
+      expect(mockRepository.updateBook).toHaveBeenCalledWith(3, { status: 'reading', startedAt: today });
+      expect(store.books[2]).toEqual({ ...trackedBooks[2], status: 'reading', startedAt: today });
+
+      await store.updateBook(1, { currentPage: 201 });
+
+      expect(mockRepository.updateBook).toHaveBeenCalledTimes(1);
+      expect(store.error).toMatchObject({ kind: 'validation', fieldErrors: { currentPage: 'Current page cannot be past the last page.' } });
+    });
+  });
+
   describe('init', () => {
     it('should call loadBooks and loadPrivateBooksCount', async () => {
       // Mock the methods to avoid testing them again
@@ -284,4 +936,252 @@ describe('Books Controller', () => {
       expect(store.loadPrivateBooksCount).toHaveBeenCalledTimes(1);
     });
   });
-}); 
\ No newline at end of file
+
+  describe('retry', () => {
+    it('should clear the error and reload', async () => {
+      runInAction(() => {
+        store.error = { kind: 'outage', message: 'HTTP error 503', fieldErrors: {}, status: 503 };
+      });
+      jest.spyOn(store, 'init').mockResolvedValueOnce();
+
+      await store.retry();
+
+      expect(store.error).toBeNull();
+      expect(store.init).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('caching', () => {
+    let currentTime: number;
+
+    beforeEach(() => {
+      currentTime = 0;
+      store = createBooksStore(mockRepository, { cache: createQueryCache({ ttlMs: 1000, now: () => currentTime }) });
+    });
+
+    it('should serve a fresh cached list without refetching', async () => {
+      await store.loadBooks();
+      store.setViewType('private');
+      await new Promise(resolve => setTimeout(resolve, 0));
+      store.setViewType('all');
+
+      expect(store.books).toEqual(allBooksSample);
+      expect(store.isLoading).toBe(false);
+      expect(mockRepository.getBooks).toHaveBeenCalledTimes(1);
+    });
+
+    it('should show a stale list immediately and refresh it in the background', async () => {
+      await store.loadBooks();
+      currentTime = 1000;
+      const refreshedBooks = allBooksSample.slice(0, 2);
+      const refresh = deferred<Book[]>();
+      jest.spyOn(mockRepository, 'getBooks').mockReturnValueOnce(refresh.promise);
+
+      const revalidation = store.loadBooks();
+
+      expect(store.books).toEqual(allBooksSample);
+      expect(store.isLoading).toBe(false);
+      expect(store.isRefreshing).toBe(true);
+
+      refresh.resolve(refreshedBooks);
+      await revalidation;
+
+      expect(store.books).toEqual(refreshedBooks);
+      expect(store.isRefreshing).toBe(false);
+    });
+
+    it('should keep the stale list when the background refresh fails', async () => {
+      await store.loadBooks();
+      currentTime = 1000;
+      jest.spyOn(mockRepository, 'getBooks').mockRejectedValueOnce(new Error('Network Error'));
+
+      await store.loadBooks();
+
+      expect(store.books).toEqual(allBooksSample);
+      expect(store.errorMessage).toBe('Network Error');
+    });
+
+    it('should share one /private request between loadBooks and loadPrivateBooksCount', async () => {
+      runInAction(() => {
+        store.viewType = 'private';
+      });
+
+      await Promise.all([store.loadBooks(), store.loadPrivateBooksCount()]);
+
+      expect(mockRepository.getPrivateBooks).toHaveBeenCalledTimes(1);
+      expect(store.books).toEqual(privateBooksSample);
+      expect(store.privateBooksCount).toBe(privateBooksSample.length);
+    });
+
+    it('should revalidate cached lists after a mutation', async () => {
+      await store.init();
+      expect(mockRepository.getPrivateBooks).toHaveBeenCalledTimes(1);
+
+      await store.deleteBook(2);
+      expect(mockRepository.getPrivateBooks).toHaveBeenCalledTimes(2);
+
+      // The current view keeps the local change while it refreshes
+      const refresh = deferred<Book[]>();
+      jest.spyOn(mockRepository, 'getBooks').mockReturnValueOnce(refresh.promise);
+      const reload = store.loadBooks();
+      expect(store.books.map((book: Book) => book.id)).toEqual([1, 3, 4]);
+
+      refresh.resolve(allBooksSample);
+      await reload;
+      expect(mockRepository.getBooks).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('offline mode', () => {
+    const networkError = () => new NetworkError({ status: null, url: 'https://api.test/', method: 'GET' });
+    let storage: KeyValueStorage;
+
+    beforeEach(() => {
+      storage = createMemoryStorage();
+    });
+
+    it('should serve persisted lists when the API is unreachable', async () => {
+      createOfflineBooksStorage(storage, USER_ID).saveList('/', allBooksSample);
+      jest.spyOn(mockRepository, 'getBooks').mockRejectedValueOnce(networkError());
+      store = createBooksStore(mockRepository, { session, storage });
+
+      await store.loadBooks();
+
+      expect(store.books).toEqual(allBooksSample);
+      expect(store.error).toBeNull();
+      expect(store.isOnline).toBe(false);
+    });
+
+    it('should persist loaded lists for later offline use', async () => {
+      store = createBooksStore(mockRepository, { session, storage });
+
+      await store.loadBooks();
+
+      expect(createOfflineBooksStorage(storage, USER_ID).loadLists()['/']).toEqual(allBooksSample);
+    });
+
+    it('should queue books added while offline and persist the queue', async () => {
+      store = createBooksStore(mockRepository, { session, storage, isOnline: false });
+
+      await store.addBook('Offline Book', 'Offline Author');
+
+      expect(mockRepository.addBook).not.toHaveBeenCalled();
+      expect(store.queuedBooks).toHaveLength(1);
+      expect(store.books).toHaveLength(1);
+      expect(store.isBookPending(store.books[0])).toBe(true);
+      expect(store.error).toBeNull();
+
+      // The queue survives a reload
+      await store.addBook('Detailed Book', 'Offline Author', { year: 1999 });
+      const reloadedStore = createBooksStore(mockRepository, { session, storage, isOnline: false });
+      expect(reloadedStore.queuedBooks).toEqual([
+        expect.objectContaining({ name: 'Offline Book', author: 'Offline Author' }),
+        expect.objectContaining({ name: 'Detailed Book', details: { year: 1999 } }),
+      ]);
+    });
+
+    it('should queue instead of rolling back when the POST fails for lack of network', async () => {
+      store = createBooksStore(mockRepository, { session, storage });
+      jest.spyOn(mockRepository, 'addBook').mockRejectedValueOnce(networkError());
+
+      await store.addBook('New Book', 'New Author');
+
+      expect(store.isOnline).toBe(false);
+      expect(store.queuedBooks).toHaveLength(1);
+      expect(store.books.map((book: Book) => book.name)).toEqual(['New Book']);
+      expect(store.error).toBeNull();
+    });
+  });
+
+  describe('switchUser', () => {
+    const bobBooks: Book[] = [{ id: 9, name: 'Bob Book', author: 'Bob' }];
+
+    it('should clear the previous user\'s data and reload for the new user', async () => {
+      await store.init();
+      jest.spyOn(mockRepository, 'getBooks').mockResolvedValueOnce(bobBooks);
+      jest.spyOn(mockRepository, 'getPrivateBooks').mockResolvedValueOnce([]);
+
+      const switching = store.switchUser('bob');
+
+      expect(store.userId).toBe('bob');
+      expect(session.userId).toBe('bob');
+      expect(store.books).toEqual([]);
+      expect(store.privateBooksCount).toBe(0);
+
+      await switching;
+
+      expect(store.books).toEqual(bobBooks);
+      expect(mockRepository.getBooks).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ignore a load for the previous user that finishes after the switch', async () => {
+      const aliceLoad = deferred<Book[]>();
+      jest.spyOn(mockRepository, 'getBooks')
+        .mockReturnValueOnce(aliceLoad.promise)
+        .mockResolvedValueOnce(bobBooks);
+
+      const loading = store.loadBooks();
+      await store.switchUser('bob');
+      aliceLoad.resolve(allBooksSample);
+      await loading;
+
+      expect(store.books).toEqual(bobBooks);
+    });
+
+    it('should keep offline queues separate per user', async () => {
+      const storage = createMemoryStorage();
+      store = createBooksStore(mockRepository, { session, storage, isOnline: false });
+      await store.addBook('Alice Offline', 'Alice');
+
+      await store.switchUser('bob');
+
+      expect(store.queuedBooks).toEqual([]);
+      expect(createOfflineBooksStorage(storage, USER_ID).loadQueue()).toHaveLength(1);
+    });
+
+    it('should reject an invalid user id and keep the current user', async () => {
+      await store.switchUser('not a valid id!');
+
+      expect(store.userId).toBe(USER_ID);
+      expect(store.error).toMatchObject({ kind: 'validation', fieldErrors: { userId: expect.any(String) } });
+      expect(mockRepository.getBooks).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('live updates', () => {
+    beforeEach(async () => {
+      await store.init();
+    });
+
+    it('should apply created, updated and deleted books to the list and the private count', () => {
+      store.applyBookEvent({ type: 'created', book: { id: 7, name: 'Book 7', author: 'Author 7' }, isPrivate: true });
+      store.applyBookEvent({ type: 'updated', book: { id: 2, name: 'Book 2!', author: 'Author 2' }, isPrivate: false });
+      store.applyBookEvent({ type: 'updated', book: { id: 1, name: 'Book 1', author: 'Author 1' }, isPrivate: false });
+      store.applyBookEvent({ type: 'deleted', id: 3 });
+
+      expect(store.books.map((book) => book.name)).toEqual(['Book 1', 'Book 2!', 'Book 4', 'Book 7']);
+      expect(store.privateBookIds).toEqual([5, 6, 7]);
+      expect(store.privateBooksCount).toBe(3);
+      expect(mockRepository.getBooks).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave a book this tab is adding to its own add', async () => {
+      const adding = deferred<Book>();
+      jest.spyOn(mockRepository, 'addBook').mockReturnValueOnce(adding.promise);
+      const added = store.addBook('Book 7', 'Author 7');
+
+      store.applyBookEvent({ type: 'created', book: { id: 7, name: 'Book 7', author: 'Author 7' }, isPrivate: false });
+      adding.resolve({ id: 7, name: 'Book 7', author: 'Author 7' });
+      await added;
+
+      expect(store.books.filter((book) => book.name === 'Book 7')).toHaveLength(1);
+    });
+
+    it('should reload both lists, e.g. after live updates may have been missed', async () => {
+      await store.reload();
+
+      expect(mockRepository.getBooks).toHaveBeenCalledTimes(2);
+      expect(mockRepository.getPrivateBooks).toHaveBeenCalledTimes(2);
+    });
+  });
+});
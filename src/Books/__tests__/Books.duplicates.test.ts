@@ -0,0 +1,84 @@
+import { findLikelyDuplicate, normalizeAuthorName, normalizeBookName, similarity } from '../Books.duplicates';
+import { Book } from '../types';
+
+const books: Book[] = [
+  { id: 1, name: 'Dune', author: 'Frank Herbert', isbn: '9780441013593' },
+  { id: 2, name: 'The Hobbit', author: 'J. R. R. Tolkien' },
+  { id: 3, name: 'Cien años de soledad', author: 'Gabriel García Márquez' },
+];
+
+describe('Books duplicates', () => {
+  describe('normalization', () => {
+    it('should ignore case, whitespace, punctuation, diacritics and a leading "The"', () => {
+      expect(normalizeBookName('  The   HOBBIT! ')).toBe('hobbit');
+      expect(normalizeBookName('Cien Años de Soledad')).toBe('cien anos de soledad');
+      expect(normalizeBookName('The')).toBe('the');
+    });
+
+    it('should ignore the order of author names', () => {
+      expect(normalizeAuthorName('Herbert, Frank')).toBe(normalizeAuthorName('frank herbert'));
+    });
+
+    it('should score similarity from 0 to 1', () => {
+      expect(similarity('dune', 'dune')).toBe(1);
+      expect(similarity('dune', 'dnue')).toBe(0.5);
+      expect(similarity('', '')).toBe(1);
+    });
+  });
+
+  describe('findLikelyDuplicate', () => {
+    it('should compare non-Latin names and authors by their letters', () => {
+      const shelf: Book[] = [
+        { id: 10, name: 'Кобзар', author: 'Тарас Шевченко' },
+        { id: 11, name: 'ノルウェイの森', author: '村上春樹' },
+      ];
+
+      expect(normalizeBookName('Війна і мир')).toBe('війна і мир');
+      expect(findLikelyDuplicate({ name: 'Війна і мир', author: 'Лев Толстой' }, shelf)).toBeNull();
+      expect(findLikelyDuplicate({ name: '海辺のカフカ', author: '村上春樹' }, shelf)).toBeNull();
+      expect(findLikelyDuplicate({ name: 'КОБЗАР', author: 'Шевченко, Тарас' }, shelf)).toMatchObject({ book: shelf[0], reason: 'exact' });
+    });
+
+    it('should tell apart Cyrillic names that differ only by й and и', () => {
+      const shelf: Book[] = [{ id: 13, name: 'Мой сад', author: 'Иван Бунин' }];
+
+      expect(normalizeBookName('Мой сад')).not.toBe(normalizeBookName('Мои сад'));
+      expect(normalizeBookName('Їжак')).toBe('їжак');
+      expect(findLikelyDuplicate({ name: 'Мой сад', author: 'Иван Бунин' }, shelf)).toMatchObject({ reason: 'exact' });
+      expect(findLikelyDuplicate({ name: 'Мои сад', author: 'Иван Бунин' }, shelf)).toMatchObject({ reason: 'similar' });
+      expect(findLikelyDuplicate({ name: 'Мой сад', author: 'Йван Бунин' }, shelf)).toMatchObject({ reason: 'similar' });
+    });
+
+    it('should never match a name or author with no letters or digits', () => {
+      expect(findLikelyDuplicate({ name: '???', author: '!!!' }, [{ id: 12, name: '...', author: '--' }])).toBeNull();
+    });
+
+    it('should find an exact match once normalized', () => {
+      expect(findLikelyDuplicate({ name: 'hobbit', author: 'Tolkien, J.R.R.' }, books)).toEqual({ book: books[1], reason: 'exact', score: 1 });
+      expect(findLikelyDuplicate({ name: 'Cien anos de soledad', author: 'Gabriel Garcia Marquez' }, books)).toEqual(
+        expect.objectContaining({ book: books[2], reason: 'exact' })
+      );
+    });
+
+    it('should find close matches such as typos', () => {
+      const match = findLikelyDuplicate({ name: 'Cien años de soledat', author: 'Gabriel Garcia Marques' }, books);
+
+      expect(match).toEqual(expect.objectContaining({ book: books[2], reason: 'similar' }));
+      expect(match && match.score).toBeLessThan(1);
+    });
+
+    it('should not match different books or volumes by the same author', () => {
+      expect(findLikelyDuplicate({ name: 'Dune Messiah', author: 'Frank Herbert' }, books)).toBeNull();
+      expect(findLikelyDuplicate({ name: 'Volume 2', author: 'Someone' }, [{ id: 4, name: 'Volume 1', author: 'Someone' }])).toBeNull();
+    });
+
+    it('should decide by ISBN when both books have one', () => {
+      expect(findLikelyDuplicate({ name: 'Other title', author: 'Someone', isbn: '978-0-441-01359-3' }, books)).toEqual({
+        book: books[0],
+        reason: 'isbn',
+        score: 1,
+      });
+      expect(findLikelyDuplicate({ name: 'Dune', author: 'Frank Herbert', isbn: '9780340960196' }, books)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { exportBooks, exportFileName } from '../Books.export';
+import { parseImport } from '../Books.import';
+import { Book } from '../types';
+
+const books: Book[] = [
+  { id: 1, name: 'Dune', author: 'Herbert, Frank', year: 1965, genres: ['Sci-Fi', 'Classic'], rating: 5, notes: 'Said "wow"' },
+  { id: 2, name: 'Emma', author: 'Jane Austen' },
+  { id: 3, name: 'Ulysses', author: 'James Joyce', status: 'reading', startedAt: '2024-03-01', currentPage: 120, totalPages: 730 },
+  { id: 4, name: 'Beloved', author: 'Toni Morrison', status: 'finished', startedAt: '2024-01-05', finishedAt: '2024-02-10' },
+];
+
+describe('Books export', () => {
+  it('should write CSV with a header and quoted fields where needed', () => {
+    expect(exportBooks(books, 'csv')).toBe(
+      'name,author,isbn,year,genres,coverUrl,rating,notes,status,startedAt,finishedAt,currentPage,totalPages\r\n' +
+        'Dune,"Herbert, Frank",,1965,Sci-Fi; Classic,,5,"Said ""wow""",,,,,\r\n' +
+        'Emma,Jane Austen,,,,,,,,,,,\r\n' +
+        'Ulysses,James Joyce,,,,,,,reading,2024-03-01,,120,730\r\n' +
+        'Beloved,Toni Morrison,,,,,,,finished,2024-01-05,2024-02-10,,\r\n'
+    );
+  });
+
+  it('should write CSV and JSON that the import reads back, reading status, dates and pages included', () => {
+    const expected = books.map(({ id, ...book }) => book);
+
+    expect(parseImport(exportBooks(books, 'csv'), 'csv', []).rows.map((row) => row.book)).toEqual(expected);
+    expect(parseImport(exportBooks(books, 'json'), 'json', []).rows.map((row) => row.book)).toEqual(expected);
+  });
+
+  it('should name the file after the view, date and format', () => {
+    expect(exportFileName('private', 'json', new Date('2024-05-01T12:00:00Z'))).toBe('books-private-2024-05-01.json');
+  });
+});
@@ -0,0 +1,102 @@
+import { createBooksStore, BooksRepository, BooksStore } from '../Books.controller';
+import { AddBookForm, createAddBookForm } from '../Books.form';
+import { ValidationError } from '../../Shared/ApiError';
+import { createUserSession } from '../../Shared/UserSession';
+import { mockConsole } from '../../Shared/testing';
+import { createMockBooksRepository } from '../Books.testing';
+
+mockConsole();
+
+describe('Add book form', () => {
+  let repository: BooksRepository;
+  let store: BooksStore;
+  let form: AddBookForm;
+
+  const fill = (name: string, author: string) => {
+    form.setField('name', name);
+    form.setField('author', author);
+  };
+
+  beforeEach(() => {
+    repository = createMockBooksRepository({ addedBook: { id: 100, name: 'Dune', author: 'Frank Herbert' } });
+    store = createBooksStore(repository, { session: createUserSession('alice') });
+    form = createAddBookForm(store);
+  });
+
+  it('should show a field error once the field is left, and every error on submit', async () => {
+    form.setField('year', 'soon');
+    expect(form.fieldErrors).toEqual({});
+
+    form.touch('year');
+    expect(form.fieldErrors).toEqual({ year: expect.stringContaining('Year') });
+
+    await expect(form.submit()).resolves.toBe(false);
+
+    expect(repository.addBook).not.toHaveBeenCalled();
+    expect(Object.keys(form.fieldErrors).sort()).toEqual(['author', 'name', 'year']);
+  });
+
+  it('should add the book with parsed details and clear the form', async () => {
+    fill('  Dune ', 'Frank Herbert');
+    form.setField('year', '1965');
+    form.setField('genres', 'Sci-Fi, Classic');
+    form.setPrivate(true);
+
+    await expect(form.submit()).resolves.toBe(true);
+
+    expect(repository.addBook).toHaveBeenCalledWith(
+      { name: 'Dune', author: 'Frank Herbert', year: 1965, genres: ['Sci-Fi', 'Classic'] },
+      true
+    );
+    expect(form.values).toEqual({
+      name: '', author: '', isbn: '', year: '', genres: '', coverUrl: '', rating: '', notes: '', isPrivate: false,
+    });
+    expect(form.isSubmitting).toBe(false);
+  });
+
+  it('should keep the inputs and show server field errors when adding fails', async () => {
+    (repository.addBook as jest.Mock).mockRejectedValueOnce(
+      new ValidationError('Invalid book', { status: 422, url: 'https://api.test/', method: 'POST' }, { name: 'Name is taken.' })
+    );
+    fill('Dune', 'Frank Herbert');
+
+    const submitting = form.submit();
+    expect(form.isSubmitting).toBe(true);
+    await expect(submitting).resolves.toBe(false);
+
+    expect(form.values.name).toBe('Dune');
+    expect(form.fieldErrors).toEqual({ name: 'Name is taken.' });
+
+    form.setField('name', 'Dune!');
+    expect(form.fieldErrors).toEqual({});
+  });
+
+  it('should keep a likely duplicate until it is confirmed', async () => {
+    store.books = [{ id: 1, name: 'Dune', author: 'Frank Herbert' }];
+    fill('dune', 'Frank Herbert');
+
+    await expect(form.submit()).resolves.toBe(false);
+    expect(store.duplicateWarning).not.toBeNull();
+    expect(form.values.name).toBe('dune');
+
+    await expect(form.confirmDuplicate()).resolves.toBe(true);
+
+    expect(repository.addBook).toHaveBeenCalledTimes(1);
+    expect(form.values.name).toBe('');
+  });
+
+  it('should drop a duplicate warning once the inputs change', async () => {
+    store.books = [{ id: 1, name: 'Dune', author: 'Frank Herbert' }];
+    fill('Dune', 'Frank Herbert');
+    await form.submit();
+
+    form.setField('name', 'Dune Messiah');
+
+    expect(store.duplicateWarning).toBeNull();
+  });
+
+  it('should give each input an id for its label and error message', () => {
+    expect(form.inputId('name')).toBe('add-book-name');
+    expect(form.errorId('name')).toBe('add-book-name-error');
+  });
+});
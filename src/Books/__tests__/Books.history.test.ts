@@ -0,0 +1,29 @@
+import { BookCommand, describeCommand, previousValues, remapCommandId } from '../Books.history';
+
+describe('Books history', () => {
+  it('should describe each kind of command', () => {
+    expect(describeCommand({ kind: 'add', book: { id: 1, name: 'Dune', author: 'Frank Herbert' }, isPrivate: false })).toBe('Book added');
+    expect(describeCommand({ kind: 'setPrivate', id: 1, isPrivate: false })).toBe('Book made public');
+  });
+
+  it('should point only the commands about the old id at the new one', () => {
+    const commands: BookCommand[] = [
+      { kind: 'delete', book: { id: 1, name: 'Dune', author: 'Frank Herbert' }, isPrivate: true },
+      { kind: 'update', id: 1, before: { name: 'Dune' }, after: { name: 'Dune!' } },
+      { kind: 'setPrivate', id: 2, isPrivate: true },
+    ];
+
+    expect(commands.map((command) => remapCommandId(command, 1, 7))).toEqual([
+      { kind: 'delete', book: { id: 7, name: 'Dune', author: 'Frank Herbert' }, isPrivate: true },
+      { kind: 'update', id: 7, before: { name: 'Dune' }, after: { name: 'Dune!' } },
+      commands[2],
+    ]);
+  });
+
+  it('should keep the previous values of the changed fields only', () => {
+    expect(previousValues({ id: 1, name: 'Dune', author: 'Frank Herbert', year: 1965 }, { name: 'Dune!', rating: 5 })).toEqual({
+      name: 'Dune',
+      rating: undefined,
+    });
+  });
+});
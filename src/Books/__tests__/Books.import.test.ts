@@ -0,0 +1,143 @@
+import { detectImportFormat, ImportFileError, parseImport } from '../Books.import';
+import { Book } from '../types';
+
+const GOODREADS_HEADER =
+  'Book Id,Title,Author,Author l-f,Additional Authors,ISBN,ISBN13,My Rating,Average Rating,Publisher,Binding,' +
+  'Number of Pages,Year Published,Original Publication Year,Date Read,Date Added,Bookshelves,' +
+  'Bookshelves with positions,Exclusive Shelf,My Review,Spoiler,Private Notes,Read Count,Owned Copies';
+
+describe('Books import', () => {
+  describe('detectImportFormat', () => {
+    it('should tell JSON, Goodreads and plain CSV apart', () => {
+      expect(detectImportFormat('books.json', '')).toBe('json');
+      expect(detectImportFormat('export.txt', ' [{"name":"Dune"}]')).toBe('json');
+      expect(detectImportFormat('goodreads_library_export.csv', `${GOODREADS_HEADER}\r\n`)).toBe('goodreads');
+      expect(detectImportFormat('books.csv', 'name,author\n')).toBe('csv');
+    });
+  });
+
+  describe('parseImport', () => {
+    it('should read CSV with quoted fields, aliases and details', () => {
+      const csv = [
+        '\uFEFFTitle,Author,Year,Genres,Rating,Notes',
+        '"Dune","Herbert, Frank",1965,Sci-Fi; Classic,5,"Said ""wow""',
+        'on two lines"',
+        '',
+        'Emma,Jane Austen,,,,',
+      ].join('\r\n');
+
+      const { format, rows } = parseImport(csv, 'csv', []);
+
+      expect(format).toBe('csv');
+      expect(rows).toEqual([
+        {
+          line: 2,
+          book: { name: 'Dune', author: 'Herbert, Frank', year: 1965, genres: ['Sci-Fi', 'Classic'], rating: 5, notes: 'Said "wow"\r\non two lines' },
+          fieldErrors: {},
+          duplicateOf: null,
+        },
+        { line: 5, book: { name: 'Emma', author: 'Jane Austen' }, fieldErrors: {}, duplicateOf: null },
+      ]);
+    });
+
+    it('should read the Goodreads export columns, mapping the exclusive shelf to a reading status', () => {
+      const csv = [
+        GOODREADS_HEADER,
+        '2767052,The Hunger Games,Suzanne Collins,"Collins, Suzanne",,="0439023483",="9780439023481",4,4.3,Scholastic,' +
+          'Hardcover,374,2008,2008,,2024/01/02,"dystopia, to-read","dystopia (#1), to-read (#3)",to-read,,,Gift,0,0',
+        '1,Unrated,Someone,"Someone",,="",="",0,3.9,,,,,1999,,,,,read,,,,1,0',
+        '2,Dune,Frank Herbert,"Herbert, Frank",,="",="",5,4.3,,,412,,1965,2024/02/10,,"read, sci-fi",,read,,,,1,0',
+        '3,Emma,Jane Austen,"Austen, Jane",,="",="",0,4.0,,,,,1815,,,currently-reading,,currently-reading,,,,0,0',
+      ].join('\n');
+
+      const { rows } = parseImport(csv, 'goodreads', []);
+
+      expect(rows.map((row) => row.book)).toEqual([
+        {
+          name: 'The Hunger Games',
+          author: 'Suzanne Collins',
+          isbn: '9780439023481',
+          year: 2008,
+          genres: ['dystopia'],
+          rating: 4,
+          notes: 'Gift',
+          status: 'wantToRead',
+          totalPages: 374,
+        },
+        { name: 'Unrated', author: 'Someone', year: 1999, status: 'finished' },
+        { name: 'Dune', author: 'Frank Herbert', year: 1965, genres: ['sci-fi'], rating: 5, status: 'finished', finishedAt: '2024-02-10', totalPages: 412 },
+        { name: 'Emma', author: 'Jane Austen', year: 1815, status: 'reading' },
+      ]);
+      expect(rows.every((row) => !Object.keys(row.fieldErrors).length)).toBe(true);
+    });
+
+    it('should read a JSON list or an object with a books list', () => {
+      const json = JSON.stringify({ books: [{ id: 7, title: 'Dune', author: 'Frank Herbert', genres: ['Sci-Fi'], year: '1965' }] });
+
+      expect(parseImport(json, 'json', []).rows).toEqual([
+        { line: 1, book: { name: 'Dune', author: 'Frank Herbert', genres: ['Sci-Fi'], year: 1965 }, fieldErrors: {}, duplicateOf: null },
+      ]);
+    });
+
+    it('should report invalid rows per field', () => {
+      const csv = 'name,author,isbn,year,rating\n,Someone,123,next year,9\n';
+
+      const [row] = parseImport(csv, 'csv', []).rows;
+
+      expect(Object.keys(row.fieldErrors).sort()).toEqual(['isbn', 'name', 'rating', 'year']);
+    });
+
+    it('should read and check the reading status, dates and pages', () => {
+      const csv = [
+        'Title,Author,Status,Date Started,Date Read,Page,Pages',
+        'Dune,Frank Herbert,finished,2024-01-05,2024-02-10,,412',
+        'Emma,Jane Austen,someday,2024-13-01,,abc,',
+      ].join('\n');
+
+      const [dune, emma] = parseImport(csv, 'csv', []).rows;
+
+      expect(dune.book).toEqual({
+        name: 'Dune',
+        author: 'Frank Herbert',
+        status: 'finished',
+        startedAt: '2024-01-05',
+        finishedAt: '2024-02-10',
+        totalPages: 412,
+      });
+      expect(dune.fieldErrors).toEqual({});
+      expect(Object.keys(emma.fieldErrors).sort()).toEqual(['currentPage', 'startedAt', 'status']);
+    });
+
+    it('should mark rows that repeat a loaded book or an earlier row', () => {
+      const existing: Book[] = [{ id: 1, name: 'Dune', author: 'Frank Herbert', isbn: '9780441013593' }];
+      const csv = 'name,author,isbn\nDUNE ,frank  herbert,\nDune Messiah,Frank Herbert,978-0-441-01359-3\nEmma,Jane Austen,\nemma,jane austen,\n';
+
+      const rows = parseImport(csv, 'csv', existing).rows;
+
+      expect(rows.map((row) => row.duplicateOf && row.duplicateOf.name)).toEqual(['Dune', 'Dune', null, 'Emma']);
+    });
+
+    it('should not mark different non-Latin books as duplicates of each other', () => {
+      const existing: Book[] = [{ id: 1, name: 'Кобзар', author: 'Тарас Шевченко' }];
+      const csv = [
+        'name,author',
+        'Війна і мир,Лев Толстой',
+        'Ὀδύσσεια,Ὅμηρος',
+        '红楼梦,曹雪芹',
+        'Мастер и Маргарита,Михаил Булгаков',
+        'мастер и маргарита,Булгаков Михаил',
+      ].join('\n');
+
+      const rows = parseImport(csv, 'csv', existing).rows;
+
+      expect(rows.map((row) => row.duplicateOf && row.duplicateOf.name)).toEqual([null, null, null, null, 'Мастер и Маргарита']);
+    });
+
+    it('should reject files that cannot be imported', () => {
+      expect(() => parseImport('{not json', 'json', [])).toThrow(ImportFileError);
+      expect(() => parseImport('{"count": 1}', 'json', [])).toThrow('The JSON file must contain a list of books.');
+      expect(() => parseImport('title,year\nDune,1965\n', 'csv', [])).toThrow(/author column/);
+      expect(() => parseImport('name,author\n"Dune,Frank Herbert\n', 'csv', [])).toThrow('Unterminated quoted field starting on line 2.');
+    });
+  });
+});
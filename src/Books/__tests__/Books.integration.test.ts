@@ -0,0 +1,145 @@
+import { createBooksStore, BooksStore } from '../Books.controller';
+import { createBooksRepository } from '../Books.repository';
+import { createApiGateway } from '../../Shared/ApiGateway';
+import { createUserSession, UserSession } from '../../Shared/UserSession';
+import { createMockBooksApi, MockBooksApi } from '../../MockServer/MockBooksApi';
+import { createMockTransport } from '../../MockServer/MockTransport';
+import { createMockLiveServer, MockLiveServer } from '../../MockServer/MockLiveServer';
+import { MockBookRecord } from '../../MockServer/fixtures';
+import { createRootStore, RootStore } from '../../Root/RootStore';
+import { mockConsole } from '../../Shared/testing';
+
+// Store, repository and gateway wired together, with only the network replaced by the mock API
+
+const API_URL = 'https://books.test/v1/books';
+
+const seed: MockBookRecord[] = [
+  { id: 1, name: 'Shared Book', author: 'Author 1', isPrivate: false },
+  { id: 2, name: 'Private Book', author: 'Author 2', isPrivate: true },
+];
+
+// Lets fire-and-forget store work (e.g. refreshing the private count) finish
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+mockConsole();
+
+describe('Books integration', () => {
+  let api: MockBooksApi;
+  let store: BooksStore;
+  let session: UserSession;
+
+  beforeEach(async () => {
+    api = createMockBooksApi({ seed });
+    session = createUserSession('alice');
+    const gateway = createApiGateway({ baseUrl: API_URL, transport: createMockTransport(api), retry: { retries: 0 } });
+    store = createBooksStore(createBooksRepository(gateway, session), { session });
+    await store.init();
+  });
+
+  it('should load the books and the private count from the API', () => {
+    expect(store.books.map((book) => book.name)).toEqual(['Shared Book', 'Private Book']);
+    expect(store.privateBooksCount).toBe(1);
+  });
+
+  it('should add a book on the server and refresh the private count', async () => {
+    await store.addBook('New Book', 'New Author', {}, true);
+    await flushPromises();
+
+    expect(api.books('alice').map((book) => book.name)).toContain('New Book');
+    expect(store.books.map((book) => book.name)).toContain('New Book');
+    expect(store.privateBooksCount).toBe(2);
+  });
+
+  it('should move books onto and off the private shelf', async () => {
+    await store.setBookPrivate(1, true);
+    await store.setBookPrivate(2, false);
+    await flushPromises();
+
+    expect(api.books('alice').map((book) => book.isPrivate)).toEqual([true, false]);
+    expect(store.privateBookIds).toEqual([1]);
+    expect(store.privateBooksCount).toBe(1);
+  });
+
+  it('should update and delete books on the server', async () => {
+    await store.updateBook(1, { name: 'Renamed' });
+    await store.deleteBook(2);
+    await flushPromises();
+
+    expect(api.books('alice')).toEqual([{ id: 1, name: 'Renamed', author: 'Author 1', isPrivate: false }]);
+    expect(store.books).toEqual([{ id: 1, name: 'Renamed', author: 'Author 1' }]);
+    expect(store.privateBooksCount).toBe(0);
+  });
+
+  it('should switch to another user\'s books', async () => {
+    await store.addBook('Alice Only', 'Alice');
+    await flushPromises();
+
+    await store.switchUser('bob');
+
+    expect(store.books.map((book) => book.name)).toEqual(['Shared Book', 'Private Book']);
+    expect(store.privateBooksCount).toBe(1);
+  });
+
+  it('should surface a missing book as a store error and roll back', async () => {
+    api.handle({ method: 'DELETE', path: '/v1/books/alice/1' });
+
+    await store.updateBook(1, { name: 'Renamed' });
+
+    expect(store.error).toMatchObject({ kind: 'notFound', status: 404 });
+    expect(store.books.find((book) => book.id === 1)).toMatchObject({ name: 'Shared Book' });
+  });
+});
+
+describe('Books live updates', () => {
+  let api: MockBooksApi;
+  let live: MockLiveServer;
+  let rootStore: RootStore;
+  let stop: () => void;
+
+  // A teammate's change, made straight on the server
+  const teammate = (method: string, path: string, body?: unknown) =>
+    api.handle({ method, path: `/v1/books/alice${path}`, body: body === undefined ? undefined : JSON.stringify(body) });
+
+  beforeEach(async () => {
+    api = createMockBooksApi({ seed });
+    live = createMockLiveServer(api);
+    const client = createApiGateway({ baseUrl: API_URL, transport: createMockTransport(api), retry: { retries: 0 } });
+    rootStore = createRootStore({ userId: 'alice', client, connectLive: live.connect, watchConnectivity: () => () => undefined });
+    stop = rootStore.start();
+    await flushPromises();
+  });
+
+  afterEach(() => {
+    stop();
+  });
+
+  it('should show books other clients add, change and delete without reloading', () => {
+    teammate('POST', '/private', { name: 'Teammate Book', author: 'Bob' });
+    teammate('PATCH', '/1', { name: 'Renamed Elsewhere' });
+    teammate('DELETE', '/2');
+
+    expect(rootStore.books.books.map((book) => book.name)).toEqual(['Renamed Elsewhere', 'Teammate Book']);
+    expect(rootStore.books.privateBooksCount).toBe(1);
+  });
+
+  it('should reconnect after the connection drops and reload what it missed', async () => {
+    jest.useFakeTimers();
+    live.disconnectAll();
+    teammate('POST', '/', { name: 'Missed Book', author: 'Bob' });
+    expect(rootStore.books.books.map((book) => book.name)).not.toContain('Missed Book');
+
+    jest.advanceTimersByTime(30000);
+    jest.useRealTimers();
+    await flushPromises();
+    await flushPromises();
+
+    expect(live.openConnections).toBe(1);
+    expect(rootStore.books.books.map((book) => book.name)).toContain('Missed Book');
+  });
+
+  it('should stop listening once stopped', () => {
+    stop();
+
+    expect(live.openConnections).toBe(0);
+  });
+});
@@ -0,0 +1,23 @@
+import { bookEventsUrl, parseBookEvent } from '../Books.live';
+
+describe('Books live updates', () => {
+  it('should decode valid book events', () => {
+    expect(parseBookEvent('{"type":"created","book":{"id":7,"name":"Dune","author":"Frank Herbert"},"isPrivate":true}')).toEqual({
+      type: 'created',
+      book: { id: 7, name: 'Dune', author: 'Frank Herbert' },
+      isPrivate: true,
+    });
+    expect(parseBookEvent('{"type":"deleted","id":7}')).toEqual({ type: 'deleted', id: 7 });
+  });
+
+  it('should reject messages that are not book events', () => {
+    expect(parseBookEvent('not json')).toBeNull();
+    expect(parseBookEvent('{"type":"renamed","id":7}')).toBeNull();
+    expect(parseBookEvent('{"type":"updated","book":{"name":"No id","author":"Anon"}}')).toBeNull();
+  });
+
+  it('should put the access token in the stream URL', () => {
+    expect(bookEventsUrl('https://books.test/v1/books', 'alice', null)).toBe('https://books.test/v1/books/alice/events');
+    expect(bookEventsUrl('https://books.test/v1/books', 'alice', 'a b')).toBe('https://books.test/v1/books/alice/events?access_token=a%20b');
+  });
+});
@@ -0,0 +1,35 @@
+import { readingProgress, readingStatusChanges } from '../Books.reading';
+import { Book } from '../types';
+
+describe('Books reading', () => {
+  const book: Book = { id: 1, name: 'Dune', author: 'Frank Herbert', totalPages: 412 };
+  const today = new Date(2024, 4, 9);
+
+  describe('readingStatusChanges', () => {
+    it('should start the book today unless it has a start date', () => {
+      expect(readingStatusChanges(book, 'reading', today)).toEqual({ status: 'reading', startedAt: '2024-05-09' });
+      expect(readingStatusChanges({ ...book, startedAt: '2024-05-01' }, 'reading', today)).toEqual({ status: 'reading' });
+    });
+
+    it('should finish the book today on its last page, never before it was started', () => {
+      expect(readingStatusChanges({ ...book, status: 'reading', startedAt: '2024-05-01' }, 'finished', today)).toEqual({
+        status: 'finished',
+        finishedAt: '2024-05-09',
+        currentPage: 412,
+      });
+      expect(readingStatusChanges({ ...book, startedAt: '2024-06-01' }, 'abandoned', today)).toEqual({
+        status: 'abandoned',
+        finishedAt: '2024-06-01',
+      });
+      expect(readingStatusChanges({ ...book, status: 'finished' }, 'finished', today)).toEqual({});
+    });
+  });
+
+  describe('readingProgress', () => {
+    it('should give the share of pages read, when both page numbers are known', () => {
+      expect(readingProgress({ ...book, currentPage: 103 })).toBe(25);
+      expect(readingProgress({ ...book, currentPage: 500 })).toBe(100);
+      expect(readingProgress(book)).toBeNull();
+    });
+  });
+});
@@ -1,17 +1,35 @@
-import * as booksRepository from '../Books.repository';
-import { get, post } from '../../Shared/ApiGateway';
+import { createBooksRepository } from '../Books.repository';
+import { createHttpClient, HttpRequest, HttpResponse, HttpTransport } from '../../Shared/HttpClient';
+import { RequestCancelledError, ResponseValidationError } from '../../Shared/ApiError';
+import { createUserSession } from '../../Shared/UserSession';
 import { Book, BookAddResponse } from '../types';
 
-// Mock the ApiGateway functions
-jest.mock('../../Shared/ApiGateway', () => ({
-  get: jest.fn(),
-  post: jest.fn(),
-}));
+const API_URL = 'https://books.test/v1/books';
+const BASE_URL = `${API_URL}/user`;
+
+// Builds a raw transport response with a JSON body
+const jsonResponse = (body: unknown, status = 200): HttpResponse => ({
+  status,
+  statusText: status === 200 ? 'OK' : 'Error',
+  headers: {},
+  body: body === undefined ? '' : JSON.stringify(body),
+});
 
 describe('Books Repository', () => {
-  // Reset mocks before each test
+  let transport: jest.Mock<Promise<HttpResponse>, [HttpRequest]>;
+  let booksRepository: ReturnType<typeof createBooksRepository>;
+
+  // Returns the request the fake transport received on the given call
+  const sentRequest = (call = 0): HttpRequest => transport.mock.calls[call][0];
+  const sentPayload = (call = 0) => JSON.parse(sentRequest(call).body as string);
+
+  // Create a fresh repository over a fake transport before each test
   beforeEach(() => {
-    jest.clearAllMocks();
+    transport = jest.fn();
+    booksRepository = createBooksRepository(
+      createHttpClient({ baseUrl: API_URL, transport: transport as HttpTransport, retry: { retries: 0 } }),
+      createUserSession('user')
+    );
   });
 
   describe('getBooks', () => {
@@ -23,19 +41,29 @@ describe('Books Repository', () => {
       ];
 
       // Setup mock
-      (get as jest.Mock).mockResolvedValueOnce(mockBooksData);
+      transport.mockResolvedValueOnce(jsonResponse(mockBooksData));
 
       // Call the method
       const result = await booksRepository.getBooks();
 
       // Assertions
-      expect(get).toHaveBeenCalledWith('/');
+      expect(sentRequest().method).toBe('GET');
+      expect(sentRequest().url).toBe(`${BASE_URL}/`);
       expect(result).toEqual(mockBooksData);
     });
 
+    it('should request a single page when one is given', async () => {
+      transport.mockResolvedValueOnce(jsonResponse([{ id: 51, name: 'Test Book 51', author: 'Author 51' }]));
+
+      const result = await booksRepository.getBooks(undefined, undefined, { page: 2, limit: 50 });
+
+      expect(sentRequest().url).toBe(`${BASE_URL}/?page=2&limit=50`);
+      expect(result).toEqual([{ id: 51, name: 'Test Book 51', author: 'Author 51' }]);
+    });
+
     it('should handle empty API response', async () => {
-      // Setup mock for null response
-      (get as jest.Mock).mockResolvedValueOnce(null);
+      // Setup mock for empty body
+      transport.mockResolvedValueOnce(jsonResponse(undefined));
 
       // Call the method
       const result = await booksRepository.getBooks();
@@ -46,7 +74,8 @@ describe('Books Repository', () => {
 
     it('should handle non-array API response', async () => {
       // Setup mock for non-array response
-      (get as jest.Mock).mockResolvedValueOnce({});
+      transport.mockResolvedValueOnce(jsonResponse({}));
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
 
       // Call the method
       const result = await booksRepository.getBooks();
@@ -54,6 +83,62 @@ describe('Books Repository', () => {
       // Assertions
       expect(result).toEqual([]);
     });
+
+    it('should keep the details of books and accept books without them', async () => {
+      transport.mockResolvedValueOnce(jsonResponse([
+        { id: 1, name: 'Old', author: 'Author 1' },
+        { id: 2, name: 'New', author: 'Author 2', isbn: '9780306406157', year: 2001, rating: 4, genres: ['Fantasy'], notes: null },
+      ]));
+
+      const result = await booksRepository.getBooks();
+
+      expect(result).toEqual([
+        { id: 1, name: 'Old', author: 'Author 1' },
+        { id: 2, name: 'New', author: 'Author 2', isbn: '9780306406157', year: 2001, rating: 4, genres: ['Fantasy'] },
+      ]);
+    });
+
+    it('should drop malformed books and report them', async () => {
+      const onIssues = jest.fn();
+      transport.mockResolvedValueOnce(jsonResponse([
+        { id: 1, name: 'Valid', author: 'Author 1' },
+        { id: 'two', name: 'Bad id', author: 'Author 2' },
+        { id: 3, author: 'No name' },
+      ]));
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const result = await booksRepository.getBooks(undefined, onIssues);
+
+      expect(result).toEqual([{ id: 1, name: 'Valid', author: 'Author 1' }]);
+      expect(onIssues).toHaveBeenCalledWith([
+        { path: '[1].id', message: 'Expected a number, got string' },
+        { path: '[2].name', message: 'Expected a string, got undefined' },
+      ]);
+    });
+
+    it('should reject with the API error message', async () => {
+      transport.mockResolvedValueOnce(jsonResponse({ message: 'Service unavailable' }, 503));
+
+      await expect(booksRepository.getBooks()).rejects.toThrow('Service unavailable');
+    });
+  });
+
+  describe('user session', () => {
+    it('should send requests for the session\'s current user', async () => {
+      const session = createUserSession('alice');
+      booksRepository = createBooksRepository(
+        createHttpClient({ baseUrl: API_URL, transport: transport as HttpTransport, retry: { retries: 0 } }),
+        session
+      );
+      transport.mockResolvedValue(jsonResponse([]));
+
+      await booksRepository.getBooks();
+      session.setUserId('bob');
+      await booksRepository.getPrivateBooks();
+
+      expect(sentRequest(0).url).toBe(`${API_URL}/alice/`);
+      expect(sentRequest(1).url).toBe(`${API_URL}/bob/private`);
+    });
   });
 
   describe('getPrivateBooks', () => {
@@ -64,19 +149,29 @@ describe('Books Repository', () => {
       ];
 
       // Setup mock
-      (get as jest.Mock).mockResolvedValueOnce(mockPrivateBooksData);
+      transport.mockResolvedValueOnce(jsonResponse(mockPrivateBooksData));
 
       // Call the method
       const result = await booksRepository.getPrivateBooks();
 
       // Assertions
-      expect(get).toHaveBeenCalledWith('/private');
+      expect(sentRequest().url).toBe(`${BASE_URL}/private`);
       expect(result).toEqual(mockPrivateBooksData);
     });
 
+    it('should reject instead of returning an empty list when cancelled', async () => {
+      const controller = new AbortController();
+      transport.mockImplementationOnce(() => new Promise<HttpResponse>(() => undefined));
+
+      const result = booksRepository.getPrivateBooks(controller.signal);
+      controller.abort();
+
+      await expect(result).rejects.toBeInstanceOf(RequestCancelledError);
+    });
+
     it('should handle empty API response', async () => {
-      // Setup mock for null response
-      (get as jest.Mock).mockResolvedValueOnce(null);
+      // Setup mock for empty body
+      transport.mockResolvedValueOnce(jsonResponse(undefined));
 
       // Call the method
       const result = await booksRepository.getPrivateBooks();
@@ -87,89 +182,180 @@ describe('Books Repository', () => {
   });
 
   describe('addBook', () => {
-    it('should send book data with generated ID to API and return success', async () => {
+    it('should send book data with generated ID to API and return the created book', async () => {
       // Sample data
       const bookData = { name: 'New Book', author: 'New Author' };
       const mockResponse: BookAddResponse = { status: 'ok', id: 123 };
 
       // Setup mock
-      (post as jest.Mock).mockResolvedValueOnce(mockResponse);
+      transport.mockResolvedValueOnce(jsonResponse(mockResponse));
 
       // Call the method
       const result = await booksRepository.addBook(bookData);
 
       // Assertions
-      expect(post).toHaveBeenCalled();
-      
+      expect(sentRequest().method).toBe('POST');
+      expect(sentRequest().url).toBe(`${BASE_URL}/`);
+      expect(sentRequest().headers['Content-Type']).toBe('application/json');
+
       // Verify that an ID was added to the payload
-      const postCall = (post as jest.Mock).mock.calls[0];
-      const sentPayload = postCall[1];
-      expect(sentPayload).toHaveProperty('id');
-      expect(typeof sentPayload.id).toBe('number');
-      expect(sentPayload.name).toBe(bookData.name);
-      expect(sentPayload.author).toBe(bookData.author);
-      
-      expect(result).toBe(true);
+      const payload = sentPayload();
+      expect(payload).toHaveProperty('id');
+      expect(typeof payload.id).toBe('number');
+      expect(payload.name).toBe(bookData.name);
+      expect(payload.author).toBe(bookData.author);
+
+      expect(result).toEqual({ id: 123, name: 'New Book', author: 'New Author' });
     });
 
-    it('should return false when API returns non-ok status', async () => {
+    it('should post a private book to the private shelf', async () => {
+      transport.mockResolvedValueOnce(jsonResponse({ status: 'ok', id: 9 }));
+
+      const result = await booksRepository.addBook({ name: 'New Book', author: 'New Author' }, true);
+
+      expect(sentRequest().url).toBe(`${BASE_URL}/private`);
+      expect(result).toEqual({ id: 9, name: 'New Book', author: 'New Author' });
+    });
+
+    it('should send and return the optional details', async () => {
+      transport.mockResolvedValueOnce(jsonResponse({ status: 'ok', id: 5 }));
+
+      const result = await booksRepository.addBook({ name: 'New Book', author: 'New Author', year: 2001, genres: ['Fantasy'] });
+
+      expect(sentPayload()).toMatchObject({ year: 2001, genres: ['Fantasy'] });
+      expect(result).toEqual({ id: 5, name: 'New Book', author: 'New Author', year: 2001, genres: ['Fantasy'] });
+    });
+
+    it('should fall back to the generated ID when API does not return one', async () => {
+      const bookData = { name: 'New Book', author: 'New Author' };
+      transport.mockResolvedValueOnce(jsonResponse({ status: 'ok' }));
+
+      const result = await booksRepository.addBook(bookData);
+
+      expect(result).toEqual({ id: sentPayload().id, name: 'New Book', author: 'New Author' });
+    });
+
+    it('should return null when API returns non-ok status', async () => {
       // Sample data
       const bookData = { name: 'New Book', author: 'New Author' };
       const mockResponse: BookAddResponse = { status: 'error' };
 
       // Setup mock
-      (post as jest.Mock).mockResolvedValueOnce(mockResponse);
+      transport.mockResolvedValueOnce(jsonResponse(mockResponse));
 
       // Call the method
       const result = await booksRepository.addBook(bookData);
 
       // Assertions
       // Verify that an ID was still added despite the error
-      const postCall = (post as jest.Mock).mock.calls[0];
-      const sentPayload = postCall[1];
-      expect(sentPayload).toHaveProperty('id');
-      
-      expect(result).toBe(false);
+      expect(sentPayload()).toHaveProperty('id');
+
+      expect(result).toBeNull();
     });
 
-    it('should return false when API returns null', async () => {
+    it('should return null when API returns an empty body', async () => {
       // Sample data
       const bookData = { name: 'New Book', author: 'New Author' };
 
       // Setup mock
-      (post as jest.Mock).mockResolvedValueOnce(null);
+      transport.mockResolvedValueOnce(jsonResponse(undefined));
 
       // Call the method
       const result = await booksRepository.addBook(bookData);
 
       // Assertions
       // Verify that an ID was still added
-      const postCall = (post as jest.Mock).mock.calls[0];
-      const sentPayload = postCall[1];
-      expect(sentPayload).toHaveProperty('id');
-      
-      expect(result).toBe(false);
+      expect(sentPayload()).toHaveProperty('id');
+
+      expect(result).toBeNull();
+    });
+
+    it('should reject a response that does not match the schema', async () => {
+      transport.mockResolvedValueOnce(jsonResponse({ status: 'ok', id: 'abc' }));
+
+      const result = booksRepository.addBook({ name: 'New Book', author: 'New Author' });
+
+      await expect(result).rejects.toBeInstanceOf(ResponseValidationError);
+      await expect(result).rejects.toMatchObject({ issues: [{ path: 'id', message: 'Expected a number, got string' }] });
     });
-    
+
     it('should generate different IDs for different books', async () => {
       // Sample data for two books
       const bookData1 = { name: 'Book 1', author: 'Author 1' };
       const bookData2 = { name: 'Book 2', author: 'Author 2' };
-      
+
       // Setup mocks
-      (post as jest.Mock).mockResolvedValueOnce({ status: 'ok' });
-      (post as jest.Mock).mockResolvedValueOnce({ status: 'ok' });
-      
+      transport.mockResolvedValueOnce(jsonResponse({ status: 'ok' }));
+      transport.mockResolvedValueOnce(jsonResponse({ status: 'ok' }));
+
       // Call the method twice
       await booksRepository.addBook(bookData1);
       await booksRepository.addBook(bookData2);
-      
-      // Get the payloads that were sent
-      const firstPayload = (post as jest.Mock).mock.calls[0][1];
-      const secondPayload = (post as jest.Mock).mock.calls[1][1];
-      
+
       // Verify that different IDs were generated
-      expect(firstPayload.id).not.toBe(secondPayload.id);
+      expect(sentPayload(0).id).not.toBe(sentPayload(1).id);
+    });
+  });
+
+  describe('updateBook', () => {
+    it('should PATCH the changed fields to the book path', async () => {
+      transport.mockResolvedValueOnce(jsonResponse({ status: 'ok' }));
+
+      const result = await booksRepository.updateBook(7, { name: 'Fixed Title' });
+
+      expect(sentRequest().method).toBe('PATCH');
+      expect(sentRequest().url).toBe(`${BASE_URL}/7`);
+      expect(sentPayload()).toEqual({ name: 'Fixed Title' });
+      expect(result).toBe(true);
+    });
+
+    it('should return false when API returns non-ok status', async () => {
+      transport.mockResolvedValueOnce(jsonResponse({ status: 'error' }));
+
+      const result = await booksRepository.updateBook(7, { author: 'Someone' });
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('setBookPrivate', () => {
+    it('should PUT to make a book private and DELETE to make it public', async () => {
+      transport.mockResolvedValue(jsonResponse({ status: 'ok' }));
+
+      expect(await booksRepository.setBookPrivate(7, true)).toBe(true);
+      expect(await booksRepository.setBookPrivate(7, false)).toBe(true);
+
+      expect(sentRequest(0).method).toBe('PUT');
+      expect(sentRequest(0).url).toBe(`${BASE_URL}/7/private`);
+      expect(sentRequest(1).method).toBe('DELETE');
+      expect(sentRequest(1).url).toBe(`${BASE_URL}/7/private`);
+    });
+
+    it('should return false when API returns non-ok status', async () => {
+      transport.mockResolvedValueOnce(jsonResponse({ status: 'error' }));
+
+      expect(await booksRepository.setBookPrivate(7, true)).toBe(false);
+    });
+  });
+
+  describe('deleteBook', () => {
+    it('should DELETE the book path', async () => {
+      transport.mockResolvedValueOnce(jsonResponse({ status: 'ok' }));
+
+      const result = await booksRepository.deleteBook(7);
+
+      expect(sentRequest().method).toBe('DELETE');
+      expect(sentRequest().url).toBe(`${BASE_URL}/7`);
+      expect(sentRequest().body).toBeUndefined();
+      expect(result).toBe(true);
+    });
+
+    it('should return false when API returns an empty body', async () => {
+      transport.mockResolvedValueOnce(jsonResponse(undefined));
+
+      const result = await booksRepository.deleteBook(7);
+
+      expect(result).toBe(false);
     });
   });
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,70 @@
+import { computeBookStats, countByAuthor, longestReadingStreak } from '../Books.stats';
+import { Book } from '../types';
+
+describe('Books stats', () => {
+  const books: Book[] = [
+    { id: 1, name: 'Dune', author: 'Frank Herbert', rating: 5, status: 'finished', startedAt: '2023-12-28', finishedAt: '2024-01-03' },
+    { id: 2, name: 'Dune Messiah', author: 'Frank Herbert', rating: 4, status: 'finished', startedAt: '2024-01-04', finishedAt: '2024-01-10' },
+    { id: 3, name: 'Emma', author: 'Jane Austen', rating: 4, status: 'finished', finishedAt: '2024-04-02' },
+    { id: 4, name: 'Persuasion', author: 'Jane Austen', status: 'finished' },
+    { id: 5, name: 'Ubik', author: 'Philip K. Dick', status: 'reading', startedAt: '2024-05-20' },
+    { id: 6, name: 'Solaris', author: 'Stanisław Lem', status: 'abandoned', startedAt: 'someday' },
+  ];
+
+  describe('computeBookStats', () => {
+    it('should aggregate the books', () => {
+      const stats = computeBookStats(books, [3, 6, 99], new Date(2024, 5, 1));
+
+      expect(stats.total).toBe(6);
+      expect(stats.finishedCount).toBe(4);
+      expect(stats.finishedPerMonth).toEqual([
+        { period: '2024-01', count: 2 },
+        { period: '2024-02', count: 0 },
+        { period: '2024-03', count: 0 },
+        { period: '2024-04', count: 1 },
+      ]);
+      expect(stats.finishedPerYear).toEqual([{ period: '2024', count: 3 }]);
+      expect(stats.averageRating).toBeCloseTo(13 / 3);
+      expect(stats.ratedCount).toBe(3);
+      expect(stats.privateCount).toBe(2);
+      expect(stats.publicCount).toBe(4);
+      expect(stats.longestStreak).toEqual({ days: 14, from: '2023-12-28', to: '2024-01-10' });
+    });
+
+    it('should report nothing for an empty list', () => {
+      expect(computeBookStats([], [])).toMatchObject({
+        total: 0,
+        authorCounts: [],
+        finishedPerMonth: [],
+        finishedPerYear: [],
+        averageRating: null,
+        longestStreak: null,
+      });
+    });
+  });
+
+  describe('countByAuthor', () => {
+    it('should put the authors with the most books first, then sort by name', () => {
+      expect(countByAuthor(books)).toEqual([
+        { author: 'Frank Herbert', count: 2 },
+        { author: 'Jane Austen', count: 2 },
+        { author: 'Philip K. Dick', count: 1 },
+        { author: 'Stanisław Lem', count: 1 },
+      ]);
+    });
+  });
+
+  describe('longestReadingStreak', () => {
+    it('should count a book still being read until today', () => {
+      expect(longestReadingStreak(books, '2024-06-30')).toEqual({ days: 42, from: '2024-05-20', to: '2024-06-30' });
+    });
+
+    it('should join periods across a year and a leap day', () => {
+      const spans: Book[] = [
+        { name: 'A', author: 'X', startedAt: '2024-02-27', finishedAt: '2024-02-29' },
+        { name: 'B', author: 'X', startedAt: '2024-03-01', finishedAt: '2024-03-02' },
+      ];
+      expect(longestReadingStreak(spans, '2024-06-30')).toEqual({ days: 5, from: '2024-02-27', to: '2024-03-02' });
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  isValidIsbn,
+  MAX_NAME_LENGTH,
+  normalizeBookDetails,
+  validateAuthorName,
+  validateBookDetails,
+  validateBookName,
+} from '../Books.validation';
+
+describe('Books validation', () => {
+  describe('isValidIsbn', () => {
+    it('should accept ISBN-10 and ISBN-13 with a matching check digit', () => {
+      expect(isValidIsbn('0-306-40615-2')).toBe(true);
+      expect(isValidIsbn('0-8044-2957-x')).toBe(true);
+      expect(isValidIsbn('978 0 306 40615 7')).toBe(true);
+    });
+
+    it('should reject a wrong check digit or length', () => {
+      expect(isValidIsbn('0-306-40615-3')).toBe(false);
+      expect(isValidIsbn('978-0-306-40615-8')).toBe(false);
+      expect(isValidIsbn('12345')).toBe(false);
+      expect(isValidIsbn('97803064061X7')).toBe(false);
+    });
+  });
+
+  describe('normalizeBookDetails', () => {
+    it('should trim the details and leave out blank ones', () => {
+      expect(normalizeBookDetails({
+        isbn: '978-0-306-40615-7',
+        genres: [' Fantasy', '', 'Fantasy', 'Classic '],
+        coverUrl: '  ',
+        notes: ' Loved it ',
+      })).toEqual({ isbn: '9780306406157', genres: ['Fantasy', 'Classic'], notes: 'Loved it' });
+    });
+  });
+
+  describe('validateBookName and validateAuthorName', () => {
+    it('should accept trimmed text within the length limit', () => {
+      expect(validateBookName('  Dune ')).toBeNull();
+      expect(validateBookName('x'.repeat(MAX_NAME_LENGTH))).toBeNull();
+      expect(validateAuthorName('Ursula K. Le Guin')).toBeNull();
+    });
+
+    it('should reject blank, too long or disallowed text', () => {
+      expect(validateBookName('   ')).toBe('Book name cannot be empty.');
+      expect(validateBookName('x'.repeat(MAX_NAME_LENGTH + 1))).toBe(`Book name cannot be longer than ${MAX_NAME_LENGTH} characters.`);
+      expect(validateAuthorName('<script>')).toBe('Author cannot contain line breaks, control characters, < or >.');
+      expect(validateAuthorName('Frank\nHerbert')).toMatch(/line breaks/);
+      expect(validateBookName('Dune\u0000')).toMatch(/control characters/);
+      expect(validateBookName('Dune\u007f')).toMatch(/control characters/);
+      expect(validateBookName('Dune \u00e9t\u00e9')).toBeNull();
+    });
+  });
+
+  describe('validateBookDetails', () => {
+    it('should accept valid details', () => {
+      expect(validateBookDetails({
+        isbn: '9780306406157',
+        year: 2001,
+        genres: ['Fantasy'],
+        coverUrl: 'https://covers.test/1.jpg',
+        rating: 5,
+        notes: 'Great',
+      }, 2025)).toEqual({});
+    });
+
+    it('should report every invalid detail', () => {
+      const fieldErrors = validateBookDetails({
+        isbn: '123',
+        year: 2030,
+        coverUrl: 'ftp://covers.test/1.jpg',
+        rating: 4.5,
+        notes: 'x'.repeat(2001),
+      }, 2025);
+
+      expect(Object.keys(fieldErrors).sort()).toEqual(['coverUrl', 'isbn', 'notes', 'rating', 'year']);
+    });
+
+    it('should check the reading dates and pages against each other', () => {
+      expect(validateBookDetails({
+        status: 'reading',
+        startedAt: '2024-02-29',
+        finishedAt: '2024-03-01',
+        currentPage: 0,
+        totalPages: 320,
+      })).toEqual({});
+
+      expect(validateBookDetails({ startedAt: '2024-05-02', finishedAt: '2024-05-01', currentPage: 321, totalPages: 320 })).toEqual({
+        finishedAt: 'Finish date cannot be before the start date.',
+        currentPage: 'Current page cannot be past the last page.',
+      });
+      expect(Object.keys(validateBookDetails({ startedAt: '2023-02-29', finishedAt: '1 May', totalPages: 0 })).sort())
+        .toEqual(['finishedAt', 'startedAt', 'totalPages']);
+    });
+  });
+});
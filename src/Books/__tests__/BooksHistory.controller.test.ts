@@ -0,0 +1,198 @@
+import { runInAction } from 'mobx';
+import { createBooksStore, BooksRepository, BooksStore } from '../Books.controller';
+import { createBooksHistoryStore, BooksHistoryStore } from '../BooksHistory.controller';
+import { createBooksOfflineStore } from '../BooksOffline.controller';
+import { createMockBooksRepository } from '../Books.testing';
+import { Book } from '../types';
+import { NotFoundError } from '../../Shared/ApiError';
+import { mockConsole } from '../../Shared/testing';
+import { createUserSession } from '../../Shared/UserSession';
+
+mockConsole();
+
+const allBooksSample: Book[] = [
+  { id: 1, name: 'Book 1', author: 'Author 1' },
+  { id: 2, name: 'Book 2', author: 'Author 2' },
+  { id: 3, name: 'Book 3', author: 'Author 3' },
+  { id: 4, name: 'Book 4', author: 'Author 4' },
+];
+
+const privateBooksSample: Book[] = [
+  { id: 1, name: 'Book 1', author: 'Author 1' },
+  { id: 3, name: 'Book 3', author: 'Author 3' },
+];
+
+describe('Books history', () => {
+  let books: BooksStore;
+  let history: BooksHistoryStore;
+  let mockRepository: BooksRepository;
+
+  const notFound = () => new NotFoundError('Book not found', { status: 404, url: 'https://api.test/1', method: 'DELETE' });
+
+  beforeEach(() => {
+    mockRepository = createMockBooksRepository({ books: allBooksSample, privateBooks: privateBooksSample });
+    books = createBooksStore(mockRepository, { session: createUserSession('alice') });
+    history = createBooksHistoryStore(books);
+    runInAction(() => {
+      books.books = allBooksSample.slice();
+      books.privateBookIds = [1, 3];
+    });
+  });
+
+  it('should undo an added book by deleting it and redo it by adding it again', async () => {
+    (mockRepository.addBook as jest.Mock).mockImplementationOnce((bookData) => Promise.resolve({ ...bookData, id: 100 }));
+    await books.addBook('New Book', 'New Author', { year: 2001 });
+
+    expect(history.toastMessage).toBe('Book added');
+    expect(history.canUndo).toBe(true);
+
+    await expect(history.undo()).resolves.toBe(true);
+
+    expect(mockRepository.deleteBook).toHaveBeenCalledWith(100);
+    expect(books.books.map((book: Book) => book.id)).toEqual([1, 2, 3, 4]);
+    expect(history.toastMessage).toBeNull();
+    expect(history.canRedo).toBe(true);
+
+    (mockRepository.addBook as jest.Mock).mockResolvedValueOnce({ id: 101, name: 'New Book', author: 'New Author', year: 2001 });
+    await expect(history.redo()).resolves.toBe(true);
+
+    expect(mockRepository.addBook).toHaveBeenLastCalledWith({ name: 'New Book', author: 'New Author', year: 2001 }, false);
+    expect(history.undoStack).toEqual([{ kind: 'add', book: { id: 101, name: 'New Book', author: 'New Author', year: 2001 }, isPrivate: false }]);
+    expect(history.redoStack).toEqual([]);
+  });
+
+  it('should undo an edit by sending the previous values', async () => {
+    await books.updateBook(2, { name: 'Renamed' });
+
+    await history.undo();
+
+    expect(mockRepository.updateBook).toHaveBeenLastCalledWith(2, { name: 'Book 2' });
+    expect(books.books[1].name).toBe('Book 2');
+  });
+
+  it('should clear a reading date or page count sent as null, and restore it on undo', async () => {
+    const tracked: Book = { id: 1, name: 'Book 1', author: 'Author 1', status: 'reading', startedAt: '2024-03-01', currentPage: 40, totalPages: 200 };
+    runInAction(() => {
+      books.books = [tracked];
+    });
+
+    await books.updateBook(1, { startedAt: null, totalPages: null });
+
+    expect(mockRepository.updateBook).toHaveBeenCalledWith(1, { startedAt: null, totalPages: null });
+    expect(books.books[0]).toEqual({ id: 1, name: 'Book 1', author: 'Author 1', status: 'reading', currentPage: 40 });
+    expect(books.books[0]).not.toHaveProperty('startedAt');
+
+    await history.undo();
+
+    expect(mockRepository.updateBook).toHaveBeenLastCalledWith(1, { startedAt: '2024-03-01', totalPages: 200 });
+    expect(books.books[0]).toEqual(tracked);
+  });
+
+  it('should undo a deletion by adding the book again and follow its new id', async () => {
+    (mockRepository.getPrivateBooks as jest.Mock).mockResolvedValueOnce(privateBooksSample.slice(1));
+    await books.updateBook(1, { author: 'Someone' });
+    await books.deleteBook(1);
+    (mockRepository.addBook as jest.Mock).mockResolvedValueOnce({ id: 200, name: 'Book 1', author: 'Someone' });
+
+    await history.undo();
+
+    expect(mockRepository.addBook).toHaveBeenCalledWith({ name: 'Book 1', author: 'Someone' }, true);
+    expect(history.redoStack).toEqual([{ kind: 'delete', book: { id: 200, name: 'Book 1', author: 'Someone' }, isPrivate: true }]);
+
+    await history.undo();
+
+    expect(mockRepository.updateBook).toHaveBeenLastCalledWith(200, { author: 'Author 1' });
+  });
+
+  it('should undo moving a book onto the private shelf', async () => {
+    (mockRepository.getPrivateBooks as jest.Mock).mockResolvedValueOnce(privateBooksSample.concat(allBooksSample[1]));
+    await books.setBookPrivate(2, true);
+    expect(history.toastMessage).toBe('Book made private');
+
+    await history.undo();
+
+    expect(mockRepository.setBookPrivate).toHaveBeenLastCalledWith(2, false);
+  });
+
+  it('should keep the change when undoing fails, and drop it when the book is gone', async () => {
+    await books.addBook('New Book', 'New Author');
+    (mockRepository.deleteBook as jest.Mock).mockRejectedValueOnce(new Error('Server is busy'));
+
+    await expect(history.undo()).resolves.toBe(false);
+
+    expect(books.errorMessage).toBe('Could not undo "Book added": Server is busy');
+    expect(books.books.map((book: Book) => book.id)).toEqual([1, 2, 3, 4, 100]);
+    expect(history.undoStack).toHaveLength(1);
+
+    (mockRepository.deleteBook as jest.Mock).mockRejectedValueOnce(notFound());
+    await history.undo();
+
+    expect(books.errorMessage).toBe('Could not undo "Book added": the book no longer exists.');
+    expect(history.undoStack).toEqual([]);
+    expect(history.redoStack).toEqual([]);
+  });
+
+  it('should refuse to undo while offline', async () => {
+    await books.addBook('New Book', 'New Author');
+    await books.setOnline(false);
+
+    await expect(history.undo()).resolves.toBe(false);
+
+    expect(mockRepository.deleteBook).not.toHaveBeenCalled();
+    expect(books.error).toMatchObject({ kind: 'outage', message: 'Changes can only be undone while online.' });
+  });
+
+  it('should forget undone changes once a new change is made', async () => {
+    await books.updateBook(2, { name: 'Renamed' });
+    await history.undo();
+
+    await books.updateBook(3, { name: 'Other' });
+
+    expect(history.canRedo).toBe(false);
+    expect(history.undoStack).toHaveLength(1);
+  });
+
+  it('should take a book still queued off the queue when its add is undone', async () => {
+    await books.setOnline(false);
+    await books.addBook('Queued Book', 'Someone');
+    runInAction(() => {
+      books.isOnline = true;
+    });
+
+    await history.undo();
+
+    expect(mockRepository.deleteBook).not.toHaveBeenCalled();
+    expect(books.queuedBooks).toEqual([]);
+    expect(books.books.map((book: Book) => book.id)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should follow a book added offline to the id it gets once synced', async () => {
+    const offline = createBooksOfflineStore(books, mockRepository);
+    await books.setOnline(false);
+    await books.addBook('Queued Book', 'Someone');
+    (mockRepository.addBook as jest.Mock).mockResolvedValueOnce({ id: 300, name: 'Queued Book', author: 'Someone' });
+    runInAction(() => {
+      books.isOnline = true;
+    });
+    await offline.syncPendingBooks();
+
+    await history.undo();
+
+    expect(mockRepository.deleteBook).toHaveBeenCalledWith(300);
+    expect(books.books.map((book: Book) => book.id)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should forget the changes of a book deleted elsewhere, and the whole history on switching users', async () => {
+    await books.updateBook(2, { name: 'Renamed' });
+    await books.updateBook(3, { name: 'Other' });
+
+    books.applyBookEvent({ type: 'deleted', id: 2 });
+
+    expect(history.undoStack).toEqual([expect.objectContaining({ id: 3 })]);
+
+    await books.switchUser('bob');
+
+    expect(history.canUndo).toBe(false);
+    expect(history.toastMessage).toBeNull();
+  });
+});
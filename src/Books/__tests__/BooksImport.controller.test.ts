@@ -0,0 +1,167 @@
+import { runInAction } from 'mobx';
+import { createBooksStore, BooksRepository, BooksStore } from '../Books.controller';
+import { createBooksImportStore, BooksImportStore, IMPORT_BATCH_SIZE } from '../BooksImport.controller';
+import { createMockBooksRepository } from '../Books.testing';
+import { Book } from '../types';
+import { NetworkError, ValidationError } from '../../Shared/ApiError';
+import { deferred, mockConsole } from '../../Shared/testing';
+import { createUserSession } from '../../Shared/UserSession';
+
+mockConsole();
+
+const allBooksSample: Book[] = [
+  { id: 1, name: 'Book 1', author: 'Author 1' },
+  { id: 2, name: 'Book 2', author: 'Author 2' },
+  { id: 3, name: 'Book 3', author: 'Author 3' },
+  { id: 4, name: 'Book 4', author: 'Author 4' },
+];
+
+const csvOf = (rows: string[]) => ['name,author,rating'].concat(rows).join('\n');
+
+describe('Books import and export', () => {
+  let books: BooksStore;
+  let importer: BooksImportStore;
+  let mockRepository: BooksRepository;
+
+  beforeEach(async () => {
+    mockRepository = createMockBooksRepository({ books: allBooksSample, privateBooks: [allBooksSample[0]] });
+    books = createBooksStore(mockRepository, { session: createUserSession('alice') });
+    importer = createBooksImportStore(books, mockRepository);
+    await books.loadBooks();
+  });
+
+  it('should preview the rows with their errors and the loaded books they repeat', () => {
+    importer.previewImport(csvOf(['New Book,New Author,', 'book 1,author 1,', 'Bad Rating,Someone,9']), 'books.csv');
+
+    const rows = importer.importPreview ? importer.importPreview.rows : [];
+    expect(rows.map((row) => row.duplicateOf && row.duplicateOf.id)).toEqual([null, 1, null]);
+    expect(rows[2].fieldErrors).toEqual({ rating: 'Rating must be a whole number from 1 to 5.' });
+  });
+
+  it('should report a file that cannot be read as a validation error', () => {
+    importer.previewImport('[oops', 'books.json');
+
+    expect(importer.importPreview).toBeNull();
+    expect(books.error).toMatchObject({ kind: 'validation', fieldErrors: { importFile: 'The file is not valid JSON.' } });
+  });
+
+  it('should add the valid rows in batches, skip duplicates and reload the lists', async () => {
+    const rows = Array.from({ length: IMPORT_BATCH_SIZE + 2 }, (_, i) => `Imported ${i},Author,`);
+    importer.previewImport(csvOf(rows.concat('Book 1,Author 1,', ',No Name,')), 'books.csv');
+    const firstBatch = deferred<Book>();
+    (mockRepository.addBook as jest.Mock).mockReturnValueOnce(firstBatch.promise);
+    jest.spyOn(books, 'loadBooks').mockResolvedValueOnce();
+
+    const importing = importer.runImport();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    // The second batch waits until every book of the first one is answered
+    expect(mockRepository.addBook).toHaveBeenCalledTimes(IMPORT_BATCH_SIZE);
+    expect(importer.isImporting).toBe(true);
+    expect(importer.importProgress).toEqual({ total: IMPORT_BATCH_SIZE + 2, imported: IMPORT_BATCH_SIZE - 1, failures: [] });
+
+    firstBatch.resolve({ id: 100, name: 'Imported 0', author: 'Author' });
+    await importing;
+
+    expect(mockRepository.addBook).toHaveBeenCalledTimes(IMPORT_BATCH_SIZE + 2);
+    expect(mockRepository.addBook).toHaveBeenCalledWith({ name: 'Imported 0', author: 'Author' }, false);
+    expect(importer.importProgress).toEqual({ total: IMPORT_BATCH_SIZE + 2, imported: IMPORT_BATCH_SIZE + 2, failures: [] });
+    expect(importer.importPreview).toBeNull();
+    expect(importer.isImporting).toBe(false);
+    expect(books.loadBooks).toHaveBeenCalledTimes(1);
+  });
+
+  it('should add every distinct non-Latin row', async () => {
+    importer.previewImport(csvOf(['Кобзар,Тарас Шевченко,', 'Війна і мир,Лев Толстой,', '红楼梦,曹雪芹,']), 'books.csv');
+    jest.spyOn(books, 'loadBooks').mockResolvedValueOnce();
+
+    await importer.runImport();
+
+    expect(mockRepository.addBook).toHaveBeenCalledTimes(3);
+    expect(importer.importProgress).toEqual({ total: 3, imported: 3, failures: [] });
+  });
+
+  it('should include duplicates and add the books as private when asked', async () => {
+    importer.previewImport(csvOf(['Book 1,Author 1,']), 'books.csv');
+
+    await importer.runImport({ includeDuplicates: true, isPrivate: true });
+
+    expect(mockRepository.addBook).toHaveBeenCalledWith({ name: 'Book 1', author: 'Author 1' }, true);
+  });
+
+  it('should list the rows the server rejects and carry on', async () => {
+    importer.previewImport(csvOf(['First,Author,', 'Second,Author,']), 'books.csv');
+    (mockRepository.addBook as jest.Mock).mockRejectedValueOnce(new ValidationError('Name taken', { status: 422, url: '/', method: 'POST' }, {}));
+
+    await importer.runImport();
+
+    expect(importer.importProgress).toEqual({ total: 2, imported: 1, failures: [{ line: 2, message: 'Name taken' }] });
+  });
+
+  it('should stop after the batch in which the connection is lost', async () => {
+    const rows = Array.from({ length: IMPORT_BATCH_SIZE + 2 }, (_, i) => `Imported ${i},Author,`);
+    importer.previewImport(csvOf(rows), 'books.csv');
+    (mockRepository.addBook as jest.Mock).mockRejectedValueOnce(new NetworkError({ status: null, url: '/', method: 'POST' }));
+    jest.spyOn(books, 'loadBooks').mockResolvedValueOnce();
+
+    await importer.runImport();
+
+    expect(mockRepository.addBook).toHaveBeenCalledTimes(IMPORT_BATCH_SIZE);
+    expect(importer.importProgress).toMatchObject({ imported: IMPORT_BATCH_SIZE - 1 });
+    expect(books.isOnline).toBe(false);
+    expect(books.error).toMatchObject({ kind: 'outage' });
+  });
+
+  it('should not import while offline', async () => {
+    importer.previewImport(csvOf(['First,Author,']), 'books.csv');
+    await books.setOnline(false);
+
+    await importer.runImport();
+
+    expect(mockRepository.addBook).not.toHaveBeenCalled();
+    expect(books.error).toMatchObject({ kind: 'outage' });
+    expect(importer.importPreview).not.toBeNull();
+  });
+
+  it('should stop importing and drop the preview when switching users', async () => {
+    importer.previewImport(csvOf(['First,Author,', 'Second,Author,']), 'books.csv');
+
+    await books.switchUser('bob');
+
+    expect(importer.importPreview).toBeNull();
+    expect(importer.importProgress).toBeNull();
+  });
+
+  it('should export the loaded list, fetching the rest when more pages exist', async () => {
+    expect(await importer.exportCurrentView('csv')).toBe(
+      'name,author,isbn,year,genres,coverUrl,rating,notes,status,startedAt,finishedAt,currentPage,totalPages\r\n' +
+        allBooksSample.map((book: Book) => `${book.name},${book.author},,,,,,,,,,,\r\n`).join('')
+    );
+    expect(mockRepository.getBooks).toHaveBeenCalledTimes(1);
+
+    runInAction(() => {
+      books.hasMore = true;
+    });
+    (mockRepository.getBooks as jest.Mock).mockResolvedValueOnce(allBooksSample.concat({ id: 9, name: 'Book 9', author: 'Author 9' }));
+
+    const json = await importer.exportCurrentView('json');
+
+    expect(mockRepository.getBooks).toHaveBeenLastCalledWith();
+    expect(JSON.parse(json as string)).toHaveLength(5);
+  });
+
+  it('should export only the books with the status of a reading view', async () => {
+    const trackedBooks: Book[] = [
+      { id: 1, name: 'Book 1', author: 'Author 1', status: 'reading', currentPage: 40, totalPages: 200 },
+      { id: 2, name: 'Book 2', author: 'Author 2', status: 'finished' },
+    ];
+    (mockRepository.getBooks as jest.Mock).mockResolvedValue(trackedBooks);
+    await books.reload();
+    books.setViewType('reading');
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const json = await importer.exportCurrentView('json');
+
+    expect(JSON.parse(json as string)).toEqual([trackedBooks[0]]);
+  });
+});
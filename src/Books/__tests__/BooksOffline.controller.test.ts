@@ -0,0 +1,117 @@
+import { runInAction } from 'mobx';
+import { createBooksStore, BooksRepository, BooksStore } from '../Books.controller';
+import { createBooksOfflineStore, BooksOfflineStore } from '../BooksOffline.controller';
+import { createOfflineBooksStorage } from '../Books.offline';
+import { createMockBooksRepository } from '../Books.testing';
+import { Book } from '../types';
+import { NetworkError, ValidationError } from '../../Shared/ApiError';
+import { createMemoryStorage, KeyValueStorage } from '../../Shared/PersistentStorage';
+import { mockConsole } from '../../Shared/testing';
+import { createUserSession, UserSession } from '../../Shared/UserSession';
+
+mockConsole();
+
+const USER_ID = 'alice';
+
+const networkError = () => new NetworkError({ status: null, url: 'https://api.test/', method: 'POST' });
+
+describe('Books offline sync', () => {
+  let books: BooksStore;
+  let offline: BooksOfflineStore;
+  let mockRepository: BooksRepository;
+  let session: UserSession;
+  let storage: KeyValueStorage;
+
+  beforeEach(async () => {
+    mockRepository = createMockBooksRepository();
+    session = createUserSession(USER_ID);
+    storage = createMemoryStorage();
+    books = createBooksStore(mockRepository, { session, storage, isOnline: false });
+    offline = createBooksOfflineStore(books, mockRepository);
+    await books.addBook('First', 'Author A');
+    await books.addBook('Second', 'Author B');
+  });
+
+  it('should count the books waiting to be sent', () => {
+    expect(offline.pendingSyncCount).toBe(2);
+  });
+
+  it('should replay the queue in order on reconnect', async () => {
+    jest.spyOn(mockRepository, 'addBook')
+      .mockResolvedValueOnce({ id: 201, name: 'First', author: 'Author A' })
+      .mockResolvedValueOnce({ id: 202, name: 'Second', author: 'Author B' });
+    jest.spyOn(mockRepository, 'getBooks').mockResolvedValue([
+      { id: 201, name: 'First', author: 'Author A' },
+      { id: 202, name: 'Second', author: 'Author B' },
+    ]);
+    const stop = offline.syncWhenOnline();
+
+    await books.setOnline(true);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    stop();
+
+    expect((mockRepository.addBook as jest.Mock).mock.calls.map((call: any[]) => call[0].name)).toEqual(['First', 'Second']);
+    expect(offline.pendingSyncCount).toBe(0);
+    expect(offline.isSyncing).toBe(false);
+    expect(books.books.map((book: Book) => book.id)).toEqual([201, 202]);
+    expect(createOfflineBooksStorage(storage, USER_ID).loadQueue()).toEqual([]);
+  });
+
+  it('should wait for the connection before sending the queue', async () => {
+    const stop = offline.syncWhenOnline();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    stop();
+
+    expect(mockRepository.addBook).not.toHaveBeenCalled();
+    expect(offline.pendingSyncCount).toBe(2);
+  });
+
+  it('should report books the server rejects as conflicts', async () => {
+    jest.spyOn(mockRepository, 'addBook')
+      .mockResolvedValueOnce({ id: 201, name: 'First', author: 'Author A' })
+      .mockRejectedValueOnce(new ValidationError('Duplicate book', { status: 422, url: 'https://api.test/', method: 'POST' }, {}));
+    jest.spyOn(mockRepository, 'getBooks').mockResolvedValue([{ id: 201, name: 'First', author: 'Author A' }]);
+
+    runInAction(() => {
+      books.isOnline = true;
+    });
+    await offline.syncPendingBooks();
+
+    expect(offline.pendingSyncCount).toBe(0);
+    expect(offline.syncConflicts).toEqual([
+      { book: expect.objectContaining({ name: 'Second' }), message: 'Duplicate book' },
+    ]);
+    expect(books.books.map((book: Book) => book.name)).toEqual(['First']);
+
+    offline.dismissSyncConflict(offline.syncConflicts[0]);
+    expect(offline.syncConflicts).toEqual([]);
+  });
+
+  it('should stop replaying and keep the queue when the network drops again', async () => {
+    jest.spyOn(mockRepository, 'addBook')
+      .mockResolvedValueOnce({ id: 201, name: 'First', author: 'Author A' })
+      .mockRejectedValueOnce(networkError());
+
+    runInAction(() => {
+      books.isOnline = true;
+    });
+    await offline.syncPendingBooks();
+
+    expect(books.isOnline).toBe(false);
+    expect(books.queuedBooks.map(queued => queued.name)).toEqual(['Second']);
+    expect(offline.syncConflicts).toEqual([]);
+  });
+
+  it('should forget the conflicts of the previous user when switching users', async () => {
+    jest.spyOn(mockRepository, 'addBook').mockRejectedValue(new ValidationError('Duplicate book', { status: 422, url: 'https://api.test/', method: 'POST' }, {}));
+    runInAction(() => {
+      books.isOnline = true;
+    });
+    await offline.syncPendingBooks();
+    expect(offline.syncConflicts).toHaveLength(2);
+
+    await books.switchUser('bob');
+
+    expect(offline.syncConflicts).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+import { createBooksStore, BooksRepository, BooksStore } from '../Books.controller';
+import { createMockBooksRepository } from '../Books.testing';
+import { encodeTabMessage } from '../Books.tabs';
+import { createBooksSyncStore, BooksSyncStore } from '../BooksSync.controller';
+import { LiveConnectionHandlers } from '../../Shared/LiveChannel';
+import { createMemoryTabHub, TabChannel } from '../../Shared/TabChannel';
+import { mockConsole } from '../../Shared/testing';
+import { createUserSession } from '../../Shared/UserSession';
+import { Book } from '../types';
+
+mockConsole('error', 'warn');
+
+const library: Book[] = [
+  { id: 1, name: 'Dune', author: 'Frank Herbert' },
+  { id: 2, name: 'Emma', author: 'Jane Austen' },
+];
+
+const createMockRepository = (): BooksRepository =>
+  createMockBooksRepository({ books: library, privateBooks: [library[1]], addedBook: { id: 3, name: 'Ulysses', author: 'James Joyce' } });
+
+describe('Books cross-tab sync', () => {
+  let channels: TabChannel[];
+  let repositories: BooksRepository[];
+  let tabs: BooksStore[];
+
+  beforeEach(async () => {
+    const hub = createMemoryTabHub();
+    channels = [hub.connect(), hub.connect()];
+    repositories = [createMockRepository(), createMockRepository()];
+    tabs = [0, 1].map((index: number) => createBooksStore(repositories[index], { session: createUserSession('alice') }));
+    tabs.forEach((tab: BooksStore, index: number) => createBooksSyncStore(tab, { tabChannel: channels[index] }).followOtherTabs());
+    await Promise.all(tabs.map((tab: BooksStore) => tab.init()));
+  });
+
+  it('should show a book added in one tab in the other without refetching', async () => {
+    await tabs[0].addBook('Ulysses', 'James Joyce', {}, true);
+
+    expect(tabs[1].books.map((book) => book.name)).toEqual(['Dune', 'Emma', 'Ulysses']);
+    expect(tabs[1].privateBooksCount).toBe(2);
+    expect(repositories[1].getBooks).toHaveBeenCalledTimes(1);
+    expect(repositories[1].getPrivateBooks).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply edits, shelf moves and deletions from the other tab', async () => {
+    await tabs[1].updateBook(1, { name: 'Dune Messiah' });
+    await tabs[1].setBookPrivate(2, false);
+    await tabs[1].deleteBook(1);
+
+    expect(tabs[0].books).toEqual([{ id: 2, name: 'Emma', author: 'Jane Austen' }]);
+    expect(tabs[0].privateBooksCount).toBe(0);
+  });
+
+  it('should ignore changes to another user\'s books', () => {
+    channels[1].post(encodeTabMessage('bob', { type: 'deleted', id: 1 }));
+
+    expect(tabs[0].books).toHaveLength(2);
+  });
+
+  it('should not share books still queued offline', async () => {
+    await tabs[0].setOnline(false);
+    await tabs[0].addBook('Ulysses', 'James Joyce');
+
+    expect(tabs[1].books).toHaveLength(2);
+  });
+});
+
+describe('Books live updates', () => {
+  let books: BooksStore;
+  let sync: BooksSyncStore;
+  let repository: BooksRepository;
+  let handlers: LiveConnectionHandlers[];
+  let connectLive: jest.Mock;
+
+  const flushPromises = () => new Promise((resolve) => jest.requireActual('timers').setImmediate(resolve));
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    handlers = [];
+    connectLive = jest.fn((url: string, connectionHandlers: LiveConnectionHandlers) => {
+      handlers.push(connectionHandlers);
+      return { close: jest.fn() };
+    });
+    repository = createMockRepository();
+    books = createBooksStore(repository, { session: createUserSession('alice') });
+    sync = createBooksSyncStore(books, { connectLive, liveUrl: () => 'https://books.test/alice/events' });
+    await books.init();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should apply the changes the server pushes while started', async () => {
+    sync.startLive();
+    await flushPromises();
+
+    expect(sync.isLive).toBe(true);
+    expect(connectLive).toHaveBeenCalledWith('https://books.test/alice/events', expect.anything());
+
+    handlers[0].onMessage(JSON.stringify({ type: 'deleted', id: 1 }));
+
+    expect(books.books).toEqual([library[1]]);
+
+    sync.stopLive();
+    handlers[0].onMessage(JSON.stringify({ type: 'deleted', id: 2 }));
+
+    expect(sync.isLive).toBe(false);
+    expect(books.books).toEqual([library[1]]);
+  });
+
+  it('should reload the books after a malformed update or a reconnection', async () => {
+    sync.startLive();
+    await flushPromises();
+    handlers[0].onOpen();
+
+    handlers[0].onMessage('{oops');
+    await flushPromises();
+
+    expect(console.warn).toHaveBeenCalled();
+    expect(repository.getBooks).toHaveBeenCalledTimes(2);
+
+    handlers[0].onError();
+    jest.runOnlyPendingTimers();
+    await flushPromises();
+    handlers[1].onOpen();
+    await flushPromises();
+
+    expect(repository.getBooks).toHaveBeenCalledTimes(3);
+  });
+
+  it('should do nothing without a connector', () => {
+    const offlineSync = createBooksSyncStore(books);
+
+    offlineSync.startLive();
+
+    expect(offlineSync.isLive).toBe(false);
+  });
+});
@@ -1,7 +1,36 @@
+/**
+ * Where a book is on the user's reading list.
+ */
+export type ReadingStatus = "wantToRead" | "reading" | "finished" | "abandoned";
+
+/**
+ * Optional reading-list details of a book. Older servers only return `id`, `name` and `author`,
+ * so every detail may be missing.
+ */
+export interface BookDetails {
+  /** ISBN-10 or ISBN-13, digits only (plus a trailing `X` for ISBN-10). */
+  isbn?: string;
+  /** Year of publication. */
+  year?: number;
+  genres?: string[];
+  coverUrl?: string;
+  /** Whole number from 1 to 5. */
+  rating?: number;
+  notes?: string;
+  status?: ReadingStatus;
+  /** Day the user started reading, as `YYYY-MM-DD`. */
+  startedAt?: string;
+  /** Day the user finished (or gave up on) the book, as `YYYY-MM-DD`; not before `startedAt`. */
+  finishedAt?: string;
+  /** Last page read, from 0 up to `totalPages`. */
+  currentPage?: number;
+  totalPages?: number;
+}
+
 /**
  * Represents a book entity in the application.
  */
-export interface Book {
+export interface Book extends BookDetails {
   id?: number;
   name: string;
   author: string;
@@ -13,4 +42,20 @@ export interface Book {
 export interface BookAddResponse {
   status: string;
   id?: number;
-} 
\ No newline at end of file
+}
+
+/**
+ * Response from the API when updating or deleting an existing book.
+ */
+export interface BookMutationResponse {
+  status: string;
+}
+
+/**
+ * A change to a user's books pushed by the live updates channel, made by this or another client.
+ * `isPrivate` tells whether the book is on the private shelf after the change.
+ */
+export type BookEvent =
+  | { type: "created"; book: Book; isPrivate: boolean }
+  | { type: "updated"; book: Book; isPrivate: boolean }
+  | { type: "deleted"; id: number };
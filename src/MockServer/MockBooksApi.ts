@@ -0,0 +1,319 @@
+import { CLEARABLE_BOOK_FIELDS, ClearableBookField } from "../Books/Books.repository";
+import { bookDetailsSchema } from "../Books/Books.schema";
+import { normalizeIsbn, validateBookDetails } from "../Books/Books.validation";
+import { Book, BookDetails, BookEvent } from "../Books/types";
+import { MockBookRecord, SEED_BOOKS } from "./fixtures";
+
+/**
+ * A request as received by the mock API, independent of how it arrived (Node server or test transport).
+ */
+export interface MockApiRequest {
+  method: string;
+  /** URL path without origin or query, e.g. `/v1/books/test-test-test/private`. */
+  path: string;
+  /** Raw request body, if any. */
+  body?: string;
+  /** Decoded query string parameters, if any. */
+  query?: Record<string, string>;
+}
+
+/**
+ * A response from the mock API; `body` is serialized to JSON by the caller.
+ */
+export interface MockApiResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Options for creating the mock API.
+ */
+export interface MockBooksApiOptions {
+  /** Books each user starts with. Defaults to `SEED_BOOKS`. */
+  seed?: MockBookRecord[];
+}
+
+/**
+ * Interface defining the structure of the mock books API
+ */
+export interface MockBooksApi {
+  handle: (request: MockApiRequest) => MockApiResponse;
+  books: (userId: string) => MockBookRecord[];
+  subscribe: (userId: string, listener: (event: BookEvent) => void) => () => void;
+  reset: () => void;
+}
+
+/**
+ * Prefix shared by every books endpoint; the segment after it is the user id.
+ * @private - For internal use only, not part of the public API.
+ */
+const BOOKS_PATH = /^\/v1\/books\/([^/]+)(?:\/(.*?))?\/?$/;
+
+/**
+ * Builds the error body the real API sends, optionally with per-field messages.
+ * @private - For internal use only, not part of the public API.
+ */
+const errorResponse = (status: number, message: string, errors?: Record<string, string[]>): MockApiResponse => ({
+  status,
+  body: errors ? { message, errors } : { message }
+});
+
+/**
+ * Returns the requested page of a list when the query asks for one (`?page=&limit=`, page counting
+ * from 1), or the whole list otherwise, like a server without pagination.
+ * @param {Book[]} books - The full list.
+ * @param {Record<string, string>} query - The request's query parameters.
+ * @returns {MockApiResponse} The list response, or 400 if the parameters are not positive whole numbers.
+ * @private - For internal use only, not part of the public API.
+ */
+const listResponse = (books: Book[], query: Record<string, string> = {}): MockApiResponse => {
+  if (query.page === undefined && query.limit === undefined) {
+    return { status: 200, body: books };
+  }
+  const page = Number(query.page === undefined ? 1 : query.page);
+  const limit = Number(query.limit);
+  if (!Number.isInteger(page) || page < 1 || !Number.isInteger(limit) || limit < 1) {
+    return errorResponse(400, "page and limit must be positive whole numbers");
+  }
+  return { status: 200, body: books.slice((page - 1) * limit, page * limit) };
+};
+
+/**
+ * Checks the given book fields, returning the messages keyed by field.
+ * Details are checked with the same rules the client applies.
+ * @param {Record<string, unknown>} fields - The fields sent by the client.
+ * @param {boolean} partial - When true, missing fields are allowed (PATCH).
+ * @returns {Record<string, string[]> | null} The field errors, or null if the fields are valid.
+ * @private - For internal use only, not part of the public API.
+ */
+const validateBookFields = (fields: Record<string, unknown>, partial: boolean): Record<string, string[]> | null => {
+  const errors: Record<string, string[]> = {};
+  ["name", "author"].forEach((field: string) => {
+    const value = fields[field];
+    if (value === undefined && partial) {
+      return;
+    }
+    if (typeof value !== "string" || !value.trim()) {
+      errors[field] = [`${field} must be a non-empty string`];
+    }
+  });
+
+  const details = bookDetailsSchema.parse(fields);
+  if (!details.ok) {
+    details.issues.forEach((issue) => {
+      errors[issue.path.split(/[.[]/)[0]] = [issue.message];
+    });
+  } else {
+    const detailErrors = validateBookDetails(details.value);
+    Object.keys(detailErrors).forEach((field: string) => {
+      errors[field] = [detailErrors[field]];
+    });
+  }
+  return Object.keys(errors).length ? errors : null;
+};
+
+/**
+ * Picks the optional details from validated fields.
+ * @private - For internal use only, not part of the public API.
+ */
+const pickDetails = (fields: Record<string, unknown>): BookDetails => {
+  const result = bookDetailsSchema.parse(fields);
+  const details = result.ok ? result.value : {};
+  return details.isbn === undefined ? details : { ...details, isbn: normalizeIsbn(details.isbn) };
+};
+
+/**
+ * Strips the server-only fields before sending a book to the client.
+ * @private - For internal use only, not part of the public API.
+ */
+const toBookDto = (record: MockBookRecord): Book => {
+  const { isPrivate, ...book } = record;
+  return book;
+};
+
+/**
+ * Builds the event announcing a created or updated book.
+ * @private - For internal use only, not part of the public API.
+ */
+const bookEvent = (type: "created" | "updated", record: MockBookRecord): BookEvent => ({
+  type,
+  book: toBookDto(record),
+  isPrivate: record.isPrivate
+});
+
+/**
+ * Creates an in-memory implementation of the books API, with a separate list of books per user.
+ * Supports `GET /`, `GET /private`, `POST /`, `POST /private`, `PATCH /:id`, `DELETE /:id`, and `PUT /:id/private`
+ * and `DELETE /:id/private` to move a book onto or off the private shelf, under `/v1/books/{userId}`,
+ * including the optional book details (ISBN, year, genres, cover, rating, notes) and `?page=&limit=` on the lists,
+ * and answers with the same status codes and error bodies as the real API. Every change is also
+ * announced to the user's `subscribe` listeners, like the live updates channel of the real API.
+ *
+ * @param {MockBooksApiOptions} options - Seed data.
+ * @returns {MockBooksApi} The mock API.
+ */
+export function createMockBooksApi(options: MockBooksApiOptions = {}): MockBooksApi {
+  const seed = options.seed || SEED_BOOKS;
+  const users = new Map<string, MockBookRecord[]>();
+  let subscriptions: { userId: string; listener: (event: BookEvent) => void }[] = [];
+
+  const emit = (userId: string, event: BookEvent) => {
+    subscriptions
+      .filter((subscription) => subscription.userId === userId)
+      .forEach((subscription) => subscription.listener(event));
+  };
+
+  const booksOf = (userId: string): MockBookRecord[] => {
+    let books = users.get(userId);
+    if (!books) {
+      books = seed.map((book: MockBookRecord) => ({ ...book }));
+      users.set(userId, books);
+    }
+    return books;
+  };
+
+  const nextId = (books: MockBookRecord[]): number =>
+    books.reduce((max: number, book: MockBookRecord) => Math.max(max, book.id), 0) + 1;
+
+  const addBook = (userId: string, fields: Record<string, unknown>, isPrivate: boolean): MockApiResponse => {
+    const books = booksOf(userId);
+    const errors = validateBookFields(fields, false);
+    if (errors) {
+      return errorResponse(422, "Validation failed", errors);
+    }
+    const requestedId = fields.id;
+    const isFreeId =
+      typeof requestedId === "number" && !books.some((book: MockBookRecord) => book.id === requestedId);
+    const id = isFreeId ? (requestedId as number) : nextId(books);
+
+    const record: MockBookRecord = {
+      ...pickDetails(fields),
+      id,
+      name: fields.name as string,
+      author: fields.author as string,
+      isPrivate
+    };
+    books.push(record);
+    emit(userId, bookEvent("created", record));
+    return { status: 200, body: { status: "ok", id } };
+  };
+
+  const updateBook = (userId: string, book: MockBookRecord, fields: Record<string, unknown>): MockApiResponse => {
+    const errors = validateBookFields(fields, true);
+    if (errors) {
+      return errorResponse(422, "Validation failed", errors);
+    }
+    if (typeof fields.name === "string") {
+      book.name = fields.name;
+    }
+    if (typeof fields.author === "string") {
+      book.author = fields.author;
+    }
+    Object.assign(book, pickDetails(fields));
+    CLEARABLE_BOOK_FIELDS.forEach((field: ClearableBookField) => {
+      if (fields[field] === null) {
+        delete book[field];
+      }
+    });
+    emit(userId, bookEvent("updated", book));
+    return { status: 200, body: { status: "ok" } };
+  };
+
+  return {
+    /**
+     * Handles a single request and returns the response the real API would send.
+     */
+    handle({ method, path, body, query }: MockApiRequest): MockApiResponse {
+      const match = BOOKS_PATH.exec(path);
+      if (!match) {
+        return errorResponse(404, `No route for ${path}`);
+      }
+      const userId = decodeURIComponent(match[1]);
+      const books = booksOf(userId);
+      const resource = match[2] || "";
+      const verb = method.toUpperCase();
+
+      let fields: Record<string, unknown> = {};
+      if (body) {
+        try {
+          fields = JSON.parse(body);
+        } catch (e) {
+          return errorResponse(400, "Request body is not valid JSON");
+        }
+      }
+
+      if (resource === "") {
+        if (verb === "GET") {
+          return listResponse(books.map(toBookDto), query);
+        }
+        if (verb === "POST") {
+          return addBook(userId, fields, false);
+        }
+        return errorResponse(405, `${verb} is not allowed on ${path}`);
+      }
+
+      if (resource === "private") {
+        if (verb === "GET") {
+          return listResponse(books.filter((book: MockBookRecord) => book.isPrivate).map(toBookDto), query);
+        }
+        if (verb === "POST") {
+          return addBook(userId, fields, true);
+        }
+        return errorResponse(405, `${verb} is not allowed on ${path}`);
+      }
+
+      const [bookId, shelf] = resource.split("/");
+      if (shelf !== undefined && shelf !== "private") {
+        return errorResponse(404, `No route for ${path}`);
+      }
+      const id = Number(bookId);
+      const book = books.find((candidate: MockBookRecord) => candidate.id === id);
+      if (!book) {
+        return errorResponse(404, `Book ${bookId} not found`);
+      }
+      if (shelf === "private") {
+        if (verb === "PUT" || verb === "DELETE") {
+          book.isPrivate = verb === "PUT";
+          emit(userId, bookEvent("updated", book));
+          return { status: 200, body: { status: "ok" } };
+        }
+        return errorResponse(405, `${verb} is not allowed on ${path}`);
+      }
+      if (verb === "PATCH") {
+        return updateBook(userId, book, fields);
+      }
+      if (verb === "DELETE") {
+        books.splice(books.indexOf(book), 1);
+        emit(userId, { type: "deleted", id });
+        return { status: 200, body: { status: "ok" } };
+      }
+      return errorResponse(405, `${verb} is not allowed on ${path}`);
+    },
+
+    /**
+     * Returns the books currently stored for a user, seeding the user on first access.
+     */
+    books(userId: string): MockBookRecord[] {
+      return booksOf(userId);
+    },
+
+    /**
+     * Calls `listener` with every change made to a user's books from now on.
+     * @returns {() => void} Stops calling the listener.
+     */
+    subscribe(userId: string, listener: (event: BookEvent) => void) {
+      const subscription = { userId, listener };
+      subscriptions = subscriptions.concat(subscription);
+      return () => {
+        subscriptions = subscriptions.filter((existing) => existing !== subscription);
+      };
+    },
+
+    /**
+     * Forgets every change, so each user starts from the seed data again.
+     */
+    reset() {
+      users.clear();
+    }
+  };
+}
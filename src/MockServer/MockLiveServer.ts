@@ -0,0 +1,74 @@
+import { BookEvent } from "../Books/types";
+import { LiveConnectionHandlers, LiveConnector } from "../Shared/LiveChannel";
+import { MockBooksApi } from "./MockBooksApi";
+
+/**
+ * A live connector backed by the mock API, with controls to simulate the network.
+ */
+export interface MockLiveServer {
+  connect: LiveConnector;
+  /** Number of connections currently open. */
+  readonly openConnections: number;
+  /** Drops every open connection, as a network failure would. */
+  disconnectAll: () => void;
+  /** While true, new connections fail instead of opening. */
+  setUnavailable: (unavailable: boolean) => void;
+}
+
+/**
+ * Path of a user's event stream; the segment after `/v1/books/` is the user id.
+ * @private - For internal use only, not part of the public API.
+ */
+const EVENTS_PATH = /\/v1\/books\/([^/?]+)\/events(?:\?|$)/;
+
+/**
+ * Creates a stand-in for the live updates endpoint of the books API: each connection receives the
+ * changes the mock API makes to its user's books, JSON-encoded like the real event stream.
+ * Connections open and deliver synchronously, so tests need no timers.
+ *
+ * @param {MockBooksApi} api - The mock API whose changes are streamed.
+ * @returns {MockLiveServer} The connector and its controls.
+ */
+export function createMockLiveServer(api: MockBooksApi): MockLiveServer {
+  let connections: { handlers: LiveConnectionHandlers; unsubscribe: () => void }[] = [];
+  let unavailable = false;
+
+  const drop = (connection: { handlers: LiveConnectionHandlers; unsubscribe: () => void }) => {
+    connection.unsubscribe();
+    connections = connections.filter((existing) => existing !== connection);
+  };
+
+  return {
+    connect(url: string, handlers: LiveConnectionHandlers) {
+      const match = EVENTS_PATH.exec(url);
+      if (!match || unavailable) {
+        handlers.onError();
+        return { close: () => undefined };
+      }
+      const connection = {
+        handlers,
+        unsubscribe: api.subscribe(decodeURIComponent(match[1]), (event: BookEvent) => {
+          handlers.onMessage(JSON.stringify(event));
+        })
+      };
+      connections = connections.concat(connection);
+      handlers.onOpen();
+      return { close: () => drop(connection) };
+    },
+
+    get openConnections() {
+      return connections.length;
+    },
+
+    disconnectAll() {
+      connections.forEach((connection) => {
+        drop(connection);
+        connection.handlers.onError();
+      });
+    },
+
+    setUnavailable(value: boolean) {
+      unavailable = value;
+    }
+  };
+}
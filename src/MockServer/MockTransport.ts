@@ -0,0 +1,86 @@
+import { NetworkError } from "../Shared/ApiError";
+import { HttpRequest, HttpResponse, HttpTransport } from "../Shared/HttpClient";
+import { MockBooksApi } from "./MockBooksApi";
+
+/**
+ * Options for creating a transport backed by the mock API.
+ */
+export interface MockTransportOptions {
+  /** Delay before each response, in milliseconds; the response is sent synchronously when omitted. */
+  latencyMs?: number;
+}
+
+/**
+ * Reason phrases for the status codes the mock API sends.
+ * @private - For internal use only, not part of the public API.
+ */
+const STATUS_TEXT: Record<number, string> = {
+  200: "OK",
+  400: "Bad Request",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  422: "Unprocessable Entity"
+};
+
+/**
+ * Extracts the path from an absolute or relative URL, dropping the query string.
+ * @private - For internal use only, not part of the public API.
+ */
+const pathOf = (url: string): string => url.replace(/^[a-z]+:\/\/[^/]+/i, "").split("?")[0] || "/";
+
+/**
+ * Decodes the query string of a URL into its parameters.
+ * @private - For internal use only, not part of the public API.
+ */
+const queryOf = (url: string): Record<string, string> => {
+  const query: Record<string, string> = {};
+  const queryString = url.split("?")[1] || "";
+  queryString
+    .split("&")
+    .filter((pair: string) => pair)
+    .forEach((pair: string) => {
+      const [key, value = ""] = pair.split("=");
+      query[decodeURIComponent(key)] = decodeURIComponent(value);
+    });
+  return query;
+};
+
+/**
+ * Creates an HTTP transport that answers every request from the mock API instead of the network,
+ * so the real HTTP client, interceptors and repositories can run in tests without a server.
+ *
+ * @param {MockBooksApi} api - The mock API to route requests to.
+ * @param {MockTransportOptions} options - Simulated latency.
+ * @returns {HttpTransport} A transport to pass to `createHttpClient`.
+ */
+export function createMockTransport(api: MockBooksApi, options: MockTransportOptions = {}): HttpTransport {
+  const respond = (request: HttpRequest): HttpResponse => {
+    const { status, body } = api.handle({
+      method: request.method,
+      path: pathOf(request.url),
+      query: queryOf(request.url),
+      body: request.body
+    });
+    return {
+      status,
+      statusText: STATUS_TEXT[status] || "",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    };
+  };
+
+  return (request: HttpRequest) => {
+    if (!options.latencyMs) {
+      return Promise.resolve(respond(request));
+    }
+    return new Promise<HttpResponse>((resolve, reject) => {
+      const timer = setTimeout(() => resolve(respond(request)), options.latencyMs);
+      if (request.signal) {
+        request.signal.addEventListener("abort", () => {
+          clearTimeout(timer);
+          reject(new NetworkError({ status: null, url: request.url, method: request.method }));
+        });
+      }
+    });
+  };
+}
@@ -0,0 +1,129 @@
+import { createMockBooksApi, MockBooksApi } from '../MockBooksApi';
+import { createMockTransport } from '../MockTransport';
+import { MockBookRecord } from '../fixtures';
+
+const seed: MockBookRecord[] = [
+  { id: 1, name: 'Shared Book', author: 'Author 1', isPrivate: false },
+  { id: 2, name: 'Private Book', author: 'Author 2', isPrivate: true },
+];
+
+const USER_PATH = '/v1/books/alice';
+
+describe('Mock Books API', () => {
+  let api: MockBooksApi;
+
+  beforeEach(() => {
+    api = createMockBooksApi({ seed });
+  });
+
+  it('should list all and private books of a user', () => {
+    expect(api.handle({ method: 'GET', path: `${USER_PATH}/` }).body).toEqual([
+      { id: 1, name: 'Shared Book', author: 'Author 1' },
+      { id: 2, name: 'Private Book', author: 'Author 2' },
+    ]);
+    expect(api.handle({ method: 'GET', path: `${USER_PATH}/private` }).body).toEqual([
+      { id: 2, name: 'Private Book', author: 'Author 2' },
+    ]);
+  });
+
+  it('should return a page of a list when page and limit are given', () => {
+    expect(api.handle({ method: 'GET', path: `${USER_PATH}/`, query: { page: '2', limit: '1' } }).body).toEqual([
+      { id: 2, name: 'Private Book', author: 'Author 2' },
+    ]);
+    expect(api.handle({ method: 'GET', path: `${USER_PATH}/`, query: { page: '3', limit: '1' } }).body).toEqual([]);
+    expect(api.handle({ method: 'GET', path: `${USER_PATH}/`, query: { page: '0', limit: '1' } }).status).toBe(400);
+  });
+
+  it('should add a book as private through /private, keeping a free client id', () => {
+    const response = api.handle({
+      method: 'POST', path: `${USER_PATH}/private`, body: JSON.stringify({ id: 50, name: 'New', author: 'Me' }),
+    });
+
+    expect(response).toEqual({ status: 200, body: { status: 'ok', id: 50 } });
+    expect(api.books('alice')).toContainEqual({ id: 50, name: 'New', author: 'Me', isPrivate: true });
+  });
+
+  it('should add a shared book through /', () => {
+    api.handle({ method: 'POST', path: USER_PATH, body: JSON.stringify({ id: 50, name: 'New', author: 'Me' }) });
+
+    expect(api.books('alice')).toContainEqual({ id: 50, name: 'New', author: 'Me', isPrivate: false });
+  });
+
+  it('should move books onto and off the private shelf', () => {
+    expect(api.handle({ method: 'PUT', path: `${USER_PATH}/1/private` }).status).toBe(200);
+    expect(api.handle({ method: 'DELETE', path: `${USER_PATH}/2/private` }).status).toBe(200);
+
+    expect(api.handle({ method: 'GET', path: `${USER_PATH}/private` }).body).toEqual([
+      { id: 1, name: 'Shared Book', author: 'Author 1' },
+    ]);
+    expect(api.handle({ method: 'PUT', path: `${USER_PATH}/99/private` }).status).toBe(404);
+    expect(api.handle({ method: 'PUT', path: `${USER_PATH}/1/other` }).status).toBe(404);
+  });
+
+  it('should store the optional details and validate them', () => {
+    const body = { name: 'New', author: 'Me', isbn: '978-0-306-40615-7', rating: 4 };
+    const response = api.handle({ method: 'POST', path: `${USER_PATH}/private`, body: JSON.stringify(body) });
+
+    expect(api.handle({ method: 'GET', path: `${USER_PATH}/private` }).body).toContainEqual({
+      id: (response.body as { id: number }).id, name: 'New', author: 'Me', isbn: '9780306406157', rating: 4,
+    });
+
+    const invalid = api.handle({ method: 'POST', path: USER_PATH, body: JSON.stringify({ ...body, rating: '4', year: 3000 }) });
+    expect(invalid.status).toBe(422);
+    expect(Object.keys((invalid.body as { errors: object }).errors)).toEqual(['rating']);
+  });
+
+  it('should assign a new id when the client id is taken', () => {
+    const response = api.handle({ method: 'POST', path: USER_PATH, body: JSON.stringify({ id: 1, name: 'New', author: 'Me' }) });
+
+    expect(response.body).toEqual({ status: 'ok', id: 3 });
+  });
+
+  it('should reject invalid fields with field errors', () => {
+    const response = api.handle({ method: 'POST', path: USER_PATH, body: JSON.stringify({ name: ' ', author: 'Me' }) });
+
+    expect(response.status).toBe(422);
+    expect(response.body).toEqual({ message: 'Validation failed', errors: { name: ['name must be a non-empty string'] } });
+  });
+
+  it('should update and delete books by id', () => {
+    expect(api.handle({ method: 'PATCH', path: `${USER_PATH}/1`, body: JSON.stringify({ name: 'Renamed' }) }).status).toBe(200);
+    expect(api.handle({ method: 'DELETE', path: `${USER_PATH}/2` }).status).toBe(200);
+
+    expect(api.books('alice')).toEqual([{ id: 1, name: 'Renamed', author: 'Author 1', isPrivate: false }]);
+  });
+
+  it('should remove reading details sent as null', () => {
+    const body = JSON.stringify({ status: 'reading', startedAt: '2024-03-01', currentPage: 10 });
+    api.handle({ method: 'PATCH', path: `${USER_PATH}/1`, body });
+
+    expect(api.handle({ method: 'PATCH', path: `${USER_PATH}/1`, body: JSON.stringify({ startedAt: null, currentPage: null }) }).status).toBe(200);
+    expect(api.books('alice')[0]).toEqual({ id: 1, name: 'Shared Book', author: 'Author 1', isPrivate: false, status: 'reading' });
+  });
+
+  it('should answer 404 for unknown books and routes', () => {
+    expect(api.handle({ method: 'DELETE', path: `${USER_PATH}/99` }).status).toBe(404);
+    expect(api.handle({ method: 'GET', path: '/v2/other' }).status).toBe(404);
+  });
+
+  it('should keep users apart and reset to the seed data', () => {
+    api.handle({ method: 'DELETE', path: `${USER_PATH}/1` });
+
+    expect(api.books('bob')).toHaveLength(2);
+    api.reset();
+    expect(api.books('alice')).toHaveLength(2);
+  });
+
+  it('should serve requests through the transport as raw JSON responses', async () => {
+    const transport = createMockTransport(api);
+
+    const response = await transport({ method: 'GET', url: `https://books.test${USER_PATH}/private?x=1`, headers: {} });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['Content-Type']).toBe('application/json');
+    expect(JSON.parse(response.body)).toEqual([{ id: 2, name: 'Private Book', author: 'Author 2' }]);
+
+    const page = await transport({ method: 'GET', url: `https://books.test${USER_PATH}/?page=1&limit=1`, headers: {} });
+    expect(JSON.parse(page.body)).toEqual([{ id: 1, name: 'Shared Book', author: 'Author 1' }]);
+  });
+});
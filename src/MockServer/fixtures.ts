@@ -0,0 +1,58 @@
+import { Book } from "../Books/types";
+
+/**
+ * A book as stored by the mock server.
+ * Private books are the ones on the user's private shelf, returned by `GET /private`: added through
+ * `POST /private` or moved there with `PUT /:id/private`.
+ */
+export interface MockBookRecord extends Book {
+  id: number;
+  isPrivate: boolean;
+}
+
+/**
+ * Books every user starts with, mirroring the shared catalogue of the real API.
+ */
+export const SEED_BOOKS: MockBookRecord[] = [
+  {
+    id: 1,
+    name: "The Pragmatic Programmer",
+    author: "Andrew Hunt",
+    isbn: "9780201616224",
+    year: 1999,
+    genres: ["Software", "Craft"],
+    rating: 5,
+    status: "finished",
+    startedAt: "2024-01-08",
+    finishedAt: "2024-02-11",
+    currentPage: 352,
+    totalPages: 352,
+    isPrivate: false
+  },
+  {
+    id: 2,
+    name: "Clean Code",
+    author: "Robert C. Martin",
+    isbn: "9780132350884",
+    year: 2008,
+    status: "reading",
+    startedAt: "2024-03-02",
+    currentPage: 120,
+    totalPages: 464,
+    isPrivate: false
+  },
+  { id: 3, name: "Refactoring", author: "Martin Fowler", isbn: "9780201485677", year: 1999, isPrivate: false },
+  // Only the original three fields, like books created before details existed
+  { id: 4, name: "Test Driven Development", author: "Kent Beck", isPrivate: false },
+  {
+    id: 5,
+    name: "Domain-Driven Design",
+    author: "Eric Evans",
+    isbn: "9780321125217",
+    year: 2003,
+    genres: ["Software", "Architecture"],
+    rating: 4,
+    notes: "Re-read the strategic design part.",
+    isPrivate: true
+  }
+];
@@ -0,0 +1,165 @@
+import { reaction } from "mobx";
+import { AuthStore, createAuthStore } from "../Auth/Auth.controller";
+import { AuthRepository, createAuthRepository } from "../Auth/Auth.repository";
+import { BooksRepository, BooksStore, createBooksStore } from "../Books/Books.controller";
+import { bookEventsUrl } from "../Books/Books.live";
+import { createBooksRepository } from "../Books/Books.repository";
+import { BooksHistoryStore, createBooksHistoryStore } from "../Books/BooksHistory.controller";
+import { BooksImportStore, createBooksImportStore } from "../Books/BooksImport.controller";
+import { BooksOfflineStore, createBooksOfflineStore } from "../Books/BooksOffline.controller";
+import { BooksSyncStore, createBooksSyncStore } from "../Books/BooksSync.controller";
+import { createApiGateway } from "../Shared/ApiGateway";
+import { appConfig } from "../Shared/config";
+import { watchConnectivity } from "../Shared/Connectivity";
+import { createHttpClient, HttpClient } from "../Shared/HttpClient";
+import { getBrowserLiveConnector, LiveConnector } from "../Shared/LiveChannel";
+import { KeyValueStorage } from "../Shared/PersistentStorage";
+import { getBrowserTabChannel, TabChannel } from "../Shared/TabChannel";
+import { createUserSession, UserSession } from "../Shared/UserSession";
+import { createUiStore, UiStore } from "./UiStore";
+
+/**
+ * Interface defining the application's stores, created together so they share one session.
+ */
+export interface RootStore {
+  session: UserSession;
+  /** The signed-in session; null when no authentication API is configured and the books API needs no login. */
+  auth: AuthStore | null;
+  books: BooksStore;
+  /** Undo and redo of the books store's mutations. */
+  history: BooksHistoryStore;
+  /** Bulk import and the export of the current view. */
+  importer: BooksImportStore;
+  /** Sends the books queued while offline. */
+  offline: BooksOfflineStore;
+  /** Live updates and the changes shared by the other tabs. */
+  sync: BooksSyncStore;
+  ui: UiStore;
+  start: () => () => void;
+}
+
+/**
+ * Dependencies of the root store; everything has a default, so tests only pass what they replace.
+ */
+export interface RootStoreOptions {
+  /** User whose books are shown first; the configured user by default. */
+  userId?: string;
+  /** HTTP client for the books API; the API gateway by default. Ignored when `repository` is given. */
+  client?: HttpClient;
+  /** Books repository; one bound to `client` and the session by default. */
+  repository?: BooksRepository;
+  /**
+   * Authentication API; one on top of the configured auth URL by default. Login is required only
+   * when it is given or an auth URL is configured.
+   */
+  authRepository?: AuthRepository;
+  /** Where lists, the offline queue and the signed-in session are persisted; in memory by default. */
+  storage?: KeyValueStorage;
+  /** Connectivity when the stores are created; online by default. */
+  isOnline?: boolean;
+  /** Subscribes to connectivity changes; the browser's `online`/`offline` events by default. */
+  watchConnectivity?: (listener: (online: boolean) => void) => () => void;
+  /** Opens the live updates stream; Server-Sent Events when the browser supports them. Null disables live updates. */
+  connectLive?: LiveConnector | null;
+  /** Shares changes with the app's other tabs; `BroadcastChannel`, or `localStorage` events as a fallback. Null disables it. */
+  tabChannel?: TabChannel | null;
+}
+
+/**
+ * Creates the application's stores and wires their dependencies: the session, the auth store, the
+ * repository on top of the HTTP client (which sends the auth store's token), the books store and the
+ * stores built on it (undo history, import, offline sync, and live and tab sync), and the UI store.
+ * Creating the stores sends no request; `start` loads the data and follows connectivity changes, the
+ * offline queue, the signed-in user, live updates and the other tabs, and returns a function that stops following them.
+ * @param {RootStoreOptions} options - Dependencies to replace, e.g. a mock repository in tests.
+ * @returns {RootStore} The root store.
+ */
+export const createRootStore = (options: RootStoreOptions = {}): RootStore => {
+  const session = createUserSession(options.userId || appConfig.userId);
+  const authRepository =
+    options.authRepository ||
+    (appConfig.authBaseUrl ? createAuthRepository(createHttpClient({ baseUrl: appConfig.authBaseUrl, timeoutMs: 10000 })) : null);
+  const auth = authRepository ? createAuthStore(authRepository, { storage: options.storage }) : null;
+  const client = options.client || createApiGateway({}, auth || undefined);
+  const repository = options.repository || createBooksRepository(client, session);
+  const tabChannel = options.tabChannel !== undefined ? options.tabChannel : getBrowserTabChannel();
+  const books = createBooksStore(repository, {
+    storage: options.storage,
+    isOnline: options.isOnline,
+    session
+  });
+  const connectLive = options.connectLive !== undefined ? options.connectLive : getBrowserLiveConnector();
+  const sync = createBooksSyncStore(books, {
+    tabChannel: tabChannel || undefined,
+    connectLive: connectLive || undefined,
+    liveUrl: async () => bookEventsUrl(appConfig.apiBaseUrl, session.userId, auth ? await auth.getAccessToken() : null)
+  });
+  const offline = createBooksOfflineStore(books, repository);
+  const watch = options.watchConnectivity || watchConnectivity;
+
+  return {
+    session,
+    auth,
+    books,
+    history: createBooksHistoryStore(books),
+    importer: createBooksImportStore(books, repository),
+    offline,
+    sync,
+    ui: createUiStore(books),
+
+    /**
+     * Loads the initial data and keeps the books store's connectivity in step with the browser.
+     * With login required, the signed-in user's books are loaded whenever someone logs in, and
+     * cleared when the session ends. Books queued while offline are sent whenever the store is online and
+     * someone is signed in, the live updates channel follows the user whose books are shown, and changes made in other tabs
+     * are applied as they are shared.
+     * @returns {() => void} Stops following connectivity changes, the offline queue, the signed-in user, live updates and other tabs.
+     */
+    start() {
+      const stopWatching = watch((online: boolean) => {
+        books.setOnline(online);
+      });
+      const stopFollowingTabs = sync.followOtherTabs();
+      let stopSyncing: (() => void) | null = null;
+      const followQueue = (signedIn: boolean) => {
+        if (signedIn && !stopSyncing) {
+          stopSyncing = offline.syncWhenOnline();
+        } else if (!signedIn && stopSyncing) {
+          stopSyncing();
+          stopSyncing = null;
+        }
+      };
+      if (!auth) {
+        books.init();
+      }
+      const stopFollowingUser = reaction(
+        () => (auth ? auth.userId : session.userId),
+        (userId: string | null) => {
+          if (auth) {
+            if (!userId) {
+              books.signOut();
+            } else if (userId !== session.userId) {
+              books.switchUser(userId);
+            } else {
+              books.init();
+            }
+          }
+          followQueue(Boolean(userId));
+          if (userId) {
+            sync.startLive();
+          } else {
+            sync.stopLive();
+          }
+        },
+        { fireImmediately: true }
+      );
+      return () => {
+        stopFollowingUser();
+        stopFollowingTabs();
+        followQueue(false);
+        stopWatching();
+        sync.stopLive();
+      };
+    }
+  };
+};
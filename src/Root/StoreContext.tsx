@@ -0,0 +1,85 @@
+import React, { createContext, useContext } from "react";
+import { AuthStore } from "../Auth/Auth.controller";
+import { BooksStore } from "../Books/Books.controller";
+import { BooksHistoryStore } from "../Books/BooksHistory.controller";
+import { BooksImportStore } from "../Books/BooksImport.controller";
+import { BooksOfflineStore } from "../Books/BooksOffline.controller";
+import { UserSession } from "../Shared/UserSession";
+import { RootStore } from "./RootStore";
+import { UiStore } from "./UiStore";
+
+/**
+ * @private - For internal use only, not part of the public API.
+ */
+const StoreContext = createContext<RootStore | null>(null);
+
+/**
+ * Props of the store provider.
+ */
+interface StoreProviderProps {
+  store: RootStore;
+  children: React.ReactNode;
+}
+
+/**
+ * Makes the root store available to the components below it through the store hooks.
+ * @component
+ */
+export const StoreProvider: React.FC<StoreProviderProps> = ({ store, children }) => (
+  <StoreContext.Provider value={store}>{children}</StoreContext.Provider>
+);
+
+/**
+ * Returns the root store of the nearest `StoreProvider`.
+ * @returns {RootStore} The root store.
+ * @throws {Error} When the component is not rendered inside a `StoreProvider`.
+ */
+export const useRootStore = (): RootStore => {
+  const store = useContext(StoreContext);
+  if (!store) {
+    throw new Error("useRootStore must be used inside a StoreProvider.");
+  }
+  return store;
+};
+
+/**
+ * Returns the books store of the nearest `StoreProvider`.
+ * @returns {BooksStore} The books store.
+ */
+export const useBooksStore = (): BooksStore => useRootStore().books;
+
+/**
+ * Returns the undo history of the nearest `StoreProvider`.
+ * @returns {BooksHistoryStore} The history store.
+ */
+export const useBooksHistory = (): BooksHistoryStore => useRootStore().history;
+
+/**
+ * Returns the import/export store of the nearest `StoreProvider`.
+ * @returns {BooksImportStore} The import store.
+ */
+export const useBooksImport = (): BooksImportStore => useRootStore().importer;
+
+/**
+ * Returns the offline sync store of the nearest `StoreProvider`.
+ * @returns {BooksOfflineStore} The offline store.
+ */
+export const useBooksOffline = (): BooksOfflineStore => useRootStore().offline;
+
+/**
+ * Returns the UI store of the nearest `StoreProvider`.
+ * @returns {UiStore} The UI store.
+ */
+export const useUiStore = (): UiStore => useRootStore().ui;
+
+/**
+ * Returns the user session of the nearest `StoreProvider`.
+ * @returns {UserSession} The session.
+ */
+export const useSession = (): UserSession => useRootStore().session;
+
+/**
+ * Returns the auth store of the nearest `StoreProvider`.
+ * @returns {AuthStore | null} The auth store, or null when the books API needs no login.
+ */
+export const useAuth = (): AuthStore | null => useRootStore().auth;
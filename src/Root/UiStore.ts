@@ -0,0 +1,42 @@
+import { makeAutoObservable } from "mobx";
+import { BooksStore } from "../Books/Books.controller";
+import { AddBookForm, createAddBookForm } from "../Books/Books.form";
+
+/**
+ * The pages of the app: the book list, or the reading statistics.
+ */
+export type AppPage = "books" | "stats";
+
+/**
+ * Interface defining the state of the user interface that outlives a single render:
+ * models of the forms, which keep their input while the user works elsewhere, and the page shown.
+ */
+export interface UiStore {
+  addBookForm: AddBookForm;
+  page: AppPage;
+  showPage: (page: AppPage) => void;
+}
+
+/**
+ * Creates the UI store on top of the books store the forms submit to.
+ * @param {BooksStore} books - The books store.
+ * @returns {UiStore} The UI store.
+ */
+export const createUiStore = (books: BooksStore): UiStore => {
+  const store = makeAutoObservable(
+    {
+      addBookForm: createAddBookForm(books),
+      page: "books" as AppPage,
+
+      /**
+       * Switches to another page, e.g. from the header's link to the statistics.
+       * @param {AppPage} page - The page to show.
+       */
+      showPage(page: AppPage) {
+        store.page = page;
+      }
+    },
+    { addBookForm: false }
+  );
+  return store;
+};
@@ -0,0 +1,115 @@
+import { AuthStore } from '../../Auth/Auth.controller';
+import { AuthRepository } from '../../Auth/Auth.repository';
+import { createMockBooksRepository } from '../../Books/Books.testing';
+import { createRootStore } from '../RootStore';
+
+const createMockRepository = () =>
+  createMockBooksRepository({ books: [{ id: 1, name: 'Dune', author: 'Frank Herbert' }], addedBook: { id: 100, name: 'Emma', author: 'Jane Austen' } });
+
+describe('RootStore', () => {
+  it('should not send any request when the modules are imported', async () => {
+    const fetchSpy = jest.fn();
+    const originalFetch = global.fetch;
+    global.fetch = fetchSpy;
+
+    jest.isolateModules(() => {
+      require('../RootStore');
+      require('../../Books/Books.controller');
+      require('../../Books/Books.form');
+    });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    global.fetch = originalFetch;
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('should wire the stores to one session and the given repository, loading only once started', async () => {
+    const repository = createMockRepository();
+    let listener: (online: boolean) => void = () => undefined;
+    const stopWatching = jest.fn();
+    const rootStore = createRootStore({
+      userId: 'alice',
+      repository,
+      watchConnectivity: (watcher) => {
+        listener = watcher;
+        return stopWatching;
+      },
+    });
+
+    expect(rootStore.books.userId).toBe('alice');
+    expect(repository.getBooks).not.toHaveBeenCalled();
+
+    const stop = rootStore.start();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(rootStore.books.books.map((book) => book.id)).toEqual([1]);
+    listener(false);
+    expect(rootStore.books.isOnline).toBe(false);
+    stop();
+    expect(stopWatching).toHaveBeenCalled();
+
+    rootStore.session.setUserId('bob');
+    expect(rootStore.books.userId).toBe('bob');
+  });
+
+  it('should send the books queued offline once started and back online, recording them for undo', async () => {
+    const repository = createMockRepository();
+    let listener: (online: boolean) => void = () => undefined;
+    const rootStore = createRootStore({
+      userId: 'alice',
+      repository,
+      watchConnectivity: (watcher) => {
+        listener = watcher;
+        return () => undefined;
+      },
+    });
+    await rootStore.books.setOnline(false);
+    await rootStore.books.addBook('Emma', 'Jane Austen');
+
+    expect(rootStore.offline.pendingSyncCount).toBe(1);
+    expect(rootStore.history.canUndo).toBe(true);
+
+    const stop = rootStore.start();
+    listener(true);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(repository.addBook).toHaveBeenCalledWith({ name: 'Emma', author: 'Jane Austen' }, false);
+    expect(rootStore.offline.pendingSyncCount).toBe(0);
+    stop();
+  });
+
+  it('should submit the add form through its books store', async () => {
+    const repository = createMockRepository();
+    const { ui } = createRootStore({ repository });
+
+    ui.addBookForm.setField('name', 'Emma');
+    ui.addBookForm.setField('author', 'Jane Austen');
+    await ui.addBookForm.submit();
+
+    expect(repository.addBook).toHaveBeenCalledWith({ name: 'Emma', author: 'Jane Austen' }, false);
+  });
+
+  it('should load the signed-in user\'s books after login and clear them when the session ends', async () => {
+    const repository = createMockRepository();
+    const authRepository: AuthRepository = {
+      login: jest.fn().mockResolvedValue({ accessToken: 'a', refreshToken: 'r', expiresIn: 600, userId: 'carol' }),
+      refresh: jest.fn(),
+      logout: jest.fn().mockResolvedValue(undefined),
+    };
+    const rootStore = createRootStore({ userId: 'alice', repository, authRepository, watchConnectivity: () => () => undefined });
+    const auth = rootStore.auth as AuthStore;
+    const stop = rootStore.start();
+
+    expect(repository.getBooks).not.toHaveBeenCalled();
+    await auth.login('carol', 'secret');
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(rootStore.books.userId).toBe('carol');
+    expect(rootStore.books.books.map((book) => book.id)).toEqual([1]);
+
+    auth.endSession(401);
+
+    expect(rootStore.books.books).toEqual([]);
+    stop();
+  });
+});
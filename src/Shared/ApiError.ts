@@ -0,0 +1,228 @@
+import { SchemaIssue } from "./Schema";
+
+/**
+ * Details of the request an API error belongs to.
+ */
+export interface ApiErrorDetails {
+  /** HTTP status, or null when no response was received. */
+  status: number | null;
+  url: string;
+  method: string;
+  /** Parsed JSON body of the error response, or the raw text when it is not JSON. */
+  body?: unknown;
+}
+
+/**
+ * Base class for every error raised by the HTTP client.
+ * Carries the request it belongs to so callers can decide how to react.
+ */
+export class ApiError extends Error {
+  status: number | null;
+  url: string;
+  method: string;
+  body: unknown;
+
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message);
+    // Keep instanceof working when classes are transpiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.status = details.status;
+    this.url = details.url;
+    this.method = details.method;
+    this.body = details.body;
+  }
+}
+
+/**
+ * The request never got a response (offline, DNS failure, CORS, refused connection...).
+ */
+export class NetworkError extends ApiError {
+  cause: unknown;
+
+  constructor(details: ApiErrorDetails, cause?: unknown) {
+    super(cause instanceof Error && cause.message ? cause.message : "Network request failed", details);
+    this.cause = cause;
+  }
+}
+
+/**
+ * The request was aborted because it took longer than the allowed time.
+ */
+export class TimeoutError extends ApiError {
+  timeoutMs: number;
+
+  constructor(details: ApiErrorDetails, timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`, details);
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The caller cancelled the request through its `AbortSignal`. Never retried, and usually not worth reporting.
+ */
+export class RequestCancelledError extends ApiError {
+  constructor(details: ApiErrorDetails) {
+    super("Request was cancelled", details);
+  }
+}
+
+/**
+ * The server rejected the request payload (400/422). `fieldErrors` maps field names to messages.
+ */
+export class ValidationError extends ApiError {
+  fieldErrors: Record<string, string>;
+
+  constructor(message: string, details: ApiErrorDetails, fieldErrors: Record<string, string>) {
+    super(message, details);
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * The request was not authenticated (401) or not allowed (403).
+ */
+export class AuthError extends ApiError {}
+
+/**
+ * The requested resource does not exist (404).
+ */
+export class NotFoundError extends ApiError {}
+
+/**
+ * The server is rate limiting the client (429). `retryAfterMs` comes from the `Retry-After` header.
+ */
+export class RateLimitError extends ApiError {
+  retryAfterMs: number | null;
+
+  constructor(message: string, details: ApiErrorDetails, retryAfterMs: number | null) {
+    super(message, details);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The server failed to handle the request (5xx).
+ */
+export class ServerError extends ApiError {}
+
+/**
+ * The server answered successfully but the body could not be parsed as JSON.
+ */
+export class MalformedResponseError extends ApiError {}
+
+/**
+ * The server answered with JSON that does not have the expected shape. `issues` lists every mismatch.
+ */
+export class ResponseValidationError extends MalformedResponseError {
+  issues: SchemaIssue[];
+
+  constructor(message: string, details: ApiErrorDetails, issues: SchemaIssue[]) {
+    super(message, details);
+    this.issues = issues;
+  }
+}
+
+/**
+ * Extracts per-field messages from a validation error body.
+ * Accepts either `{ errors: { field: "message" } }` or `{ errors: [{ field, message }] }`.
+ * @param {unknown} body - The parsed error body.
+ * @returns {Record<string, string>} Messages keyed by field name; empty when the body has none.
+ * @private - For internal use only, not part of the public API.
+ */
+const extractFieldErrors = (body: unknown): Record<string, string> => {
+  const fieldErrors: Record<string, string> = {};
+  const errors = body && typeof body === "object" ? (body as { errors?: unknown }).errors : undefined;
+
+  if (Array.isArray(errors)) {
+    errors.forEach((entry: { field?: unknown; message?: unknown }) => {
+      if (entry && typeof entry.field === "string" && typeof entry.message === "string") {
+        fieldErrors[entry.field] = entry.message;
+      }
+    });
+  } else if (errors && typeof errors === "object") {
+    Object.keys(errors).forEach((field: string) => {
+      const message = (errors as Record<string, unknown>)[field];
+      if (typeof message === "string") {
+        fieldErrors[field] = message;
+      } else if (Array.isArray(message) && typeof message[0] === "string") {
+        fieldErrors[field] = message[0];
+      }
+    });
+  }
+
+  return fieldErrors;
+};
+
+/**
+ * Looks up a header by name, ignoring case.
+ * @param {Record<string, string>} headers - The response headers.
+ * @param {string} name - The header name.
+ * @returns {string | undefined} The header value, if present.
+ */
+export const getHeader = (headers: Record<string, string>, name: string): string | undefined => {
+  const key = Object.keys(headers).find((candidate: string) => candidate.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : headers[key];
+};
+
+/**
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP date.
+ * @param {string | undefined} value - The header value.
+ * @param {number} now - Current time in milliseconds; injectable for tests.
+ * @returns {number | null} The delay in milliseconds, or null if the header is missing or invalid.
+ */
+export const parseRetryAfter = (value: string | undefined, now: number = Date.now()): number | null => {
+  if (!value) {
+    return null;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * Builds the matching `ApiError` subclass for a non-2xx response.
+ * @param {number} status - The HTTP status of the response.
+ * @param {string} statusText - The HTTP status text of the response.
+ * @param {string} rawBody - The raw response body.
+ * @param {object} request - The method and URL of the request.
+ * @param {Record<string, string>} headers - The response headers.
+ * @returns {ApiError} The error to throw.
+ */
+export const createApiError = (
+  status: number,
+  statusText: string,
+  rawBody: string,
+  request: { method: string; url: string },
+  headers: Record<string, string> = {}
+): ApiError => {
+  let body: unknown = rawBody;
+  let message: string;
+  try {
+    body = JSON.parse(rawBody);
+    const bodyMessage = body && typeof body === "object" ? (body as { message?: unknown }).message : undefined;
+    message = typeof bodyMessage === "string" && bodyMessage ? bodyMessage : `HTTP error ${status}`;
+  } catch (e) {
+    message = `HTTP error ${status}: ${statusText || rawBody || 'Unknown error'}`;
+  }
+
+  const details: ApiErrorDetails = { status, url: request.url, method: request.method, body };
+
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, details, extractFieldErrors(body));
+  }
+  if (status === 401 || status === 403) {
+    return new AuthError(message, details);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, details);
+  }
+  if (status === 429) {
+    return new RateLimitError(message, details, parseRetryAfter(getHeader(headers, "Retry-After")));
+  }
+  if (status >= 500) {
+    return new ServerError(message, details);
+  }
+  return new ApiError(message, details);
+};
@@ -1,66 +1,83 @@
-import { API_URL_BASE } from "./config";
+import { appConfig } from "./config";
+import { createHttpClient, HttpClient, HttpClientOptions, HttpRequest, HttpResponse, ResendRequest } from "./HttpClient";
 
 /**
- * Performs a GET request to the specified API path.
- * @param {string} path - The API endpoint path (appended to API_URL_BASE).
- * @returns {Promise<any>} A promise that resolves with the parsed JSON response.
- * @throws {Error} Throws an error if the network response is not OK, containing status and error details.
+ * What the gateway needs from the signed-in session; the auth store provides it.
  */
-export const get = async <T>(path: string): Promise<T> => {
-  const url = `${API_URL_BASE}${path}`;
-  
-  try {
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      let errorMessage: string;
-      try {
-        const errorJson = JSON.parse(errorText);
-        errorMessage = errorJson.message || `HTTP error ${response.status}`;
-      } catch (e) {
-        errorMessage = `HTTP error ${response.status}: ${response.statusText || errorText || 'Unknown error'}`;
-      }
-      throw new Error(errorMessage);
-    }
-    
-    const text = await response.text();
-    const result = text ? JSON.parse(text) : null;
-    return result;
-  } catch (error) {
-    console.error("API Gateway error:", error);
-    throw error;
-  }
+export interface GatewayAuth {
+  /** The access token to send, or null when nobody is signed in. */
+  getAccessToken: () => Promise<string | null>;
+  /** Gets a new access token after the current one was rejected; null if that failed, ending the session if it was rejected too. */
+  refreshAccessToken: () => Promise<string | null>;
+  /** Ends the session after the API answered 401 or 403 to a request with a valid-looking token. */
+  endSession: (status: number) => void;
+}
+
+/**
+ * Reads the bearer token a request was sent with.
+ * @private - For internal use only, not part of the public API.
+ */
+const bearerTokenOf = (request: HttpRequest): string | null => {
+  const authorization = request.headers.Authorization;
+  return authorization && authorization.indexOf("Bearer ") === 0 ? authorization.slice("Bearer ".length) : null;
 };
 
 /**
- * Performs a POST request to the specified API path.
- * @param {string} path - The API endpoint path (appended to API_URL_BASE).
- * @param {object} payload - The data to send in the request body (will be JSON.stringify'd).
- * @returns {Promise<any>} A promise that resolves with the parsed JSON response.
- * @throws {Error} Throws an error if the network response is not OK, containing status and error details.
+ * Creates an HTTP client for the books API with the gateway's interceptors registered.
+ * Cross-cutting concerns (auth, logging, retries) are added here as interceptors,
+ * so repositories only ever receive a ready-to-use client.
+ *
+ * With `auth`, every request carries the session's bearer token. A request the API answers with 401 is
+ * sent once more with a refreshed token (a rejected refresh token ends the session in the auth store), within
+ * the same attempt: the resent request has the call's timeout and cancellation, and its failures are retried
+ * like any other under the client's retry policy.
+ * If the API still answers 401, or answers 403, the session is ended; the error response is passed on either way.
+ * @param {Partial<HttpClientOptions>} options - Overrides for the client options, e.g. a mock transport in tests.
+ * @param {GatewayAuth} auth - The signed-in session; requests are sent without a token when omitted.
+ * @returns {HttpClient} The configured client.
  */
-export const post = async <T, P = Record<string, unknown>>(path: string, payload: P): Promise<T> => {
-  const response = await fetch(`${API_URL_BASE}${path}`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify(payload)
+export const createApiGateway = (options: Partial<HttpClientOptions> = {}, auth?: GatewayAuth): HttpClient => {
+  const client = createHttpClient({
+    baseUrl: appConfig.apiBaseUrl,
+    timeoutMs: 10000,
+    ...options
   });
-  
-  if (!response.ok) {
-    const errorText = await response.text();
-    let errorMessage: string;
-    try {
-      const errorJson = JSON.parse(errorText);
-      errorMessage = errorJson.message || `HTTP error ${response.status}`;
-    } catch (e) {
-      errorMessage = `HTTP error ${response.status}: ${response.statusText || errorText || 'Unknown error'}`;
-    }
-    throw new Error(errorMessage);
+
+  if (auth) {
+    client.addRequestInterceptor(async (request: HttpRequest) => {
+      const token = await auth.getAccessToken();
+      return token ? { ...request, headers: { ...request.headers, Authorization: `Bearer ${token}` } } : request;
+    });
+
+    client.addResponseInterceptor(async (response: HttpResponse, request: HttpRequest, resend: ResendRequest) => {
+      const sentToken = bearerTokenOf(request);
+      if (!sentToken || (response.status !== 401 && response.status !== 403)) {
+        return response;
+      }
+      if (response.status === 403) {
+        auth.endSession(403);
+        return response;
+      }
+      // Another request may have refreshed the token while this one was on its way
+      const currentToken = await auth.getAccessToken();
+      const token = currentToken && currentToken !== sentToken ? currentToken : await auth.refreshAccessToken();
+      if (!token) {
+        return response;
+      }
+      const retried = await resend({ ...request, headers: { ...request.headers, Authorization: `Bearer ${token}` } });
+      if (retried.status === 401 || retried.status === 403) {
+        auth.endSession(retried.status);
+      }
+      return retried;
+    });
   }
-  
-  const text = await response.text();
-  return text ? JSON.parse(text) : null;
-}; 
\ No newline at end of file
+
+  client.addResponseInterceptor((response: HttpResponse, request: HttpRequest) => {
+    if (response.status < 200 || response.status >= 300) {
+      console.error("API Gateway error:", `${request.method} ${request.url} -> ${response.status}`);
+    }
+    return response;
+  });
+
+  return client;
+};
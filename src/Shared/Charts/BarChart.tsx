@@ -0,0 +1,122 @@
+import React from "react";
+
+/**
+ * One bar of a bar chart.
+ */
+export interface BarDatum {
+  label: string;
+  value: number;
+}
+
+/**
+ * Props of the bar chart.
+ */
+export interface BarChartProps {
+  data: BarDatum[];
+  /** Describes the chart to screen readers, which read it as one image. */
+  title: string;
+  /** Horizontal bars with their labels on the left, or vertical columns labelled underneath. Defaults to horizontal. */
+  orientation?: "horizontal" | "vertical";
+  /** Width of the chart, in pixels. Defaults to 400. */
+  width?: number;
+  /** Thickness of each bar, in pixels. Defaults to 18. */
+  barSize?: number;
+  color?: string;
+}
+
+/**
+ * Space between bars, in pixels.
+ * @private - For internal use only, not part of the public API.
+ */
+const GAP = 6;
+/**
+ * Width kept for the labels of horizontal bars, and height for the labels under vertical ones, in pixels.
+ * @private - For internal use only, not part of the public API.
+ */
+const LABEL_WIDTH = 140;
+const LABEL_HEIGHT = 40;
+/**
+ * Height of vertical bars at the largest value, in pixels.
+ * @private - For internal use only, not part of the public API.
+ */
+const PLOT_HEIGHT = 120;
+
+/**
+ * Draws values as an SVG bar chart scaled to the largest value, with each bar's value written next to it.
+ * Renders nothing without data.
+ * @component
+ */
+const BarChart: React.FC<BarChartProps> = ({
+  data,
+  title,
+  orientation = "horizontal",
+  width = 400,
+  barSize = 18,
+  color = "#4a7ab5",
+}) => {
+  if (!data.length) {
+    return null;
+  }
+  const max = Math.max(1, Math.max.apply(null, data.map((datum: BarDatum) => datum.value)));
+
+  if (orientation === "vertical") {
+    const step = Math.max(barSize + GAP, width / data.length);
+    const chartWidth = step * data.length;
+    const height = PLOT_HEIGHT + LABEL_HEIGHT;
+    return (
+      <svg role="img" aria-label={title} width={chartWidth} height={height} viewBox={`0 0 ${chartWidth} ${height}`}>
+        {data.map((datum: BarDatum, i: number) => {
+          const barHeight = (datum.value / max) * (PLOT_HEIGHT - 14);
+          const x = i * step + (step - barSize) / 2;
+          return (
+            <g key={datum.label}>
+              <rect x={x} y={PLOT_HEIGHT - barHeight} width={barSize} height={barHeight} fill={color}>
+                <title>{`${datum.label}: ${datum.value}`}</title>
+              </rect>
+              {datum.value > 0 && (
+                <text x={x + barSize / 2} y={PLOT_HEIGHT - barHeight - 3} fontSize="10" textAnchor="middle">
+                  {datum.value}
+                </text>
+              )}
+              <text
+                x={x + barSize / 2}
+                y={PLOT_HEIGHT + 12}
+                fontSize="10"
+                textAnchor="end"
+                transform={`rotate(-45 ${x + barSize / 2} ${PLOT_HEIGHT + 12})`}
+              >
+                {datum.label}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    );
+  }
+
+  const height = data.length * (barSize + GAP);
+  const plotWidth = width - LABEL_WIDTH - 30;
+  return (
+    <svg role="img" aria-label={title} width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+      {data.map((datum: BarDatum, i: number) => {
+        const y = i * (barSize + GAP);
+        const barWidth = (datum.value / max) * plotWidth;
+        return (
+          <g key={datum.label}>
+            <text x={LABEL_WIDTH - 5} y={y + barSize * 0.7} fontSize="12" textAnchor="end">
+              {datum.label.length > 20 ? `${datum.label.slice(0, 19)}…` : datum.label}
+            </text>
+            <rect x={LABEL_WIDTH} y={y} width={barWidth} height={barSize} fill={color}>
+              <title>{`${datum.label}: ${datum.value}`}</title>
+            </rect>
+            <text x={LABEL_WIDTH + barWidth + 4} y={y + barSize * 0.7} fontSize="12">
+              {datum.value}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default BarChart;
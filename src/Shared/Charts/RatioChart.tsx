@@ -0,0 +1,82 @@
+import React from "react";
+
+/**
+ * One part of a ratio chart.
+ */
+export interface RatioSlice {
+  label: string;
+  value: number;
+  color: string;
+}
+
+/**
+ * Props of the ratio chart.
+ */
+export interface RatioChartProps {
+  slices: RatioSlice[];
+  /** Describes the chart to screen readers, which read it as one image. */
+  title: string;
+  /** Width and height of the ring, in pixels. Defaults to 120. */
+  size?: number;
+}
+
+/**
+ * Width of the ring, in pixels.
+ * @private - For internal use only, not part of the public API.
+ */
+const RING_WIDTH = 18;
+
+/**
+ * Draws how a whole splits into parts as an SVG ring, with a legend giving each part's count and share.
+ * Each slice is a circle stroke dashed to its share and rotated to start where the previous one ended.
+ * Renders nothing when the parts add up to 0.
+ * @component
+ */
+const RatioChart: React.FC<RatioChartProps> = ({ slices, title, size = 120 }) => {
+  const total = slices.reduce((sum: number, slice: RatioSlice) => sum + slice.value, 0);
+  if (total <= 0) {
+    return null;
+  }
+  const radius = (size - RING_WIDTH) / 2;
+  const circumference = 2 * Math.PI * radius;
+  let offset = 0;
+
+  return (
+    <div>
+      <svg role="img" aria-label={title} width={size} height={size} viewBox={`0 0 ${size} ${size}`}>
+        <g transform={`rotate(-90 ${size / 2} ${size / 2})`}>
+          {slices.map((slice: RatioSlice) => {
+            const length = (slice.value / total) * circumference;
+            const circle = (
+              <circle
+                key={slice.label}
+                cx={size / 2}
+                cy={size / 2}
+                r={radius}
+                fill="none"
+                stroke={slice.color}
+                strokeWidth={RING_WIDTH}
+                strokeDasharray={`${length} ${circumference - length}`}
+                strokeDashoffset={-offset}
+              >
+                <title>{`${slice.label}: ${slice.value}`}</title>
+              </circle>
+            );
+            offset += length;
+            return circle;
+          })}
+        </g>
+      </svg>
+      <ul>
+        {slices.map((slice: RatioSlice) => (
+          <li key={slice.label}>
+            <span style={{ color: slice.color }}>■</span> {slice.label}: {slice.value} (
+            {Math.round((slice.value / total) * 100)}%)
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RatioChart;
@@ -0,0 +1,28 @@
+/**
+ * Whether the browser currently reports a network connection.
+ * Defaults to true outside the browser, where there is nothing to ask.
+ * @returns {boolean} The browser's online status.
+ */
+export const isBrowserOnline = (): boolean =>
+  typeof navigator === "undefined" || typeof navigator.onLine !== "boolean" ? true : navigator.onLine;
+
+/**
+ * Subscribes to the browser's `online`/`offline` events.
+ * @param {(online: boolean) => void} listener - Called with the new status on every change.
+ * @returns {() => void} A function that removes the subscription.
+ */
+export const watchConnectivity = (listener: (online: boolean) => void): (() => void) => {
+  if (typeof window === "undefined") {
+    return () => undefined;
+  }
+
+  const handleOnline = () => listener(true);
+  const handleOffline = () => listener(false);
+  window.addEventListener("online", handleOnline);
+  window.addEventListener("offline", handleOffline);
+
+  return () => {
+    window.removeEventListener("online", handleOnline);
+    window.removeEventListener("offline", handleOffline);
+  };
+};
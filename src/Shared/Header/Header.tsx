@@ -1,9 +1,15 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { observer } from 'mobx-react';
-import { booksStore } from '../../Books/Books.controller';
+import { useAuth, useBooksOffline, useBooksStore, useUiStore } from '../../Root/StoreContext';
 
 interface HeaderStyles {
     header: React.CSSProperties;
+    status: React.CSSProperties;
+    offline: React.CSSProperties;
+    userForm: React.CSSProperties;
+    userInput: React.CSSProperties;
+    logoutButton: React.CSSProperties;
+    pageLink: React.CSSProperties;
 }
 
 const styles: HeaderStyles = {
@@ -15,19 +21,110 @@ const styles: HeaderStyles = {
         top: 0,
         zIndex: 1000,
         textAlign: 'right',
-    }
+    },
+    status: {
+        marginLeft: '15px',
+        fontSize: '0.9em',
+        color: '#555',
+    },
+    offline: {
+        marginLeft: '15px',
+        fontSize: '0.9em',
+        color: '#b00',
+        fontWeight: 'bold',
+    },
+    userForm: {
+        display: 'inline',
+        marginRight: '15px',
+    },
+    userInput: {
+        width: '120px',
+        marginLeft: '5px',
+        marginRight: '5px',
+    },
+    logoutButton: {
+        marginLeft: '5px',
+    },
+    pageLink: {
+        float: 'left',
+    },
 }
 
 /**
- * Header component displaying the count of private books.
- * Observes the `booksStore` for changes to the private book count.
+ * Header component displaying the current user, the count of private books and the connection/sync status.
+ * Observes the books and offline stores from the `StoreProvider` for changes to the user, the private book count and offline queue,
+ * and lets the user switch to another user's books, or log out when the books API requires login
+ * (the signed-in account then decides whose books are shown). Links to the reading statistics, and back to the list.
  * Features a sticky position at the top of the viewport.
  * @component
  */
 const Header: React.FC = () => {
+    const booksStore = useBooksStore();
+    const offline = useBooksOffline();
+    const auth = useAuth();
+    const ui = useUiStore();
+    const [nextUserId, setNextUserId] = useState<string>('');
+    const error = booksStore.error;
+    const userIdError = error && error.kind === 'validation' ? error.fieldErrors.userId : undefined;
+
+    /**
+     * Switches the store to the entered user id.
+     */
+    const handleSwitchUser = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!nextUserId.trim()) {
+            return;
+        }
+        booksStore.switchUser(nextUserId);
+        setNextUserId('');
+    };
+
+    /**
+     * Switches between the book list and the statistics without leaving the page.
+     */
+    const handleTogglePage = (e: React.MouseEvent) => {
+        e.preventDefault();
+        ui.showPage(ui.page === 'stats' ? 'books' : 'stats');
+    };
+
     return (
         <div style={styles.header} className="app-header">
+            <a href={ui.page === 'stats' ? '#books' : '#stats'} style={styles.pageLink} onClick={handleTogglePage}>
+                {ui.page === 'stats' ? 'Back to books' : 'Reading statistics'}
+            </a>
+            {auth && auth.user ? (
+                <span style={styles.userForm}>
+                    Logged in as <strong>{auth.user.username}</strong>
+                    <button type="button" style={styles.logoutButton} onClick={() => auth.logout()}>
+                        Log out
+                    </button>
+                </span>
+            ) : (
+                <form style={styles.userForm} onSubmit={handleSwitchUser}>
+                    User: <strong>{booksStore.userId}</strong>
+                    <input
+                        style={styles.userInput}
+                        type="text"
+                        placeholder="Switch user"
+                        aria-label="User id"
+                        value={nextUserId}
+                        onChange={e => setNextUserId(e.target.value)}
+                    />
+                    <button type="submit">Switch</button>
+                    {userIdError && <span style={styles.offline}>{userIdError}</span>}
+                </form>
+            )}
             Your books: {booksStore.privateBooksCount}
+            {booksStore.isOnline ? (
+                <span style={styles.status}>Online</span>
+            ) : (
+                <span style={styles.offline}>Offline</span>
+            )}
+            {offline.pendingSyncCount > 0 && (
+                <span style={styles.status}>
+                    {offline.isSyncing ? 'Syncing' : 'Waiting to sync'}: {offline.pendingSyncCount}
+                </span>
+            )}
         </div>
     );
 }
@@ -0,0 +1,369 @@
+import {
+  ApiError,
+  createApiError,
+  MalformedResponseError,
+  NetworkError,
+  RateLimitError,
+  RequestCancelledError,
+  TimeoutError
+} from "./ApiError";
+import { computeBackoffDelay, DEFAULT_RETRY_POLICY, isRetryable, RetryPolicy } from "./RetryPolicy";
+
+/**
+ * A request as seen by interceptors and transports.
+ */
+export interface HttpRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  /** Aborted when the request times out or is cancelled; transports should stop sending when it fires. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A raw response returned by a transport, before the body is parsed.
+ */
+export interface HttpResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Sends a request over the wire. Swappable so tests can run against an in-memory fake.
+ */
+export type HttpTransport = (request: HttpRequest) => Promise<HttpResponse>;
+
+/**
+ * Runs before a request is sent and may return a modified copy of it (e.g. to add an auth header).
+ */
+export type RequestInterceptor = (request: HttpRequest) => HttpRequest | Promise<HttpRequest>;
+
+/**
+ * Sends a request again within the current attempt, with the attempt's timeout and cancellation, and
+ * without running the interceptors; a response interceptor may return what it answers instead.
+ */
+export type ResendRequest = (request: HttpRequest) => Promise<HttpResponse>;
+
+/**
+ * Runs after a response is received and before it is parsed; may return a modified copy of it.
+ */
+export type ResponseInterceptor = (
+  response: HttpResponse,
+  request: HttpRequest,
+  resend: ResendRequest
+) => HttpResponse | Promise<HttpResponse>;
+
+/**
+ * Options for creating an HTTP client.
+ */
+export interface HttpClientOptions {
+  /** Prefix prepended to every request path. */
+  baseUrl: string;
+  /** Headers sent with every request; per-request headers take precedence. */
+  headers?: Record<string, string>;
+  /** Transport used to send requests. Defaults to `fetchTransport`. */
+  transport?: HttpTransport;
+  /** Default time limit for a single attempt, in milliseconds; no limit when omitted. */
+  timeoutMs?: number;
+  /** Default retry policy, merged over `DEFAULT_RETRY_POLICY`. */
+  retry?: Partial<RetryPolicy>;
+}
+
+/**
+ * Per-call options, overriding the client defaults.
+ */
+export interface RequestOptions {
+  /** Time limit for a single attempt, in milliseconds; 0 disables the limit. */
+  timeoutMs?: number;
+  /** Retry policy for this call, merged over the client's policy. */
+  retry?: Partial<RetryPolicy>;
+  /** Cancels the call, including any pending retry; it then rejects with `RequestCancelledError`. */
+  signal?: AbortSignal;
+  /** Query string parameters, URL-encoded and appended to the path (e.g. `{ page: 2, limit: 50 }`). */
+  params?: Record<string, string | number>;
+}
+
+/**
+ * Interface defining the structure of an HTTP client
+ */
+export interface HttpClient {
+  request: <T>(method: string, path: string, payload?: unknown, requestOptions?: RequestOptions) => Promise<T>;
+  get: <T>(path: string, requestOptions?: RequestOptions) => Promise<T>;
+  post: <T, P = Record<string, unknown>>(path: string, payload: P, requestOptions?: RequestOptions) => Promise<T>;
+  put: <T, P = Record<string, unknown>>(path: string, payload: P, requestOptions?: RequestOptions) => Promise<T>;
+  patch: <T, P = Record<string, unknown>>(path: string, payload: P, requestOptions?: RequestOptions) => Promise<T>;
+  del: <T>(path: string, requestOptions?: RequestOptions) => Promise<T>;
+  addRequestInterceptor: (interceptor: RequestInterceptor) => () => void;
+  addResponseInterceptor: (interceptor: ResponseInterceptor) => () => void;
+}
+
+/**
+ * Default transport backed by the global `fetch`.
+ * @param {HttpRequest} request - The request to send.
+ * @returns {Promise<HttpResponse>} A promise that resolves with the raw response.
+ */
+export const fetchTransport: HttpTransport = async (request: HttpRequest): Promise<HttpResponse> => {
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body,
+    signal: request.signal
+  });
+
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value: string, key: string) => {
+    headers[key] = value;
+  });
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    body: await response.text()
+  };
+};
+
+/**
+ * Parses a raw response, throwing a typed error when it is not OK.
+ * @param {HttpResponse} response - The response to parse.
+ * @param {HttpRequest} request - The request the response belongs to.
+ * @returns {any} The parsed JSON body, or null for an empty body.
+ * @throws {ApiError} The matching `ApiError` subclass if the response status is not 2xx,
+ * or a `MalformedResponseError` if a successful body is not valid JSON.
+ * @private - For internal use only, not part of the public API.
+ */
+const parseResponse = <T>(response: HttpResponse, request: HttpRequest): T => {
+  if (response.status < 200 || response.status >= 300) {
+    throw createApiError(response.status, response.statusText, response.body, request, response.headers);
+  }
+
+  if (!response.body) {
+    return null as unknown as T;
+  }
+  try {
+    return JSON.parse(response.body);
+  } catch (e) {
+    throw new MalformedResponseError("Response body is not valid JSON", {
+      status: response.status,
+      url: request.url,
+      method: request.method,
+      body: response.body
+    });
+  }
+};
+
+/**
+ * Builds a query string from request parameters.
+ * @param {Record<string, string | number>} params - The parameters, in the order they should appear.
+ * @returns {string} The query string including the leading `?`, or an empty string when there are no parameters.
+ * @private - For internal use only, not part of the public API.
+ */
+const toQueryString = (params: Record<string, string | number> = {}): string => {
+  const pairs = Object.keys(params).map(
+    (key: string) => `${encodeURIComponent(key)}=${encodeURIComponent(String(params[key]))}`
+  );
+  return pairs.length ? `?${pairs.join("&")}` : "";
+};
+
+/**
+ * Waits for the given time, stopping early if the signal is aborted.
+ * @param {number} ms - The delay in milliseconds.
+ * @param {AbortSignal} signal - Optional signal that cancels the wait.
+ * @returns {Promise<void>} A promise that resolves after the delay, or as soon as the signal is aborted.
+ * @private - For internal use only, not part of the public API.
+ */
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      if (signal) {
+        signal.removeEventListener("abort", done);
+      }
+      resolve();
+    }
+    if (signal) {
+      signal.addEventListener("abort", done);
+    }
+  });
+
+/**
+ * Creates an HTTP client that sends JSON requests relative to a base URL.
+ * Each attempt passes through the request interceptors in the order they were added,
+ * then the transport, then the response interceptors, before the body is parsed.
+ * Failed attempts are retried with exponential backoff according to the retry policy; a 429 waits for
+ * its `Retry-After` instead, unless that is longer than the policy's `maxDelayMs`.
+ *
+ * @param {HttpClientOptions} options - Base URL, default headers, transport, timeout and retry defaults.
+ * @returns {HttpClient} A client instance.
+ */
+export function createHttpClient(options: HttpClientOptions): HttpClient {
+  const transport = options.transport || fetchTransport;
+  const defaultHeaders = options.headers || {};
+  let requestInterceptors: RequestInterceptor[] = [];
+  let responseInterceptors: ResponseInterceptor[] = [];
+
+  /**
+   * Sends a request through the transport, rejecting with a `TimeoutError` if no response
+   * arrives within `timeoutMs`, or with a `RequestCancelledError` if `signal` is aborted.
+   * Either way the transport's own signal is aborted so it can stop sending.
+   */
+  const sendWithCancellation = (httpRequest: HttpRequest, timeoutMs: number, signal?: AbortSignal): Promise<HttpResponse> => {
+    if (!timeoutMs && !signal) {
+      return transport(httpRequest);
+    }
+
+    const details = { status: null, url: httpRequest.url, method: httpRequest.method };
+    const controller = typeof AbortController !== "undefined" ? new AbortController() : null;
+    return new Promise<HttpResponse>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const cleanUp = () => {
+        if (timer !== undefined) {
+          clearTimeout(timer);
+        }
+        if (signal) {
+          signal.removeEventListener("abort", onCancel);
+        }
+      };
+      const stop = (error: ApiError) => {
+        cleanUp();
+        if (controller) {
+          controller.abort();
+        }
+        reject(error);
+      };
+      function onCancel() {
+        stop(new RequestCancelledError(details));
+      }
+
+      if (signal && signal.aborted) {
+        reject(new RequestCancelledError(details));
+        return;
+      }
+      if (timeoutMs) {
+        timer = setTimeout(() => stop(new TimeoutError(details, timeoutMs)), timeoutMs);
+      }
+      if (signal) {
+        signal.addEventListener("abort", onCancel);
+      }
+
+      transport({ ...httpRequest, signal: controller ? controller.signal : undefined }).then(
+        (response: HttpResponse) => {
+          cleanUp();
+          resolve(response);
+        },
+        (err: unknown) => {
+          cleanUp();
+          reject(err);
+        }
+      );
+    });
+  };
+
+  /**
+   * Sends a request like `sendWithCancellation`, turning a transport failure into a `NetworkError`.
+   */
+  const send = async (httpRequest: HttpRequest, timeoutMs: number, signal?: AbortSignal): Promise<HttpResponse> => {
+    try {
+      return await sendWithCancellation(httpRequest, timeoutMs, signal);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        throw err;
+      }
+      throw new NetworkError({ status: null, url: httpRequest.url, method: httpRequest.method }, err);
+    }
+  };
+
+  /**
+   * Performs a single attempt: interceptors, transport and parsing.
+   */
+  const attempt = async <T>(baseRequest: HttpRequest, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+    let httpRequest: HttpRequest = { ...baseRequest, headers: { ...baseRequest.headers } };
+    for (const interceptor of requestInterceptors) {
+      httpRequest = await interceptor(httpRequest);
+    }
+
+    let response = await send(httpRequest, timeoutMs, signal);
+    const resend: ResendRequest = (retryRequest: HttpRequest) => send(retryRequest, timeoutMs, signal);
+    for (const interceptor of responseInterceptors) {
+      response = await interceptor(response, httpRequest, resend);
+    }
+
+    return parseResponse<T>(response, httpRequest);
+  };
+
+  const request = async <T>(
+    method: string,
+    path: string,
+    payload?: unknown,
+    requestOptions: RequestOptions = {}
+  ): Promise<T> => {
+    const baseRequest: HttpRequest = {
+      method,
+      url: `${options.baseUrl}${path}${toQueryString(requestOptions.params)}`,
+      headers: { ...defaultHeaders }
+    };
+    if (payload !== undefined) {
+      baseRequest.headers["Content-Type"] = "application/json";
+      baseRequest.body = JSON.stringify(payload);
+    }
+
+    const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry, ...requestOptions.retry };
+    const timeoutMs = requestOptions.timeoutMs !== undefined ? requestOptions.timeoutMs : options.timeoutMs || 0;
+
+    const signal = requestOptions.signal;
+    const throwIfCancelled = () => {
+      if (signal && signal.aborted) {
+        throw new RequestCancelledError({ status: null, url: baseRequest.url, method });
+      }
+    };
+
+    for (let retry = 0; ; retry += 1) {
+      throwIfCancelled();
+      try {
+        return await attempt<T>(baseRequest, timeoutMs, signal);
+      } catch (err) {
+        if (retry >= policy.retries || !isRetryable(err, method)) {
+          throw err;
+        }
+        const retryAfterMs = err instanceof RateLimitError ? err.retryAfterMs : null;
+        // A server asking to wait longer than the policy allows would keep the call pending; give up instead
+        if (retryAfterMs !== null && retryAfterMs > policy.maxDelayMs) {
+          throw err;
+        }
+        await wait(retryAfterMs !== null ? retryAfterMs : computeBackoffDelay(retry, policy), signal);
+      }
+    }
+  };
+
+  return {
+    request,
+    get: <T>(path: string, requestOptions?: RequestOptions) =>
+      request<T>("GET", path, undefined, requestOptions),
+    post: <T, P = Record<string, unknown>>(path: string, payload: P, requestOptions?: RequestOptions) =>
+      request<T>("POST", path, payload, requestOptions),
+    put: <T, P = Record<string, unknown>>(path: string, payload: P, requestOptions?: RequestOptions) =>
+      request<T>("PUT", path, payload, requestOptions),
+    patch: <T, P = Record<string, unknown>>(path: string, payload: P, requestOptions?: RequestOptions) =>
+      request<T>("PATCH", path, payload, requestOptions),
+    del: <T>(path: string, requestOptions?: RequestOptions) =>
+      request<T>("DELETE", path, undefined, requestOptions),
+
+    addRequestInterceptor(interceptor: RequestInterceptor) {
+      requestInterceptors = requestInterceptors.concat(interceptor);
+      return () => {
+        requestInterceptors = requestInterceptors.filter((existing: RequestInterceptor) => existing !== interceptor);
+      };
+    },
+
+    addResponseInterceptor(interceptor: ResponseInterceptor) {
+      responseInterceptors = responseInterceptors.concat(interceptor);
+      return () => {
+        responseInterceptors = responseInterceptors.filter((existing: ResponseInterceptor) => existing !== interceptor);
+      };
+    }
+  };
+}
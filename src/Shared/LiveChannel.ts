@@ -0,0 +1,189 @@
+import { computeBackoffDelay, DEFAULT_RETRY_POLICY, RetryPolicy } from "./RetryPolicy";
+
+/**
+ * Callbacks a live connection reports to.
+ */
+export interface LiveConnectionHandlers {
+  onOpen: () => void;
+  /** Receives the data of each message, e.g. a JSON-encoded event. */
+  onMessage: (data: string) => void;
+  /** The connection failed or was lost; the channel closes it and connects again. */
+  onError: () => void;
+}
+
+/**
+ * An open connection to a server pushing messages.
+ */
+export interface LiveConnection {
+  close: () => void;
+}
+
+/**
+ * Opens a connection to the given URL. Swappable so tests can run against a stand-in server.
+ */
+export type LiveConnector = (url: string, handlers: LiveConnectionHandlers) => LiveConnection;
+
+/**
+ * Options for creating a live channel.
+ */
+export interface LiveChannelOptions {
+  connect: LiveConnector;
+  /** Returns the URL to connect to; called before every connection, so it can carry a fresh token. */
+  url: () => string | Promise<string>;
+  onMessage: (data: string) => void;
+  /** Called when a connection opens after an earlier one was lost, since messages may have been missed. */
+  onReconnect: () => void;
+  /** Delays between reconnection attempts, merged over a policy starting at 1s and capped at 30s; `retries` is ignored. */
+  retry?: Partial<RetryPolicy>;
+}
+
+/**
+ * Interface defining the structure of a live channel
+ */
+export interface LiveChannel {
+  start: () => void;
+  stop: () => void;
+}
+
+/**
+ * Backoff used between reconnection attempts when the options do not override it.
+ * @private - For internal use only, not part of the public API.
+ */
+const RECONNECT_POLICY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+/**
+ * Connects through the browser's `EventSource` (Server-Sent Events). Its own reconnection is
+ * turned off by closing the source on the first error, so the channel's backoff applies.
+ * @param {string} url - The event stream URL.
+ * @param {LiveConnectionHandlers} handlers - Callbacks for the connection's events.
+ * @returns {LiveConnection} The connection.
+ */
+export const eventSourceConnector: LiveConnector = (url: string, handlers: LiveConnectionHandlers): LiveConnection => {
+  const source = new EventSource(url);
+  source.onopen = () => handlers.onOpen();
+  source.onmessage = (event: MessageEvent) => handlers.onMessage(String(event.data));
+  source.onerror = () => {
+    source.close();
+    handlers.onError();
+  };
+  return { close: () => source.close() };
+};
+
+/**
+ * Returns the Server-Sent Events connector when the browser supports it.
+ * @returns {LiveConnector | null} The connector, or null when `EventSource` is not available (e.g. in tests).
+ */
+export const getBrowserLiveConnector = (): LiveConnector | null =>
+  typeof EventSource !== "undefined" ? eventSourceConnector : null;
+
+/**
+ * Creates a channel that keeps a connection open while started: a lost connection is reopened
+ * after an exponentially growing, jittered delay, which starts over once a connection opens.
+ * @param {LiveChannelOptions} options - Connector, URL, message and reconnect callbacks, and backoff.
+ * @returns {LiveChannel} A stopped channel.
+ */
+export const createLiveChannel = (options: LiveChannelOptions): LiveChannel => {
+  const policy: RetryPolicy = { ...RECONNECT_POLICY, ...options.retry };
+  let connection: LiveConnection | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  /** Incremented on every start and stop, so callbacks of an earlier connection are ignored */
+  let generation = 0;
+  /** Failed attempts since the last open connection */
+  let failures = 0;
+  /** Whether a connection was open before, so the next one may have missed messages */
+  let wasConnected = false;
+
+  /**
+   * Opens a connection for the current generation.
+   */
+  const open = async (current: number) => {
+    let url: string;
+    try {
+      url = await options.url();
+    } catch (err) {
+      console.error("Failed to build the live updates URL:", err);
+      scheduleReconnect(current);
+      return;
+    }
+    if (current !== generation) {
+      return;
+    }
+    connection = options.connect(url, {
+      onOpen: () => {
+        if (current !== generation) {
+          return;
+        }
+        failures = 0;
+        if (wasConnected) {
+          options.onReconnect();
+        }
+        wasConnected = true;
+      },
+      onMessage: (data: string) => {
+        if (current === generation) {
+          options.onMessage(data);
+        }
+      },
+      onError: () => {
+        if (current !== generation) {
+          return;
+        }
+        if (connection) {
+          connection.close();
+          connection = null;
+        }
+        scheduleReconnect(current);
+      }
+    });
+  };
+
+  /**
+   * Waits for the backoff delay, then connects again unless the channel was stopped meanwhile.
+   */
+  const scheduleReconnect = (current: number) => {
+    if (current !== generation) {
+      return;
+    }
+    const delay = computeBackoffDelay(failures, policy);
+    failures += 1;
+    timer = setTimeout(() => {
+      timer = undefined;
+      open(current);
+    }, delay);
+  };
+
+  /**
+   * Closes the connection and cancels a pending reconnection.
+   */
+  const close = () => {
+    generation += 1;
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    if (connection) {
+      connection.close();
+      connection = null;
+    }
+  };
+
+  return {
+    /**
+     * Connects, replacing any current connection. Messages missed before are not replayed;
+     * the caller loads the current state itself.
+     */
+    start() {
+      close();
+      failures = 0;
+      wasConnected = false;
+      open(generation);
+    },
+
+    /**
+     * Disconnects and stops reconnecting.
+     */
+    stop() {
+      close();
+    }
+  };
+};
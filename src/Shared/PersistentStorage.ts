@@ -0,0 +1,73 @@
+/**
+ * Minimal synchronous key/value storage; `window.localStorage` satisfies it.
+ */
+export interface KeyValueStorage {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+}
+
+/**
+ * Creates a storage that only lives in memory, used in tests and when `localStorage` is unavailable.
+ * @returns {KeyValueStorage} An empty in-memory storage.
+ */
+export const createMemoryStorage = (): KeyValueStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => (items.has(key) ? (items.get(key) as string) : null),
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    }
+  };
+};
+
+/**
+ * Returns `localStorage` when the browser allows access to it, an in-memory storage otherwise
+ * (e.g. private mode in some browsers throws on access).
+ * @returns {KeyValueStorage} The storage to persist data in.
+ */
+export const getBrowserStorage = (): KeyValueStorage => {
+  try {
+    if (typeof window !== "undefined" && window.localStorage) {
+      return window.localStorage;
+    }
+  } catch (e) {
+    console.debug("localStorage is not available, falling back to memory:", e);
+  }
+  return createMemoryStorage();
+};
+
+/**
+ * Reads and parses a JSON value.
+ * @param {KeyValueStorage} storage - The storage to read from.
+ * @param {string} key - The key to read.
+ * @param {T} fallback - Returned when the key is missing or its value cannot be parsed.
+ * @returns {T} The stored value or the fallback.
+ */
+export const readJson = <T>(storage: KeyValueStorage, key: string, fallback: T): T => {
+  try {
+    const raw = storage.getItem(key);
+    return raw === null ? fallback : JSON.parse(raw);
+  } catch (e) {
+    console.error(`Failed to read "${key}" from storage:`, e);
+    return fallback;
+  }
+};
+
+/**
+ * Serializes and writes a JSON value. Failures (e.g. quota exceeded) are logged, not thrown,
+ * since persistence is a best-effort addition to the in-memory state.
+ * @param {KeyValueStorage} storage - The storage to write to.
+ * @param {string} key - The key to write.
+ * @param {unknown} value - The value to store.
+ */
+export const writeJson = (storage: KeyValueStorage, key: string, value: unknown): void => {
+  try {
+    storage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to write "${key}" to storage:`, e);
+  }
+};
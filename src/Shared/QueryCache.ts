@@ -0,0 +1,197 @@
+import { RequestCancelledError } from "./ApiError";
+
+/**
+ * A cached query result.
+ */
+export interface CacheEntry<T> {
+  data: T;
+  /** When the data was stored, in milliseconds. */
+  updatedAt: number;
+  /** Set by `invalidate`; a stale entry is still served but should be revalidated. */
+  invalidated: boolean;
+}
+
+/**
+ * Options for creating a query cache.
+ */
+export interface QueryCacheOptions {
+  /** How long an entry stays fresh, in milliseconds. */
+  ttlMs: number;
+  /** Clock used for TTL checks; injectable for tests. */
+  now?: () => number;
+}
+
+/**
+ * Fetches the data for a key. Receives a signal that is aborted once nobody waits for the result anymore.
+ */
+export type QueryFetcher<T> = (signal?: AbortSignal) => Promise<T>;
+
+/**
+ * Interface defining the structure of a query cache
+ */
+export interface QueryCache {
+  peek: <T>(key: string) => CacheEntry<T> | undefined;
+  isFresh: (key: string) => boolean;
+  fetch: <T>(key: string, fetcher: QueryFetcher<T>, signal?: AbortSignal) => Promise<T>;
+  set: <T>(key: string, data: T) => void;
+  invalidate: (key?: string) => void;
+  clear: () => void;
+}
+
+/**
+ * A request shared by every caller fetching the same key at the same time.
+ * @private - For internal use only, not part of the public API.
+ */
+interface InFlightQuery {
+  promise: Promise<unknown>;
+  controller: AbortController | null;
+  /** Number of callers still waiting for the result. */
+  waiting: number;
+}
+
+/**
+ * Creates an in-memory cache for query results keyed by endpoint.
+ * Entries stay fresh for `ttlMs`; older or invalidated entries can still be read through `peek`
+ * so callers can show them while revalidating (stale-while-revalidate).
+ * Concurrent `fetch` calls for the same key share a single request.
+ *
+ * @param {QueryCacheOptions} options - TTL and clock.
+ * @returns {QueryCache} A cache instance.
+ */
+export function createQueryCache(options: QueryCacheOptions): QueryCache {
+  const now = options.now || Date.now;
+  const entries = new Map<string, CacheEntry<unknown>>();
+  const inFlight = new Map<string, InFlightQuery>();
+  /** Bumped by `invalidate` so responses to requests started earlier are not cached as fresh */
+  const versions = new Map<string, number>();
+  /** Bumped by `clear` so responses to requests started earlier are dropped instead of cached */
+  let generation = 0;
+
+  const versionOf = (key: string): number => versions.get(key) || 0;
+
+  const startQuery = <T>(key: string, fetcher: QueryFetcher<T>): InFlightQuery => {
+    const controller = typeof AbortController !== "undefined" ? new AbortController() : null;
+    const version = versionOf(key);
+    const startedIn = generation;
+    const query: InFlightQuery = { promise: Promise.resolve(), controller, waiting: 0 };
+
+    query.promise = fetcher(controller ? controller.signal : undefined).then(
+      (data: T) => {
+        if (inFlight.get(key) === query) {
+          inFlight.delete(key);
+        }
+        if (startedIn === generation) {
+          entries.set(key, { data, updatedAt: now(), invalidated: versionOf(key) !== version });
+        }
+        return data;
+      },
+      (err: unknown) => {
+        if (inFlight.get(key) === query) {
+          inFlight.delete(key);
+        }
+        throw err;
+      }
+    );
+    inFlight.set(key, query);
+    return query;
+  };
+
+  return {
+    /**
+     * Returns the cached entry for a key, fresh or not, without fetching.
+     */
+    peek<T>(key: string): CacheEntry<T> | undefined {
+      return entries.get(key) as CacheEntry<T> | undefined;
+    },
+
+    /**
+     * Whether the key has an entry that is younger than the TTL and not invalidated.
+     */
+    isFresh(key: string): boolean {
+      const entry = entries.get(key);
+      return !!entry && !entry.invalidated && now() - entry.updatedAt < options.ttlMs;
+    },
+
+    /**
+     * Fetches the data for a key and caches it, joining a request that is already in flight.
+     * Aborting `signal` only detaches this caller; the shared request is aborted once no caller is left.
+     */
+    fetch<T>(key: string, fetcher: QueryFetcher<T>, signal?: AbortSignal): Promise<T> {
+      if (signal && signal.aborted) {
+        return Promise.reject(new RequestCancelledError({ status: null, url: key, method: "GET" }));
+      }
+
+      const query = inFlight.get(key) || startQuery(key, fetcher);
+      query.waiting += 1;
+
+      return new Promise<T>((resolve, reject) => {
+        const leave = () => {
+          query.waiting -= 1;
+          if (signal) {
+            signal.removeEventListener("abort", onAbort);
+          }
+        };
+        function onAbort() {
+          leave();
+          if (query.waiting === 0) {
+            if (inFlight.get(key) === query) {
+              inFlight.delete(key);
+            }
+            if (query.controller) {
+              query.controller.abort();
+            }
+          }
+          reject(new RequestCancelledError({ status: null, url: key, method: "GET" }));
+        }
+        if (signal) {
+          signal.addEventListener("abort", onAbort);
+        }
+
+        query.promise.then(
+          (data: unknown) => {
+            leave();
+            resolve(data as T);
+          },
+          (err: unknown) => {
+            leave();
+            reject(err);
+          }
+        );
+      });
+    },
+
+    /**
+     * Stores data for a key as fresh, e.g. after the caller already knows the new value.
+     */
+    set<T>(key: string, data: T) {
+      entries.set(key, { data, updatedAt: now(), invalidated: false });
+    },
+
+    /**
+     * Marks one key, or every key, as stale so the next read revalidates it.
+     * The data is kept so it can still be shown while the new request runs.
+     */
+    invalidate(key?: string) {
+      const keys = key === undefined ? Array.from(entries.keys()).concat(Array.from(inFlight.keys())) : [key];
+      keys.forEach((staleKey: string) => {
+        versions.set(staleKey, versionOf(staleKey) + 1);
+        inFlight.delete(staleKey);
+        const entry = entries.get(staleKey);
+        if (entry) {
+          entries.set(staleKey, { ...entry, invalidated: true });
+        }
+      });
+    },
+
+    /**
+     * Removes every entry, e.g. when switching to another user.
+     * Requests still in flight resolve for their callers but are not cached.
+     */
+    clear() {
+      generation += 1;
+      entries.clear();
+      inFlight.clear();
+      versions.clear();
+    }
+  };
+}
@@ -0,0 +1,60 @@
+import { NetworkError, RateLimitError, ServerError, TimeoutError } from "./ApiError";
+
+/**
+ * Controls whether and how a failed request is retried.
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries after the first attempt; 0 disables retrying. */
+  retries: number;
+  /** Delay before the first retry; doubled on every further retry. */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay, and the longest `Retry-After` a call waits for before failing instead. */
+  maxDelayMs: number;
+  /** Randomizes each delay between half and the full backoff so clients do not retry in lockstep. */
+  jitter: boolean;
+}
+
+/**
+ * Policy used when neither the client nor the call overrides it.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  jitter: true
+};
+
+/**
+ * Methods that can be repeated without changing the outcome, and so are safe to retry
+ * even when the server may already have processed the first attempt.
+ * @private - For internal use only, not part of the public API.
+ */
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+/**
+ * Decides whether a failed request should be retried.
+ * 429 responses are always retryable since the server did not process the request;
+ * network failures, timeouts and 5xx responses only for idempotent methods.
+ * @param {unknown} error - The error the attempt failed with.
+ * @param {string} method - The HTTP method of the request.
+ * @returns {boolean} True if another attempt may be made.
+ */
+export const isRetryable = (error: unknown, method: string): boolean => {
+  if (error instanceof RateLimitError) {
+    return true;
+  }
+  const transient = error instanceof NetworkError || error instanceof TimeoutError || error instanceof ServerError;
+  return transient && IDEMPOTENT_METHODS.indexOf(method.toUpperCase()) !== -1;
+};
+
+/**
+ * Computes the delay before the given retry using exponential backoff.
+ * @param {number} retry - Zero-based index of the retry about to be made.
+ * @param {RetryPolicy} policy - The policy in effect.
+ * @param {() => number} random - Source of randomness in [0, 1); injectable for tests.
+ * @returns {number} The delay in milliseconds.
+ */
+export const computeBackoffDelay = (retry: number, policy: RetryPolicy, random: () => number = Math.random): number => {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, retry));
+  return policy.jitter ? Math.round(delay / 2 + random() * (delay / 2)) : delay;
+};
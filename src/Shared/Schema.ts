@@ -0,0 +1,180 @@
+/**
+ * A value that did not match its schema.
+ */
+export interface SchemaIssue {
+  /** Where the value was found, e.g. `[2].name`; empty for the root value. */
+  path: string;
+  message: string;
+}
+
+/**
+ * Result of checking a value against a schema: the typed value, or the reasons it does not match.
+ */
+export type SchemaResult<T> = { ok: true; value: T } | { ok: false; issues: SchemaIssue[] };
+
+/**
+ * Describes the expected shape of untrusted data (e.g. an API response) and checks values against it.
+ */
+export interface Schema<T> {
+  parse: (value: unknown, path?: string) => SchemaResult<T>;
+}
+
+/**
+ * Result of checking a list item by item; items that do not match are left out.
+ */
+export interface ListParseResult<T> {
+  items: T[];
+  issues: SchemaIssue[];
+}
+
+/**
+ * Describes a value's type for issue messages.
+ * @private - For internal use only, not part of the public API.
+ */
+const describe = (value: unknown): string => {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+};
+
+/**
+ * Builds a failed result with a single issue.
+ * @private - For internal use only, not part of the public API.
+ */
+const fail = <T>(path: string, message: string): SchemaResult<T> => ({ ok: false, issues: [{ path, message }] });
+
+/**
+ * Schema for a string.
+ * @param {object} options - `nonEmpty` rejects strings that are empty or only whitespace.
+ * @returns {Schema<string>} The schema.
+ */
+export const stringSchema = (options: { nonEmpty?: boolean } = {}): Schema<string> => ({
+  parse(value: unknown, path: string = ""): SchemaResult<string> {
+    if (typeof value !== "string") {
+      return fail(path, `Expected a string, got ${describe(value)}`);
+    }
+    if (options.nonEmpty && !value.trim()) {
+      return fail(path, "Expected a non-empty string");
+    }
+    return { ok: true, value };
+  }
+});
+
+/**
+ * Schema for a finite number.
+ * @returns {Schema<number>} The schema.
+ */
+export const numberSchema = (): Schema<number> => ({
+  parse(value: unknown, path: string = ""): SchemaResult<number> {
+    if (typeof value !== "number" || !isFinite(value)) {
+      return fail(path, `Expected a number, got ${describe(value)}`);
+    }
+    return { ok: true, value };
+  }
+});
+
+/**
+ * Schema for a string that must be one of the given values, e.g. the members of a string union.
+ * @param {T[]} values - The accepted values.
+ * @returns {Schema<T>} The schema.
+ */
+export const oneOfSchema = <T extends string>(values: T[]): Schema<T> => ({
+  parse(value: unknown, path: string = ""): SchemaResult<T> {
+    if (typeof value !== "string" || values.indexOf(value as T) === -1) {
+      return fail(path, `Expected one of ${values.join(", ")}, got ${typeof value === "string" ? `"${value}"` : describe(value)}`);
+    }
+    return { ok: true, value: value as T };
+  }
+});
+
+/**
+ * Makes a schema accept a missing value as well. `null` counts as missing, since many servers
+ * send it for unset properties; either way the parsed value is `undefined`.
+ * @param {Schema<T>} schema - The schema for present values.
+ * @returns {Schema<T | undefined>} The schema.
+ */
+export const optionalSchema = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  parse(value: unknown, path: string = ""): SchemaResult<T | undefined> {
+    return value === undefined || value === null ? { ok: true, value: undefined } : schema.parse(value, path);
+  }
+});
+
+/**
+ * Schema for an array whose items all match the item schema; a single mismatching item rejects the array.
+ * Use `parseList` instead to keep the matching items.
+ * @param {Schema<T>} itemSchema - The schema for each item.
+ * @returns {Schema<T[]>} The schema.
+ */
+export const arraySchema = <T>(itemSchema: Schema<T>): Schema<T[]> => ({
+  parse(value: unknown, path: string = ""): SchemaResult<T[]> {
+    if (!Array.isArray(value)) {
+      return fail(path, `Expected an array, got ${describe(value)}`);
+    }
+    const items: T[] = [];
+    let issues: SchemaIssue[] = [];
+    value.forEach((item: unknown, index: number) => {
+      const result = itemSchema.parse(item, `${path}[${index}]`);
+      if (result.ok) {
+        items.push(result.value);
+      } else {
+        issues = issues.concat(result.issues);
+      }
+    });
+    return issues.length ? { ok: false, issues } : { ok: true, value: items };
+  }
+});
+
+/**
+ * Schema for an object with the given properties. Unknown properties are dropped from the parsed value,
+ * and every mismatching property is reported, not just the first.
+ * @param {object} shape - The schema for each property.
+ * @returns {Schema<T>} The schema.
+ */
+export const objectSchema = <T>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> => ({
+  parse(value: unknown, path: string = ""): SchemaResult<T> {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return fail(path, `Expected an object, got ${describe(value)}`);
+    }
+    const source = value as Record<string, unknown>;
+    const parsed: Partial<T> = {};
+    let issues: SchemaIssue[] = [];
+
+    (Object.keys(shape) as Array<keyof T>).forEach((key: keyof T) => {
+      const result = shape[key].parse(source[key as string], path ? `${path}.${String(key)}` : String(key));
+      if (result.ok) {
+        if (result.value !== undefined) {
+          parsed[key] = result.value;
+        }
+      } else {
+        issues = issues.concat(result.issues);
+      }
+    });
+
+    return issues.length ? { ok: false, issues } : { ok: true, value: parsed as T };
+  }
+});
+
+/**
+ * Checks every item of a list, keeping the ones that match and reporting the rest,
+ * so one malformed entry does not make the whole list unusable.
+ * @param {Schema<T>} itemSchema - The schema for each item.
+ * @param {unknown} value - The value that should be a list.
+ * @returns {ListParseResult<T>} The matching items and the issues of the others.
+ */
+export const parseList = <T>(itemSchema: Schema<T>, value: unknown): ListParseResult<T> => {
+  if (!Array.isArray(value)) {
+    return { items: [], issues: [{ path: "", message: `Expected an array, got ${describe(value)}` }] };
+  }
+  const items: T[] = [];
+  let issues: SchemaIssue[] = [];
+  value.forEach((item: unknown, index: number) => {
+    const result = itemSchema.parse(item, `[${index}]`);
+    if (result.ok) {
+      items.push(result.value);
+    } else {
+      issues = issues.concat(result.issues);
+    }
+  });
+  return { items, issues };
+};
@@ -0,0 +1,123 @@
+/**
+ * Sends messages to the other tabs of the app in the same browser. A tab does not receive its own messages.
+ */
+export interface TabChannel {
+  post: (message: string) => void;
+  /** Calls `listener` with every message another tab posts; returns a function that stops it. */
+  subscribe: (listener: (message: string) => void) => () => void;
+}
+
+/**
+ * Name of the channel, and key of the storage fallback, shared by every tab of the app.
+ */
+export const TAB_CHANNEL_NAME = "reaktivate-books:tabs";
+
+/**
+ * Creates a channel on top of `BroadcastChannel`.
+ * @param {string} name - The channel name; tabs using the same name talk to each other.
+ * @returns {TabChannel} The channel.
+ */
+export const createBroadcastTabChannel = (name: string): TabChannel => {
+  const channel = new BroadcastChannel(name);
+  return {
+    post(message: string) {
+      channel.postMessage(message);
+    },
+    subscribe(listener: (message: string) => void) {
+      const handleMessage = (event: MessageEvent) => {
+        if (typeof event.data === "string") {
+          listener(event.data);
+        }
+      };
+      channel.addEventListener("message", handleMessage);
+      return () => channel.removeEventListener("message", handleMessage);
+    }
+  };
+};
+
+/**
+ * Creates a channel on top of `localStorage` for browsers without `BroadcastChannel`: a message is
+ * written to `name` and removed right away, and the other tabs receive it through the `storage` event.
+ * Each write carries a unique stamp, so posting the same message twice still notifies them.
+ * @param {string} name - The storage key used to pass messages.
+ * @param {Window} target - The window whose storage and events are used.
+ * @returns {TabChannel} The channel.
+ */
+export const createStorageTabChannel = (name: string, target: Window = window): TabChannel => {
+  let sent = 0;
+  return {
+    post(message: string) {
+      sent += 1;
+      try {
+        target.localStorage.setItem(name, JSON.stringify({ message, stamp: `${Date.now()}-${sent}-${Math.random()}` }));
+        target.localStorage.removeItem(name);
+      } catch (e) {
+        console.error("Failed to notify the other tabs:", e);
+      }
+    },
+    subscribe(listener: (message: string) => void) {
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key !== name || !event.newValue) {
+          return;
+        }
+        try {
+          const { message } = JSON.parse(event.newValue);
+          if (typeof message === "string") {
+            listener(message);
+          }
+        } catch (e) {
+          console.error("Ignored an unreadable message from another tab:", e);
+        }
+      };
+      target.addEventListener("storage", handleStorage);
+      return () => target.removeEventListener("storage", handleStorage);
+    }
+  };
+};
+
+/**
+ * Returns the best channel the browser supports: `BroadcastChannel`, else the `localStorage` fallback.
+ * @param {string} name - The channel name.
+ * @returns {TabChannel | null} The channel, or null outside the browser or when neither is available.
+ */
+export const getBrowserTabChannel = (name: string = TAB_CHANNEL_NAME): TabChannel | null => {
+  if (typeof BroadcastChannel !== "undefined") {
+    return createBroadcastTabChannel(name);
+  }
+  try {
+    if (typeof window !== "undefined" && window.localStorage) {
+      return createStorageTabChannel(name, window);
+    }
+  } catch (e) {
+    console.debug("localStorage is not available, tabs are not kept in sync:", e);
+  }
+  return null;
+};
+
+/**
+ * Creates an in-memory hub standing in for the browser in tests: every channel it hands out is one
+ * tab, and messages are delivered synchronously to every other channel of the hub.
+ * @returns {{ connect: () => TabChannel }} The hub.
+ */
+export const createMemoryTabHub = (): { connect: () => TabChannel } => {
+  let members: { listeners: ((message: string) => void)[] }[] = [];
+  return {
+    connect(): TabChannel {
+      const member = { listeners: [] as ((message: string) => void)[] };
+      members = members.concat(member);
+      return {
+        post(message: string) {
+          members
+            .filter((other) => other !== member)
+            .forEach((other) => other.listeners.slice().forEach((listener) => listener(message)));
+        },
+        subscribe(listener: (message: string) => void) {
+          member.listeners = member.listeners.concat(listener);
+          return () => {
+            member.listeners = member.listeners.filter((existing) => existing !== listener);
+          };
+        }
+      };
+    }
+  };
+};
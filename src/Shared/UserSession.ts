@@ -0,0 +1,30 @@
+import { makeAutoObservable } from "mobx";
+
+/**
+ * Interface defining the structure of the user session: whose books the app is working with.
+ */
+export interface UserSession {
+  readonly userId: string;
+  setUserId: (userId: string) => void;
+}
+
+/**
+ * Creates an observable session for the given user. Repositories read the user id on every
+ * request, so switching users only requires updating the session.
+ * @param {string} userId - The initial user id.
+ * @returns {UserSession} An observable session.
+ */
+export const createUserSession = (userId: string): UserSession => {
+  const session = makeAutoObservable({
+    userId,
+
+    /**
+     * Switches the session to another user.
+     * @param {string} nextUserId - The new user id.
+     */
+    setUserId(nextUserId: string) {
+      session.userId = nextUserId;
+    }
+  });
+  return session;
+};
@@ -0,0 +1,123 @@
+import React, { useCallback, useEffect, useRef, useState, UIEvent } from "react";
+import { observer } from "mobx-react";
+
+/**
+ * Rows of a virtual list that have to be rendered; `end` is exclusive.
+ */
+export interface VisibleRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Props of the virtual list.
+ */
+export interface VirtualListProps<T> {
+  items: T[];
+  /** Height of every row, in pixels; rows are clipped to it. */
+  rowHeight: number;
+  /** Maximum height of the scrolling viewport, in pixels; shorter lists shrink to fit. */
+  height: number;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  getKey: (item: T, index: number) => React.Key;
+  /** Rows rendered above and below the viewport, so fast scrolling does not show gaps. Defaults to 5. */
+  overscan?: number;
+  /** Called when the user scrolls near the end, or when the list does not fill the viewport. */
+  onEndReached?: () => void;
+  /** Distance from the end, in pixels, at which `onEndReached` is called. Defaults to two rows. */
+  endThreshold?: number;
+  /** Rendered after the last row, e.g. a loading indicator. */
+  footer?: React.ReactNode;
+}
+
+/**
+ * Computes which rows of a list intersect the viewport, plus `overscan` rows on either side.
+ * @param {number} scrollTop - How far the viewport is scrolled, in pixels.
+ * @param {number} viewportHeight - Height of the viewport, in pixels.
+ * @param {number} rowHeight - Height of every row, in pixels.
+ * @param {number} itemCount - Number of rows in the list.
+ * @param {number} overscan - Extra rows to render outside the viewport.
+ * @returns {VisibleRange} The rows to render.
+ */
+export const computeVisibleRange = (
+  scrollTop: number,
+  viewportHeight: number,
+  rowHeight: number,
+  itemCount: number,
+  overscan: number
+): VisibleRange => {
+  const firstVisible = Math.floor(Math.max(0, scrollTop) / rowHeight);
+  const lastVisible = Math.ceil((Math.max(0, scrollTop) + viewportHeight) / rowHeight);
+  return {
+    start: Math.min(itemCount, Math.max(0, firstVisible - overscan)),
+    end: Math.min(itemCount, lastVisible + overscan)
+  };
+};
+
+/**
+ * Scrollable list that only renders the rows in view, so long lists stay fast to render and update.
+ * Rows have a fixed height and are positioned absolutely inside a spacer as tall as the whole list.
+ * Observes MobX state read by `renderItem`, so rows update like the rest of the view.
+ * @component
+ */
+function VirtualList<T>(props: VirtualListProps<T>): React.ReactElement {
+  const { items, rowHeight, height, renderItem, getKey, onEndReached, footer } = props;
+  const overscan = props.overscan === undefined ? 5 : props.overscan;
+  const endThreshold = props.endThreshold === undefined ? rowHeight * 2 : props.endThreshold;
+  /** Current scroll position of the viewport */
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  /** The latest `onEndReached`; callers often pass a new function on every render */
+  const onEndReachedRef = useRef(onEndReached);
+  onEndReachedRef.current = onEndReached;
+
+  /**
+   * Calls `onEndReached` if the end of the list is within the threshold of the viewport's bottom.
+   */
+  const checkEndReached = useCallback(
+    (viewport: HTMLDivElement): void => {
+      const callback = onEndReachedRef.current;
+      if (callback && viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight <= endThreshold) {
+        callback();
+      }
+    },
+    [endThreshold]
+  );
+
+  /**
+   * Tracks the scroll position and asks for more rows near the end.
+   */
+  const handleScroll = (e: UIEvent<HTMLDivElement>): void => {
+    setScrollTop(e.currentTarget.scrollTop);
+    checkEndReached(e.currentTarget);
+  };
+
+  // A list that is too short to scroll can never fire a scroll event, so check again whenever it changes
+  useEffect(() => {
+    if (viewportRef.current) {
+      checkEndReached(viewportRef.current);
+    }
+  }, [checkEndReached, items.length]);
+
+  const range = computeVisibleRange(scrollTop, height, rowHeight, items.length, overscan);
+  const rows: React.ReactNode[] = [];
+  for (let index = range.start; index < range.end; index++) {
+    rows.push(
+      <div
+        key={getKey(items[index], index)}
+        style={{ position: "absolute", top: index * rowHeight, left: 0, right: 0, height: rowHeight, overflow: "hidden" }}
+      >
+        {renderItem(items[index], index)}
+      </div>
+    );
+  }
+
+  return (
+    <div ref={viewportRef} onScroll={handleScroll} style={{ maxHeight: height, overflowY: "auto" }}>
+      <div style={{ position: "relative", height: items.length * rowHeight }}>{rows}</div>
+      {footer}
+    </div>
+  );
+}
+
+export default observer(VirtualList) as typeof VirtualList;
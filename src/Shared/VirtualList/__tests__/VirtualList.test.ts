@@ -0,0 +1,67 @@
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import VirtualList, { computeVisibleRange, VirtualListProps } from '../VirtualList';
+
+describe('computeVisibleRange', () => {
+  it('should cover the rows in the viewport plus the overscan', () => {
+    // 100px viewport of 20px rows scrolled to row 10
+    expect(computeVisibleRange(200, 100, 20, 1000, 3)).toEqual({ start: 7, end: 18 });
+  });
+
+  it('should stay within the list at both ends', () => {
+    expect(computeVisibleRange(0, 100, 20, 1000, 3)).toEqual({ start: 0, end: 8 });
+    expect(computeVisibleRange(19900, 100, 20, 1000, 3)).toEqual({ start: 992, end: 1000 });
+    expect(computeVisibleRange(0, 100, 20, 2, 3)).toEqual({ start: 0, end: 2 });
+  });
+
+  it('should treat elastic overscroll above the top as the top', () => {
+    expect(computeVisibleRange(-50, 100, 20, 1000, 0)).toEqual({ start: 0, end: 5 });
+  });
+});
+
+describe('VirtualList', () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeAll(() => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+  });
+
+  const render = (items: string[], onEndReached: () => void) => {
+    const props: VirtualListProps<string> = {
+      items,
+      rowHeight: 20,
+      height: 100,
+      renderItem: (item: string) => item,
+      getKey: (item: string) => item,
+      onEndReached,
+    };
+    act(() => {
+      root.render(React.createElement<VirtualListProps<string>>(VirtualList, props));
+    });
+  };
+
+  it('should ask for more rows when the list does not fill the viewport, calling the latest callback', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+
+    render(['a'], first);
+    expect(first).toHaveBeenCalledTimes(1);
+
+    render(['a'], second);
+    expect(second).not.toHaveBeenCalled();
+
+    render(['a', 'b'], second);
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,89 @@
+import { createApiGateway, GatewayAuth } from '../ApiGateway';
+import { AuthError, RequestCancelledError, TimeoutError } from '../ApiError';
+import { HttpRequest, HttpResponse } from '../HttpClient';
+import { mockConsole } from '../testing';
+
+mockConsole();
+
+const respond = (status: number, body: unknown = {}): HttpResponse => ({
+  status,
+  statusText: '',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+const createMockAuth = (token: string | null = 'old'): GatewayAuth => ({
+  getAccessToken: jest.fn().mockResolvedValue(token),
+  refreshAccessToken: jest.fn().mockResolvedValue('new'),
+  endSession: jest.fn(),
+});
+
+describe('ApiGateway', () => {
+  it('should send the bearer token with every request', async () => {
+    const transport = jest.fn().mockResolvedValue(respond(200, []));
+    const client = createApiGateway({ baseUrl: 'https://books.test', transport }, createMockAuth());
+
+    await client.get('/alice/');
+
+    const request: HttpRequest = transport.mock.calls[0][0];
+    expect(request.headers.Authorization).toBe('Bearer old');
+  });
+
+  it('should send a rejected request once more with a refreshed token', async () => {
+    const transport = jest.fn()
+      .mockResolvedValueOnce(respond(401, { message: 'Token expired' }))
+      .mockResolvedValueOnce(respond(200, [{ id: 1 }]));
+    const auth = createMockAuth();
+    const client = createApiGateway({ baseUrl: 'https://books.test', transport }, auth);
+
+    await expect(client.get('/alice/')).resolves.toEqual([{ id: 1 }]);
+
+    expect(auth.refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(transport.mock.calls[1][0].headers.Authorization).toBe('Bearer new');
+    expect(auth.endSession).not.toHaveBeenCalled();
+  });
+
+  it('should give the request sent with a refreshed token the timeout and cancellation of the call', async () => {
+    const hang = () => new Promise<HttpResponse>(() => undefined);
+    const transport = jest.fn()
+      .mockResolvedValueOnce(respond(401))
+      .mockImplementationOnce(hang)
+      .mockResolvedValueOnce(respond(401))
+      .mockImplementationOnce(hang);
+    const client = createApiGateway({ baseUrl: 'https://books.test', transport, retry: { retries: 0 } }, createMockAuth());
+
+    await expect(client.get('/alice/', { timeoutMs: 20 })).rejects.toBeInstanceOf(TimeoutError);
+
+    const controller = new AbortController();
+    const cancelled = client.get('/alice/', { signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    controller.abort();
+
+    await expect(cancelled).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(transport).toHaveBeenCalledTimes(4);
+  });
+
+  it('should end the session when the API keeps rejecting the token or denies access', async () => {
+    const transport = jest.fn().mockResolvedValue(respond(401));
+    const auth = createMockAuth();
+    const client = createApiGateway({ baseUrl: 'https://books.test', transport }, auth);
+
+    await expect(client.get('/alice/')).rejects.toBeInstanceOf(AuthError);
+    expect(auth.endSession).toHaveBeenCalledWith(401);
+
+    transport.mockResolvedValue(respond(403));
+    await expect(client.get('/bob/')).rejects.toBeInstanceOf(AuthError);
+    expect(auth.endSession).toHaveBeenCalledWith(403);
+  });
+
+  it('should leave requests without a token alone', async () => {
+    const transport = jest.fn().mockResolvedValue(respond(401));
+    const auth = createMockAuth(null);
+    const client = createApiGateway({ baseUrl: 'https://books.test', transport }, auth);
+
+    await expect(client.get('/alice/')).rejects.toBeInstanceOf(AuthError);
+
+    expect(transport.mock.calls[0][0].headers.Authorization).toBeUndefined();
+    expect(auth.refreshAccessToken).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,415 @@
+import { createHttpClient, HttpClient, HttpRequest, HttpResponse, HttpTransport, ResendRequest } from '../HttpClient';
+import {
+  ApiError,
+  AuthError,
+  MalformedResponseError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  RequestCancelledError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from '../ApiError';
+
+// Lets pending promise callbacks run while timers are faked
+const flushPromises = async (): Promise<void> => {
+  for (let i = 0; i < 10; i += 1) {
+    await Promise.resolve();
+  }
+};
+
+// Advances fake timers, flushing promise callbacks before and after
+const advanceTimers = async (ms: number): Promise<void> => {
+  await flushPromises();
+  jest.advanceTimersByTime(ms);
+  await flushPromises();
+};
+
+const BASE_URL = 'https://api.test';
+
+// Builds a raw transport response
+const rawResponse = (body: string, status = 200, statusText = 'OK'): HttpResponse => ({
+  status,
+  statusText,
+  headers: {},
+  body,
+});
+
+describe('HttpClient', () => {
+  let transport: jest.Mock<Promise<HttpResponse>, [HttpRequest]>;
+  let client: HttpClient;
+
+  beforeEach(() => {
+    transport = jest.fn().mockResolvedValue(rawResponse('{"status":"ok"}'));
+    client = createHttpClient({
+      baseUrl: BASE_URL,
+      headers: { Accept: 'application/json' },
+      transport: transport as HttpTransport,
+      retry: { retries: 0 },
+    });
+  });
+
+  describe('requests', () => {
+    it('should prefix the base URL and send default headers', async () => {
+      await client.get('/books');
+
+      expect(transport).toHaveBeenCalledWith({
+        method: 'GET',
+        url: `${BASE_URL}/books`,
+        headers: { Accept: 'application/json' },
+      });
+    });
+
+    it('should append encoded query parameters to the URL', async () => {
+      await client.get('/books', { params: { page: 2, limit: 50, q: 'a&b' } });
+
+      expect(transport.mock.calls[0][0].url).toBe(`${BASE_URL}/books?page=2&limit=50&q=a%26b`);
+    });
+
+    it('should JSON-encode payloads and set the content type', async () => {
+      await client.put('/books/1', { name: 'Dune' });
+
+      const request = transport.mock.calls[0][0];
+      expect(request.method).toBe('PUT');
+      expect(request.headers['Content-Type']).toBe('application/json');
+      expect(request.body).toBe('{"name":"Dune"}');
+    });
+
+    it('should parse JSON bodies and return null for empty ones', async () => {
+      expect(await client.get('/')).toEqual({ status: 'ok' });
+
+      transport.mockResolvedValueOnce(rawResponse(''));
+      expect(await client.get('/')).toBeNull();
+    });
+  });
+
+  describe('errors', () => {
+    // Resolves with whatever the request rejected with
+    const captureError = (promise: Promise<unknown>): Promise<ApiError> =>
+      promise.then(
+        () => {
+          throw new Error('Expected the request to fail');
+        },
+        (error: ApiError) => error
+      );
+
+    it('should use the JSON error message and attach request details', async () => {
+      transport.mockResolvedValueOnce(rawResponse('{"message":"Book not found"}', 404, 'Not Found'));
+
+      const error = await captureError(client.get('/books/9'));
+
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error.message).toBe('Book not found');
+      expect(error.status).toBe(404);
+      expect(error.method).toBe('GET');
+      expect(error.url).toBe(`${BASE_URL}/books/9`);
+      expect(error.body).toEqual({ message: 'Book not found' });
+    });
+
+    it('should fall back to the status text for non-JSON errors', async () => {
+      transport.mockResolvedValueOnce(rawResponse('<html>oops</html>', 500, 'Internal Server Error'));
+
+      const error = await captureError(client.get('/'));
+
+      expect(error).toBeInstanceOf(ServerError);
+      expect(error.message).toBe('HTTP error 500: Internal Server Error');
+      expect(error.body).toBe('<html>oops</html>');
+    });
+
+    it('should collect field details from validation errors', async () => {
+      transport.mockResolvedValueOnce(
+        rawResponse('{"message":"Invalid book","errors":[{"field":"name","message":"Too long"}]}', 422)
+      );
+      const arrayError = await captureError(client.post('/', {}));
+
+      transport.mockResolvedValueOnce(rawResponse('{"errors":{"author":["Required"]}}', 400));
+      const mapError = await captureError(client.post('/', {}));
+
+      expect(arrayError).toBeInstanceOf(ValidationError);
+      expect((arrayError as ValidationError).fieldErrors).toEqual({ name: 'Too long' });
+      expect((mapError as ValidationError).fieldErrors).toEqual({ author: 'Required' });
+      expect(mapError.message).toBe('HTTP error 400');
+    });
+
+    it('should map 429 to RateLimitError with the Retry-After delay', async () => {
+      transport.mockResolvedValueOnce({ ...rawResponse('', 429, 'Too Many Requests'), headers: { 'Retry-After': '3' } });
+
+      const error = await captureError(client.get('/'));
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect((error as RateLimitError).retryAfterMs).toBe(3000);
+    });
+
+    it('should map 401 and 403 to AuthError', async () => {
+      transport.mockResolvedValueOnce(rawResponse('', 401, 'Unauthorized'));
+      transport.mockResolvedValueOnce(rawResponse('', 403, 'Forbidden'));
+
+      expect(await captureError(client.get('/'))).toBeInstanceOf(AuthError);
+      expect(await captureError(client.get('/'))).toBeInstanceOf(AuthError);
+    });
+
+    it('should use the base ApiError for other client errors', async () => {
+      transport.mockResolvedValueOnce(rawResponse('', 409, 'Conflict'));
+
+      const error = await captureError(client.get('/'));
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error).not.toBeInstanceOf(ValidationError);
+      expect(error.status).toBe(409);
+    });
+
+    it('should reject successful responses whose body is not JSON', async () => {
+      transport.mockResolvedValueOnce(rawResponse('not json'));
+
+      const error = await captureError(client.get('/'));
+
+      expect(error).toBeInstanceOf(MalformedResponseError);
+      expect(error.status).toBe(200);
+    });
+
+    it('should wrap transport failures in NetworkError', async () => {
+      const cause = new TypeError('Failed to fetch');
+      transport.mockRejectedValueOnce(cause);
+
+      const error = await captureError(client.get('/'));
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.message).toBe('Failed to fetch');
+      expect(error.status).toBeNull();
+      expect((error as NetworkError).cause).toBe(cause);
+    });
+  });
+
+  describe('interceptors', () => {
+    it('should run request interceptors in order before the transport', async () => {
+      client.addRequestInterceptor((request: HttpRequest) => ({
+        ...request,
+        headers: { ...request.headers, Authorization: 'Bearer token' },
+      }));
+      client.addRequestInterceptor(async (request: HttpRequest) => ({
+        ...request,
+        url: `${request.url}?traced=1`,
+      }));
+
+      await client.get('/books');
+
+      const request = transport.mock.calls[0][0];
+      expect(request.headers.Authorization).toBe('Bearer token');
+      expect(request.url).toBe(`${BASE_URL}/books?traced=1`);
+    });
+
+    it('should let response interceptors rewrite the response before parsing', async () => {
+      const seen: string[] = [];
+      client.addResponseInterceptor((response: HttpResponse, request: HttpRequest) => {
+        seen.push(`${request.method} ${response.status}`);
+        return { ...response, body: '{"status":"rewritten"}' };
+      });
+
+      expect(await client.get('/')).toEqual({ status: 'rewritten' });
+      expect(seen).toEqual(['GET 200']);
+    });
+
+    it('should stop running an interceptor once it is removed', async () => {
+      const interceptor = jest.fn((request: HttpRequest) => request);
+      const remove = client.addRequestInterceptor(interceptor);
+
+      await client.get('/');
+      remove();
+      await client.get('/');
+
+      expect(interceptor).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('timeouts', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should abort and reject with TimeoutError when the attempt takes too long', async () => {
+      let signal: AbortSignal | undefined;
+      transport.mockImplementationOnce((request: HttpRequest) => {
+        signal = request.signal;
+        return new Promise<HttpResponse>(() => undefined);
+      });
+
+      const result = client.get('/', { timeoutMs: 1000 });
+      const rejection = expect(result).rejects.toBeInstanceOf(TimeoutError);
+      await advanceTimers(1000);
+
+      await rejection;
+      expect(signal && signal.aborted).toBe(true);
+    });
+
+    it('should give a request resent by a response interceptor the same time limit', async () => {
+      transport
+        .mockResolvedValueOnce(rawResponse('', 401, 'Unauthorized'))
+        .mockImplementationOnce(() => new Promise<HttpResponse>(() => undefined));
+      client.addResponseInterceptor((response: HttpResponse, request: HttpRequest, resend: ResendRequest) =>
+        response.status === 401 ? resend(request) : response
+      );
+
+      const result = client.get('/', { timeoutMs: 1000 });
+      const rejection = expect(result).rejects.toBeInstanceOf(TimeoutError);
+      await advanceTimers(1000);
+
+      await rejection;
+      expect(transport).toHaveBeenCalledTimes(2);
+    });
+
+    it('should resolve normally when the response arrives in time', async () => {
+      const result = client.get('/', { timeoutMs: 1000 });
+      await advanceTimers(0);
+
+      expect(await result).toEqual({ status: 'ok' });
+    });
+  });
+
+  describe('retries', () => {
+    const noJitter = { retries: 3, baseDelayMs: 100, maxDelayMs: 1000, jitter: false };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should retry idempotent requests with exponential backoff', async () => {
+      transport
+        .mockResolvedValueOnce(rawResponse('', 503, 'Service Unavailable'))
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(rawResponse('{"status":"ok"}'));
+
+      const result = client.get('/', { retry: noJitter });
+
+      await flushPromises();
+      expect(transport).toHaveBeenCalledTimes(1);
+      await advanceTimers(99);
+      expect(transport).toHaveBeenCalledTimes(1);
+      await advanceTimers(1);
+      expect(transport).toHaveBeenCalledTimes(2);
+      await advanceTimers(200);
+      expect(transport).toHaveBeenCalledTimes(3);
+
+      expect(await result).toEqual({ status: 'ok' });
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      transport.mockResolvedValue(rawResponse('', 500, 'Internal Server Error'));
+
+      const result = client.get('/', { retry: { ...noJitter, retries: 2 } });
+      const rejection = expect(result).rejects.toBeInstanceOf(ServerError);
+      await advanceTimers(100);
+      await advanceTimers(200);
+
+      await rejection;
+      expect(transport).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry non-idempotent requests after a server error', async () => {
+      transport.mockResolvedValueOnce(rawResponse('', 500, 'Internal Server Error'));
+
+      await expect(client.post('/', {}, { retry: noJitter })).rejects.toBeInstanceOf(ServerError);
+      expect(transport).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry client errors', async () => {
+      transport.mockResolvedValueOnce(rawResponse('', 404, 'Not Found'));
+
+      await expect(client.get('/', { retry: noJitter })).rejects.toBeInstanceOf(NotFoundError);
+      expect(transport).toHaveBeenCalledTimes(1);
+    });
+
+    it('should honor Retry-After on 429, even for POST', async () => {
+      transport
+        .mockResolvedValueOnce({ ...rawResponse('', 429, 'Too Many Requests'), headers: { 'retry-after': '2' } })
+        .mockResolvedValueOnce(rawResponse('{"status":"ok"}'));
+
+      const result = client.post('/', {}, { retry: { ...noJitter, maxDelayMs: 5000 } });
+
+      await advanceTimers(1999);
+      expect(transport).toHaveBeenCalledTimes(1);
+      await advanceTimers(1);
+      expect(transport).toHaveBeenCalledTimes(2);
+      expect(await result).toEqual({ status: 'ok' });
+    });
+
+    it('should fail a 429 right away when Retry-After is longer than the maximum delay', async () => {
+      transport.mockResolvedValue({ ...rawResponse('', 429, 'Too Many Requests'), headers: { 'Retry-After': '3600' } });
+
+      const result = client.get('/', { retry: noJitter });
+      const settled = jest.fn();
+      result.catch(settled);
+
+      await advanceTimers(0);
+      expect(settled).toHaveBeenCalledWith(expect.any(RateLimitError));
+      expect(transport).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry attempts that time out', async () => {
+      transport
+        .mockImplementationOnce(() => new Promise<HttpResponse>(() => undefined))
+        .mockResolvedValueOnce(rawResponse('{"status":"ok"}'));
+
+      const result = client.get('/', { timeoutMs: 500, retry: noJitter });
+
+      await advanceTimers(500);
+      await advanceTimers(100);
+
+      expect(await result).toEqual({ status: 'ok' });
+      expect(transport).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should reject with RequestCancelledError and abort the transport signal', async () => {
+      let transportSignal: AbortSignal | undefined;
+      transport.mockImplementationOnce((request: HttpRequest) => {
+        transportSignal = request.signal;
+        return new Promise<HttpResponse>(() => undefined);
+      });
+      const controller = new AbortController();
+
+      const result = client.get('/', { signal: controller.signal });
+      await flushPromises();
+      controller.abort();
+
+      await expect(result).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(transportSignal && transportSignal.aborted).toBe(true);
+    });
+
+    it('should not send a request whose signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.get('/', { signal: controller.signal })).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(transport).not.toHaveBeenCalled();
+    });
+
+    it('should stop waiting for a retry once cancelled', async () => {
+      jest.useFakeTimers();
+      transport.mockResolvedValue(rawResponse('', 503, 'Service Unavailable'));
+      const controller = new AbortController();
+
+      const result = client.get('/', {
+        signal: controller.signal,
+        retry: { retries: 3, baseDelayMs: 10000, jitter: false },
+      });
+      const rejection = expect(result).rejects.toBeInstanceOf(RequestCancelledError);
+      await flushPromises();
+      controller.abort();
+      await flushPromises();
+
+      await rejection;
+      expect(transport).toHaveBeenCalledTimes(1);
+      jest.useRealTimers();
+    });
+  });
+});
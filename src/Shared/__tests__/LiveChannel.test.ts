@@ -0,0 +1,71 @@
+import { createLiveChannel, LiveConnectionHandlers } from '../LiveChannel';
+
+describe('LiveChannel', () => {
+  let handlers: LiveConnectionHandlers[];
+  let connect: jest.Mock;
+
+  const flushPromises = () => new Promise((resolve) => jest.requireActual('timers').setImmediate(resolve));
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    handlers = [];
+    connect = jest.fn((url: string, connectionHandlers: LiveConnectionHandlers) => {
+      handlers.push(connectionHandlers);
+      return { close: jest.fn() };
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should reconnect with growing delays and resync once connected again', async () => {
+    const onMessage = jest.fn();
+    const onReconnect = jest.fn();
+    const channel = createLiveChannel({
+      connect,
+      url: () => 'https://books.test/alice/events',
+      onMessage,
+      onReconnect,
+      retry: { baseDelayMs: 1000, jitter: false },
+    });
+
+    channel.start();
+    await flushPromises();
+    handlers[0].onOpen();
+    handlers[0].onMessage('{"type":"deleted","id":1}');
+    expect(onMessage).toHaveBeenCalledWith('{"type":"deleted","id":1}');
+    expect(onReconnect).not.toHaveBeenCalled();
+
+    handlers[0].onError();
+    jest.advanceTimersByTime(1000);
+    await flushPromises();
+    handlers[1].onError();
+    jest.advanceTimersByTime(1999);
+    await flushPromises();
+    expect(connect).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(1);
+    await flushPromises();
+    handlers[2].onOpen();
+
+    expect(connect).toHaveBeenCalledTimes(3);
+    expect(onReconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop reconnecting and ignore the old connection once stopped', async () => {
+    const onMessage = jest.fn();
+    const channel = createLiveChannel({ connect, url: () => 'https://books.test/alice/events', onMessage, onReconnect: jest.fn() });
+
+    channel.start();
+    await flushPromises();
+    handlers[0].onError();
+    channel.stop();
+    jest.advanceTimersByTime(60000);
+    await flushPromises();
+    handlers[0].onMessage('{}');
+
+    expect(connect).toHaveBeenCalledTimes(1);
+    expect(onMessage).not.toHaveBeenCalled();
+  });
+});
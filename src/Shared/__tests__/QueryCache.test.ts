@@ -0,0 +1,126 @@
+import { createQueryCache, QueryCache } from '../QueryCache';
+import { RequestCancelledError } from '../ApiError';
+
+describe('QueryCache', () => {
+  let currentTime: number;
+  let cache: QueryCache;
+
+  beforeEach(() => {
+    currentTime = 1000;
+    cache = createQueryCache({ ttlMs: 500, now: () => currentTime });
+  });
+
+  describe('freshness', () => {
+    it('should keep entries fresh until the TTL has passed', async () => {
+      await cache.fetch('/', () => Promise.resolve(['a']));
+
+      expect(cache.peek('/')).toEqual({ data: ['a'], updatedAt: 1000, invalidated: false });
+      expect(cache.isFresh('/')).toBe(true);
+
+      currentTime += 500;
+      expect(cache.isFresh('/')).toBe(false);
+      // Stale data is still available for stale-while-revalidate
+      expect(cache.peek('/')).toBeDefined();
+    });
+
+    it('should report unknown keys as not fresh', () => {
+      expect(cache.isFresh('/missing')).toBe(false);
+      expect(cache.peek('/missing')).toBeUndefined();
+    });
+  });
+
+  describe('invalidate', () => {
+    it('should mark entries stale but keep their data', async () => {
+      await cache.fetch('/', () => Promise.resolve(['a']));
+      await cache.fetch('/private', () => Promise.resolve(['b']));
+
+      cache.invalidate('/');
+      expect(cache.isFresh('/')).toBe(false);
+      expect(cache.isFresh('/private')).toBe(true);
+
+      cache.invalidate();
+      expect(cache.isFresh('/private')).toBe(false);
+      expect(cache.peek('/private')).toMatchObject({ data: ['b'] });
+    });
+
+    it('should not cache a response to a request started before invalidation as fresh', async () => {
+      let resolveFetch: (value: string[]) => void = () => undefined;
+      const pending = cache.fetch('/', () => new Promise<string[]>(resolve => {
+        resolveFetch = resolve;
+      }));
+
+      cache.invalidate('/');
+      resolveFetch(['old']);
+      await pending;
+
+      expect(cache.isFresh('/')).toBe(false);
+    });
+
+    it('should not cache a response to a request started before clear', async () => {
+      let resolveFetch: (value: string[]) => void = () => undefined;
+      const pending = cache.fetch('/', () => new Promise<string[]>(resolve => {
+        resolveFetch = resolve;
+      }));
+
+      cache.clear();
+      resolveFetch(['previous user']);
+
+      await expect(pending).resolves.toEqual(['previous user']);
+      expect(cache.peek('/')).toBeUndefined();
+    });
+  });
+
+  describe('deduplication', () => {
+    it('should share one request between concurrent callers', async () => {
+      const fetcher = jest.fn().mockResolvedValue(['a']);
+
+      const [first, second] = await Promise.all([cache.fetch('/', fetcher), cache.fetch('/', fetcher)]);
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(first).toEqual(['a']);
+      expect(second).toEqual(['a']);
+    });
+
+    it('should start a new request once the previous one has settled', async () => {
+      const fetcher = jest.fn().mockResolvedValue(['a']);
+
+      await cache.fetch('/', fetcher);
+      await cache.fetch('/', fetcher);
+
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only abort the shared request when every caller has cancelled', async () => {
+      let sharedSignal: AbortSignal | undefined;
+      const fetcher = jest.fn((signal?: AbortSignal) => {
+        sharedSignal = signal;
+        return new Promise<string[]>(() => undefined);
+      });
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const firstResult = cache.fetch('/', fetcher, first.signal);
+      const secondResult = cache.fetch('/', fetcher, second.signal);
+
+      first.abort();
+      await expect(firstResult).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(sharedSignal && sharedSignal.aborted).toBe(false);
+
+      second.abort();
+      await expect(secondResult).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(sharedSignal && sharedSignal.aborted).toBe(true);
+    });
+
+    it('should propagate failures to every caller without caching them', async () => {
+      const fetcher = jest.fn().mockRejectedValue(new Error('Network Error'));
+
+      const results = await Promise.all([
+        cache.fetch('/', fetcher).catch((err: Error) => err.message),
+        cache.fetch('/', fetcher).catch((err: Error) => err.message),
+      ]);
+
+      expect(results).toEqual(['Network Error', 'Network Error']);
+      expect(cache.peek('/')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { computeBackoffDelay, DEFAULT_RETRY_POLICY, isRetryable } from '../RetryPolicy';
+import { ApiError, NetworkError, RateLimitError, ServerError, TimeoutError, parseRetryAfter } from '../ApiError';
+
+const details = { status: null, url: 'https://api.test/', method: 'GET' };
+
+describe('RetryPolicy', () => {
+  describe('isRetryable', () => {
+    it('should retry transient failures of idempotent requests only', () => {
+      expect(isRetryable(new NetworkError(details), 'GET')).toBe(true);
+      expect(isRetryable(new TimeoutError(details, 1000), 'DELETE')).toBe(true);
+      expect(isRetryable(new ServerError('HTTP error 502', { ...details, status: 502 }), 'PUT')).toBe(true);
+
+      expect(isRetryable(new NetworkError(details), 'POST')).toBe(false);
+      expect(isRetryable(new ServerError('HTTP error 502', { ...details, status: 502 }), 'PATCH')).toBe(false);
+    });
+
+    it('should always retry rate-limited requests', () => {
+      expect(isRetryable(new RateLimitError('HTTP error 429', { ...details, status: 429 }, null), 'POST')).toBe(true);
+    });
+
+    it('should not retry other errors', () => {
+      expect(isRetryable(new ApiError('HTTP error 409', { ...details, status: 409 }), 'GET')).toBe(false);
+      expect(isRetryable(new Error('boom'), 'GET')).toBe(false);
+    });
+  });
+
+  describe('computeBackoffDelay', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 1000, jitter: false };
+
+    it('should double the delay on every retry up to the maximum', () => {
+      expect([0, 1, 2, 3, 4].map((retry: number) => computeBackoffDelay(retry, policy))).toEqual([100, 200, 400, 800, 1000]);
+    });
+
+    it('should keep jittered delays between half and the full backoff', () => {
+      const jittered = { ...policy, jitter: true };
+
+      expect(computeBackoffDelay(2, jittered, () => 0)).toBe(200);
+      expect(computeBackoffDelay(2, jittered, () => 0.5)).toBe(300);
+      expect(computeBackoffDelay(2, jittered, () => 0.999)).toBeLessThanOrEqual(400);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+
+      expect(parseRetryAfter('5', now)).toBe(5000);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10000);
+      expect(parseRetryAfter('soon', now)).toBeNull();
+      expect(parseRetryAfter(undefined, now)).toBeNull();
+    });
+  });
+});
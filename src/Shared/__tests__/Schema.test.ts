@@ -0,0 +1,72 @@
+import { arraySchema, numberSchema, objectSchema, oneOfSchema, optionalSchema, parseList, stringSchema } from '../Schema';
+
+interface Item {
+  id: number;
+  label: string;
+  note?: string;
+}
+
+const itemSchema = objectSchema<Item>({
+  id: numberSchema(),
+  label: stringSchema({ nonEmpty: true }),
+  note: optionalSchema(stringSchema()),
+});
+
+describe('Schema', () => {
+  it('should accept matching objects and drop unknown properties', () => {
+    expect(itemSchema.parse({ id: 1, label: 'One', extra: true })).toEqual({ ok: true, value: { id: 1, label: 'One' } });
+    expect(itemSchema.parse({ id: 1, label: 'One', note: 'n' })).toEqual({ ok: true, value: { id: 1, label: 'One', note: 'n' } });
+    // null counts as a missing optional property
+    expect(itemSchema.parse({ id: 1, label: 'One', note: null })).toEqual({ ok: true, value: { id: 1, label: 'One' } });
+  });
+
+  it('should report every mismatching property with its path', () => {
+    expect(itemSchema.parse({ id: '1', label: ' ', note: 5 }, '[0]')).toEqual({
+      ok: false,
+      issues: [
+        { path: '[0].id', message: 'Expected a number, got string' },
+        { path: '[0].label', message: 'Expected a non-empty string' },
+        { path: '[0].note', message: 'Expected a string, got number' },
+      ],
+    });
+  });
+
+  it('should reject non-objects and non-finite numbers', () => {
+    expect(itemSchema.parse([])).toEqual({ ok: false, issues: [{ path: '', message: 'Expected an object, got array' }] });
+    expect(numberSchema().parse(NaN).ok).toBe(false);
+  });
+
+  it('should reject an array when any item does not match', () => {
+    expect(arraySchema(stringSchema()).parse(['a', 'b'])).toEqual({ ok: true, value: ['a', 'b'] });
+    expect(arraySchema(stringSchema()).parse(['a', 2], 'tags')).toEqual({
+      ok: false,
+      issues: [{ path: 'tags[1]', message: 'Expected a string, got number' }],
+    });
+  });
+
+  it('should accept only the listed values', () => {
+    const sizeSchema = oneOfSchema(['small', 'large']);
+    expect(sizeSchema.parse('large')).toEqual({ ok: true, value: 'large' });
+    expect(sizeSchema.parse('medium', 'size')).toEqual({
+      ok: false,
+      issues: [{ path: 'size', message: 'Expected one of small, large, got "medium"' }],
+    });
+    expect(sizeSchema.parse(1).ok).toBe(false);
+  });
+
+  describe('parseList', () => {
+    it('should keep valid items and report the others', () => {
+      const result = parseList(itemSchema, [{ id: 1, label: 'One' }, { label: 'No id' }, { id: 3, label: 'Three' }]);
+
+      expect(result.items).toEqual([{ id: 1, label: 'One' }, { id: 3, label: 'Three' }]);
+      expect(result.issues).toEqual([{ path: '[1].id', message: 'Expected a number, got undefined' }]);
+    });
+
+    it('should report a value that is not a list', () => {
+      expect(parseList(itemSchema, { id: 1 })).toEqual({
+        items: [],
+        issues: [{ path: '', message: 'Expected an array, got object' }],
+      });
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { createStorageTabChannel } from '../TabChannel';
+
+describe('TabChannel', () => {
+  it('should pass messages through storage events when BroadcastChannel is missing', () => {
+    const channel = createStorageTabChannel('test:tabs', window);
+    const listener = jest.fn();
+    const stop = channel.subscribe(listener);
+    const setItem = jest.spyOn(Storage.prototype, 'setItem');
+
+    channel.post('hello');
+    // The browser only fires the storage event in the other tabs, so it is replayed here
+    window.dispatchEvent(new StorageEvent('storage', { key: 'test:tabs', newValue: setItem.mock.calls[0][1] }));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'test:tabs', newValue: null }));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'other', newValue: '{"message":"nope"}' }));
+    stop();
+    window.dispatchEvent(new StorageEvent('storage', { key: 'test:tabs', newValue: setItem.mock.calls[0][1] }));
+
+    expect(listener.mock.calls).toEqual([['hello']]);
+    expect(window.localStorage.getItem('test:tabs')).toBeNull();
+    setItem.mockRestore();
+  });
+});
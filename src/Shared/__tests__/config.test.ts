@@ -0,0 +1,46 @@
+import { ConfigError, loadConfig, validateUserId } from '../config';
+
+describe('config', () => {
+  it('should fall back to the default API and user', () => {
+    expect(loadConfig({})).toEqual({ apiBaseUrl: 'https://tdd.demo.reaktivate.com/v1/books', userId: 'test-test-test', authBaseUrl: null });
+  });
+
+  it('should read environment variables and strip trailing slashes', () => {
+    const config = loadConfig({ REACT_APP_API_URL: 'http://localhost:4000/v1/books/', REACT_APP_USER_ID: 'alice' });
+
+    expect(config).toEqual({ apiBaseUrl: 'http://localhost:4000/v1/books', userId: 'alice', authBaseUrl: null });
+  });
+
+  it('should enable login only when an auth URL is set', () => {
+    expect(loadConfig({ REACT_APP_AUTH_URL: 'https://books.test/v1/auth/' }).authBaseUrl).toBe('https://books.test/v1/auth');
+    expect(() => loadConfig({}, { authUrl: 'books.test/auth' })).toThrow(ConfigError);
+  });
+
+  it('should let runtime config override environment variables', () => {
+    const config = loadConfig(
+      { REACT_APP_API_URL: 'http://localhost:4000/v1/books', REACT_APP_USER_ID: 'alice' },
+      { userId: 'bob' }
+    );
+
+    expect(config.userId).toBe('bob');
+    expect(config.apiBaseUrl).toBe('http://localhost:4000/v1/books');
+  });
+
+  it('should report every invalid value', () => {
+    let error: unknown;
+    try {
+      loadConfig({ REACT_APP_API_URL: 'localhost/books', REACT_APP_USER_ID: 'a/b' });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect((error as ConfigError).problems).toHaveLength(2);
+  });
+
+  it('should only accept user ids that are safe in a URL path', () => {
+    expect(validateUserId('test-test_1.x')).toBeNull();
+    expect(validateUserId('')).not.toBeNull();
+    expect(validateUserId('with space')).not.toBeNull();
+  });
+});
@@ -1,12 +1,111 @@
 /**
- * User identifier for accessing the books API.
- * Replace with your actual identifier if different.
- * @type {string}
+ * Configuration values that can be set at runtime, before the bundle loads, e.g. from a
+ * `<script>window.__BOOKS_CONFIG__ = { apiUrl: "..." }</script>` tag served with `index.html`.
  */
-export const USER_ID: string = "test-test-test";
+export interface RuntimeConfig {
+  apiUrl?: string;
+  userId?: string;
+  authUrl?: string;
+}
+
+declare global {
+  interface Window {
+    __BOOKS_CONFIG__?: RuntimeConfig;
+  }
+}
+
+/**
+ * Validated application configuration.
+ */
+export interface AppConfig {
+  /** Root of the books API without the user segment, e.g. `https://tdd.demo.reaktivate.com/v1/books`. */
+  apiBaseUrl: string;
+  /** User whose books are shown on startup. */
+  userId: string;
+  /**
+   * Root of the authentication API, e.g. `https://books.example.com/v1/auth`. When set, the app asks the user
+   * to log in and sends a bearer token with every books request; when null, the books API is used without login.
+   */
+  authBaseUrl: string | null;
+}
+
+/**
+ * Thrown when the configuration is missing or invalid, listing every problem found.
+ */
+export class ConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid configuration: ${problems.join(" ")}`);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.problems = problems;
+  }
+}
+
+/**
+ * Values used when neither the runtime config nor the environment sets them.
+ * @private - For internal use only, not part of the public API.
+ */
+const DEFAULT_API_URL = "https://tdd.demo.reaktivate.com/v1/books";
+const DEFAULT_USER_ID = "test-test-test";
+
+/**
+ * Characters allowed in a user id, which becomes a path segment of every API URL.
+ * @private - For internal use only, not part of the public API.
+ */
+const USER_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+/**
+ * Checks whether a user id can be used in API paths.
+ * @param {string} userId - The user id to check.
+ * @returns {string | null} A message describing the problem, or null if the id is valid.
+ */
+export const validateUserId = (userId: string): string | null =>
+  USER_ID_PATTERN.test(userId)
+    ? null
+    : "User id must be 1-64 characters long and contain only letters, digits, '.', '_' and '-'.";
+
+/**
+ * Checks whether a URL is an absolute http(s) URL.
+ * @private - For internal use only, not part of the public API.
+ */
+const isHttpUrl = (url: string): boolean => /^https?:\/\/[^/\s]+/i.test(url);
+
+/**
+ * Builds the configuration from runtime values, environment variables (`REACT_APP_API_URL`,
+ * `REACT_APP_USER_ID`, `REACT_APP_AUTH_URL`) and defaults, in that order of precedence, and validates it.
+ * @param {Record<string, string | undefined>} env - Environment variables; `process.env` in the app.
+ * @param {RuntimeConfig} runtime - Runtime overrides; `window.__BOOKS_CONFIG__` in the app.
+ * @returns {AppConfig} The validated configuration.
+ * @throws {ConfigError} If a value is invalid.
+ */
+export const loadConfig = (env: Record<string, string | undefined>, runtime: RuntimeConfig = {}): AppConfig => {
+  const apiUrl = (runtime.apiUrl || env.REACT_APP_API_URL || DEFAULT_API_URL).trim().replace(/\/+$/, "");
+  const userId = (runtime.userId || env.REACT_APP_USER_ID || DEFAULT_USER_ID).trim();
+  const authUrl = (runtime.authUrl || env.REACT_APP_AUTH_URL || "").trim().replace(/\/+$/, "");
+
+  const problems: string[] = [];
+  if (!isHttpUrl(apiUrl)) {
+    problems.push(`API URL "${apiUrl}" must be an absolute http(s) URL.`);
+  }
+  if (authUrl && !isHttpUrl(authUrl)) {
+    problems.push(`Auth URL "${authUrl}" must be an absolute http(s) URL.`);
+  }
+  const userIdProblem = validateUserId(userId);
+  if (userIdProblem) {
+    problems.push(userIdProblem);
+  }
+  if (problems.length) {
+    throw new ConfigError(problems);
+  }
+
+  return { apiBaseUrl: apiUrl, userId, authBaseUrl: authUrl || null };
+};
 
 /**
- * The base URL for the Reaktivate Books API, constructed with the user identifier.
- * @type {string}
+ * The configuration the application runs with.
  */
-export const API_URL_BASE: string = `https://tdd.demo.reaktivate.com/v1/books/${USER_ID}`; 
\ No newline at end of file
+export const appConfig: AppConfig = loadConfig(
+  process.env,
+  typeof window !== "undefined" && window.__BOOKS_CONFIG__ ? window.__BOOKS_CONFIG__ : {}
+);
@@ -0,0 +1,36 @@
+/**
+ * Replaces console methods with mocks for the tests of the calling file, and restores them afterwards,
+ * so expected failures do not clutter the output and tests can check what was logged.
+ * Must be called at the top level of a test file.
+ * @param {...("error" | "warn" | "debug")} methods - The methods to mock; defaults to `error`.
+ */
+export const mockConsole = (...methods: ("error" | "warn" | "debug")[]): void => {
+  const mocked = methods.length ? methods : ["error" as "error"];
+  const originals = mocked.map((method) => console[method]);
+
+  beforeAll(() => {
+    mocked.forEach((method) => {
+      console[method] = jest.fn();
+    });
+  });
+
+  afterAll(() => {
+    mocked.forEach((method, i: number) => {
+      console[method] = originals[i];
+    });
+  });
+};
+
+/**
+ * Creates a promise that a test resolves or rejects when it chooses, e.g. to hold a request in flight.
+ * @returns The promise with its `resolve` and `reject` functions.
+ */
+export const deferred = <T>() => {
+  let resolve: (value: T) => void = () => undefined;
+  let reject: (reason: unknown) => void = () => undefined;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
@@ -1,26 +1,51 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
+import { observer } from 'mobx-react';
+import LoginView from './Auth/LoginView';
 import BooksView from './Books/BooksView';
+import StatsView from './Books/StatsView';
 import Header from './Shared/Header/Header';
+import { createRootStore } from './Root/RootStore';
+import { StoreProvider, useAuth, useUiStore } from './Root/StoreContext';
+import { isBrowserOnline } from './Shared/Connectivity';
+import { getBrowserStorage } from './Shared/PersistentStorage';
 import './styles.css';
 
 /**
  * The root application component.
- * Renders the main layout including the Header and BooksView.
+ * Renders the main layout including the Header and the page picked in the UI store (BooksView or StatsView),
+ * or the login view while login is required and nobody is signed in.
  * @component
  */
-const App: React.FC = () => {
+const App: React.FC = observer(() => {
+  const auth = useAuth();
+  const ui = useUiStore();
+  if (auth && !auth.isAuthenticated) {
+    return (
+      <>
+        <h1>Reaktivate Books Demo</h1>
+        <LoginView auth={auth} />
+      </>
+    );
+  }
   return (
     <>
       <Header />
       <h1>Reaktivate Books Demo</h1>
-      <BooksView />
+      {ui.page === 'stats' ? <StatsView /> : <BooksView />}
     </>
   );
-};
+});
 
 const rootElement = document.getElementById('root');
 if (!rootElement) throw new Error('Failed to find the root element');
 
+const rootStore = createRootStore({ storage: getBrowserStorage(), isOnline: isBrowserOnline() });
+rootStore.start();
+
 const root = createRoot(rootElement);
-root.render(<App />); 
\ No newline at end of file
+root.render(
+  <StoreProvider store={rootStore}>
+    <App />
+  </StoreProvider>
+);